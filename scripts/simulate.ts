@@ -0,0 +1,78 @@
+/**
+ * Runs the game simulation without a browser or renderer, for checking
+ * gameplay changes and reproducing seeded runs from the command line:
+ *
+ *   npm run simulate -- [ticks] [seed] [level]
+ *
+ * The player holds fire and sweeps slowly round the rim. Prints what
+ * happened once the run ends or the ticks run out.
+ */
+import { Simulation } from "../src/sim/simulation";
+import { TICK_DURATION, TICK_RATE } from "../src/sim/tickRate";
+import { InputAction } from "../src/replay";
+import { Random } from "../src/random";
+import { GameState } from "../src/types";
+
+// The project only has browser types, so declare what's used of Node's
+declare const process: { argv: string[]; exit(code: number): never };
+
+const [ticksArg, seedArg, levelArg] = process.argv.slice(2);
+const ticks = ticksArg ? Number(ticksArg) : TICK_RATE * 60;
+const seed = seedArg ? Number(seedArg) : Random.createSeed();
+const level = levelArg ? Number(levelArg) : 1;
+
+if (![ticks, seed, level].every(Number.isInteger)) {
+  console.error("Usage: npm run simulate -- [ticks] [seed] [level]");
+  process.exit(1);
+}
+
+const gameState: GameState = {
+  score: 0,
+  currentLevel: level,
+  gameStatus: "active",
+  lives: 3,
+  seed,
+  random: new Random(seed),
+  lastReplay: null,
+};
+
+const simulation = new Simulation(gameState);
+
+// Tally every event the run emits
+const counts: Record<string, number> = {};
+const countEvent = (name: string) => () => {
+  counts[name] = (counts[name] ?? 0) + 1;
+};
+for (const name of [
+  "levelCompleted",
+  "enemySpawned",
+  "enemyKilled",
+  "enemyEscaped",
+  "bulletFired",
+  "spikeShot",
+  "playerHit",
+  "playerDied",
+] as const) {
+  simulation.events.on(name, countEvent(name));
+}
+
+simulation.start(seed);
+
+let tick = 0;
+while (tick < ticks && !simulation.isOver()) {
+  tick++;
+  const actions: InputAction[] = [
+    { type: "aim", angle: (tick / TICK_RATE) * 0.5 },
+  ];
+  if (tick === 1) actions.push({ type: "fire", pressed: true });
+  simulation.step(TICK_DURATION, actions);
+}
+
+console.log(`Seed ${seed}, ${tick} ticks (${(tick / TICK_RATE).toFixed(1)}s)`);
+console.log(
+  `Level ${gameState.currentLevel}, score ${gameState.score}, ` +
+    `lives ${gameState.lives}${simulation.isOver() ? ", game over" : ""}`
+);
+for (const [name, count] of Object.entries(counts)) {
+  console.log(`  ${name}: ${count}`);
+}
@@ -0,0 +1,89 @@
+/**
+ * Gameplay checks run against the headless simulation, for behaviour that's
+ * easy to break without noticing in play:
+ *
+ *   npm run check:sim
+ *
+ * Each check throws if the simulation doesn't do what it says.
+ */
+import { Simulation } from "../src/sim/simulation";
+import { Enemy } from "../src/sim/enemy";
+import { levelDefinitions } from "../src/sim/levelDefinitions";
+import { TICK_DURATION, TICK_RATE } from "../src/sim/tickRate";
+import { Random } from "../src/random";
+import { GameState } from "../src/types";
+
+// The project only has browser types, so declare what's used of Node's
+declare const process: { exitCode?: number };
+
+function createSimulation(): Simulation {
+  const gameState: GameState = {
+    score: 0,
+    currentLevel: 1,
+    gameStatus: "active",
+    lives: 3,
+    seed: 1,
+    random: new Random(1),
+    lastReplay: null,
+  };
+  return new Simulation(gameState);
+}
+
+function stepSeconds(simulation: Simulation, seconds: number): void {
+  for (let i = 0; i < Math.round(seconds * TICK_RATE); i++) {
+    simulation.step(TICK_DURATION, []);
+  }
+}
+
+function check(condition: boolean, problem: string): void {
+  if (!condition) throw new Error(problem);
+}
+
+const checks: Record<string, () => void> = {
+  "boss that dies without the player killing it comes round again": () => {
+    const definition = levelDefinitions.find(
+      (level) => level.objective.type === "boss"
+    );
+    if (definition?.objective.type !== "boss") {
+      throw new Error("no authored boss level");
+    }
+    const delay = definition.objective.delay;
+
+    const simulation = createSimulation();
+    simulation.playCustomLevel(definition);
+    simulation.start(1);
+    simulation.state.spawnEnemies = false;
+
+    let boss: Enemy | null = null;
+    simulation.events.on("enemySpawned", ({ enemy }) => {
+      if (enemy.isBoss) boss = enemy;
+    });
+
+    stepSeconds(simulation, delay);
+    const firstBoss = boss as Enemy | null;
+    check(firstBoss !== null, "boss never came out");
+
+    // As when a crawling boss carries the player off
+    boss = null;
+    simulation["destroyEnemy"](firstBoss!, false);
+    stepSeconds(simulation, 1);
+    check(boss === null, "boss came straight back out");
+
+    stepSeconds(simulation, delay);
+    check(boss !== null, "boss didn't come back out after the delay");
+    check(
+      !simulation.isTransitionInProgress(),
+      "level ended without the boss being shot down"
+    );
+  },
+};
+
+for (const [name, run] of Object.entries(checks)) {
+  try {
+    run();
+    console.log(`ok   ${name}`);
+  } catch (error) {
+    console.log(`FAIL ${name}: ${(error as Error).message}`);
+    process.exitCode = 1;
+  }
+}
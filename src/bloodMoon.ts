@@ -1,5 +1,6 @@
 import * as THREE from "three";
 import { SoundManager } from "./synth";
+import { Scheduler } from "./scheduler";
 
 export class BloodMoon {
   private moonGroup: THREE.Group;
@@ -7,9 +8,10 @@ export class BloodMoon {
   private glow: THREE.Mesh;
   private craters: THREE.Mesh[] = [];
   private scene: THREE.Scene;
+  private scheduler: Scheduler;
 
-  // Animation properties
-  private animationFrame: number | null = null;
+  // Animation properties, timed in seconds on the game clock
+  private animationTask: number | null = null;
   private isShrinking: boolean = false;
   private isGrowing: boolean = false;
   private fullyGrown: boolean = false;
@@ -23,8 +25,9 @@ export class BloodMoon {
   private moonMaterial: THREE.MeshBasicMaterial;
   private glowMaterial: THREE.MeshBasicMaterial;
 
-  constructor(scene: THREE.Scene) {
+  constructor(scene: THREE.Scene, scheduler: Scheduler) {
     this.scene = scene;
+    this.scheduler = scheduler;
     this.moonGroup = new THREE.Group();
 
     // Parameters
@@ -70,9 +73,6 @@ export class BloodMoon {
     // Add moon and glow to the group
     this.moonGroup.add(this.glow);
     this.moonGroup.add(this.moon);
-
-    // Start animation
-    this.animate();
   }
 
   /**
@@ -80,9 +80,9 @@ export class BloodMoon {
    */
   public startShrinking(duration: number): void {
     this.isGrowing = false;
-    this.shrinkDuration = duration * 1000; // Convert seconds to milliseconds
+    this.shrinkDuration = duration;
     this.isShrinking = true;
-    this.shrinkStart = Date.now();
+    this.shrinkStart = this.scheduler.now();
   }
 
   /**
@@ -123,10 +123,10 @@ export class BloodMoon {
       SoundManager.getInstance().playBloodMoonActivation();
     }
 
-    this.growthDuration = duration * 1000; // Convert seconds to milliseconds
+    this.growthDuration = duration;
     this.isGrowing = true;
     this.fullyGrown = false;
-    this.growthStart = Date.now();
+    this.growthStart = this.scheduler.now();
   }
 
   /**
@@ -150,13 +150,13 @@ export class BloodMoon {
    */
   public getRemainingTime(): number {
     if (!this.isGrowing) {
-      return this.growthDuration / 1000; // Return full duration if not growing yet
+      return this.growthDuration ?? 0; // Return full duration if not growing yet
     }
 
-    const elapsedTime = Date.now() - this.growthStart;
+    const elapsedTime = this.scheduler.now() - this.growthStart;
     const remainingTime = Math.max(0, this.growthDuration - elapsedTime);
 
-    return Math.ceil(remainingTime / 1000); // Return seconds, rounded up
+    return Math.ceil(remainingTime); // Return seconds, rounded up
   }
 
   public isFullyGrown(): boolean {
@@ -169,10 +169,8 @@ export class BloodMoon {
    */
   public exit(): void {
     // Cancel any ongoing animation
-    if (this.animationFrame !== null) {
-      cancelAnimationFrame(this.animationFrame);
-      this.animationFrame = null;
-    }
+    this.scheduler.cancel(this.animationTask);
+    this.animationTask = null;
 
     // Remove from scene
     this.scene.remove(this.moonGroup);
@@ -198,9 +196,9 @@ export class BloodMoon {
     this.moonMaterial.color.setRGB(0.67, 0, 0); // Reset to default deep red
     this.glowMaterial.color.setRGB(1, 0.2, 0.2); // Reset to default glow
 
-    // Restart the animation if needed
-    if (!this.animationFrame) {
-      this.animationFrame = requestAnimationFrame(() => this.animate());
+    // Restart the animation if needed; it runs on game ticks so it freezes while paused
+    if (this.animationTask === null) {
+      this.animationTask = this.scheduler.everyTick(() => this.animate());
     }
   }
 
@@ -233,13 +231,13 @@ export class BloodMoon {
    * Animate the blood moon
    */
   private animate(): void {
-    const time = Date.now() * 0.001;
+    const time = this.scheduler.now();
 
     if (this.isGrowing) {
       // Calculate growth progress
       const growthProgress = Math.min(
         1,
-        (Date.now() - this.growthStart) / this.growthDuration
+        (time - this.growthStart) / this.growthDuration
       );
 
       // Calculate target scale based on level radius
@@ -261,7 +259,7 @@ export class BloodMoon {
       // Calculate shrink progress
       const shrinkProgress = Math.min(
         1,
-        (Date.now() - this.shrinkStart) / this.shrinkDuration
+        (time - this.shrinkStart) / this.shrinkDuration
       );
 
       // Use a more dramatic, non-linear shrinking animation
@@ -292,7 +290,7 @@ export class BloodMoon {
       if (shrinkProgress > 0.5) {
         const pulseRate = 20 + shrinkProgress * 50; // Faster pulsing as it collapses
         const pulseAmount = 0.1 * (1 - shrinkProgress);
-        const pulse = 1 + Math.sin(Date.now() * 0.01 * pulseRate) * pulseAmount;
+        const pulse = 1 + Math.sin(time * 10 * pulseRate) * pulseAmount;
 
         // Apply pulse to opacity
         this.moonMaterial.opacity = 0.9 * pulse;
@@ -327,8 +325,5 @@ export class BloodMoon {
         this.moonGroup.position.set(wobbleX, wobbleY, 0);
       }
     }
-
-    // Continue animation loop
-    this.animationFrame = requestAnimationFrame(() => this.animate());
   }
 }
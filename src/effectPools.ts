@@ -0,0 +1,163 @@
+import * as THREE from "three";
+import { ObjectPool } from "./pool";
+import { ResourceScope } from "./resources";
+
+export const enemyParticleCount = 50;
+export const deathParticleCount = 60;
+export const explosionRingCount = 5;
+
+// Radius the explosion ring geometry is built at; rings are scaled from here
+export const explosionRingRadius = 0.1;
+
+// A particle cloud with room for the given number of particles
+function createParticles(
+  count: number,
+  material: THREE.PointsMaterial,
+  extraAttributes: Record<string, number>
+): THREE.Points {
+  const particles = new THREE.BufferGeometry();
+  particles.setAttribute(
+    "position",
+    new THREE.BufferAttribute(new Float32Array(count * 3), 3)
+  );
+  particles.setAttribute(
+    "velocity",
+    new THREE.BufferAttribute(new Float32Array(count * 3), 3)
+  );
+
+  for (const [name, itemSize] of Object.entries(extraAttributes)) {
+    particles.setAttribute(
+      name,
+      new THREE.BufferAttribute(new Float32Array(count * itemSize), itemSize)
+    );
+  }
+
+  return new THREE.Points(particles, material);
+}
+
+/**
+ * Pre-allocated projectiles and effects for the game view.
+ * Objects of one kind share geometry, and material too wherever they don't
+ * fade or recolour independently, so firing and exploding stop creating GPU
+ * resources that are never freed.
+ */
+export class EffectPools {
+  public readonly playerBullets: ObjectPool<THREE.Mesh>;
+  public readonly enemyBullets: ObjectPool<THREE.Mesh>;
+  public readonly bombs: ObjectPool<THREE.Mesh>;
+  public readonly directionArrows: ObjectPool<THREE.ArrowHelper>;
+  public readonly explosionRings: ObjectPool<THREE.Mesh>;
+  public readonly explosionLights: ObjectPool<THREE.PointLight>;
+  public readonly enemyParticles: ObjectPool<THREE.Points>;
+  public readonly deathParticles: ObjectPool<THREE.Points>;
+
+  /**
+   * @param resources Scope that owns the pooled geometry and materials
+   */
+  constructor(resources: ResourceScope) {
+    const track = <T extends THREE.Object3D>(object: T) =>
+      resources.trackObject(object);
+
+    const playerBulletGeometry = new THREE.SphereGeometry(0.2, 8, 8);
+    const playerBulletMaterial = new THREE.MeshBasicMaterial({
+      color: 0x00ffff,
+    });
+    this.playerBullets = new ObjectPool(
+      () => track(new THREE.Mesh(playerBulletGeometry, playerBulletMaterial)),
+      32
+    );
+
+    const enemyBulletGeometry = new THREE.SphereGeometry(0.15, 8, 8);
+    const enemyBulletMaterial = new THREE.MeshBasicMaterial({
+      color: 0xff0000, // Red bullet
+    });
+    this.enemyBullets = new ObjectPool(
+      () => track(new THREE.Mesh(enemyBulletGeometry, enemyBulletMaterial)),
+      16
+    );
+
+    // A larger, more distinctive bomb with an orange-red glow
+    const bombGeometry = new THREE.SphereGeometry(0.25, 12, 12);
+    const bombMaterial = new THREE.MeshStandardMaterial({
+      color: 0xff6600, // Orange
+      emissive: 0xff3300, // Red-orange glow
+      emissiveIntensity: 0.7,
+      metalness: 0.3,
+      roughness: 0.4,
+    });
+    this.bombs = new ObjectPool(
+      () => track(new THREE.Mesh(bombGeometry, bombMaterial)),
+      8
+    );
+
+    this.directionArrows = new ObjectPool(
+      () =>
+        track(
+          new THREE.ArrowHelper(
+            new THREE.Vector3(1, 0, 0),
+            new THREE.Vector3(),
+            0.5,
+            0xff0000
+          )
+        ),
+      8
+    );
+
+    // Rings share a filled circle but fade individually, so each keeps its own material
+    const ringGeometry = new THREE.CircleGeometry(explosionRingRadius, 32);
+    this.explosionRings = new ObjectPool(
+      () =>
+        track(
+          new THREE.Mesh(
+            ringGeometry,
+            new THREE.MeshBasicMaterial({
+              transparent: true,
+              opacity: 1.0,
+              side: THREE.DoubleSide, // Make sure it's visible from both sides
+            })
+          )
+        ),
+      explosionRingCount * 4
+    );
+
+    this.explosionLights = new ObjectPool(
+      () => new THREE.PointLight(0xffffff, 2),
+      4
+    );
+
+    this.enemyParticles = new ObjectPool(
+      () =>
+        track(
+          createParticles(
+            enemyParticleCount,
+            new THREE.PointsMaterial({
+              size: 0.2,
+              transparent: true,
+              opacity: 1.0,
+              depthWrite: false, // Ensure particles are rendered with transparency
+            }),
+            { alpha: 1 }
+          )
+        ),
+      8
+    );
+
+    this.deathParticles = new ObjectPool(
+      () =>
+        track(
+          createParticles(
+            deathParticleCount,
+            new THREE.PointsMaterial({
+              size: 0.3,
+              vertexColors: true,
+              transparent: true,
+              opacity: 1.0,
+              depthWrite: false,
+            }),
+            { color: 3 }
+          )
+        ),
+      1
+    );
+  }
+}
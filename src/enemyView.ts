@@ -0,0 +1,378 @@
+import * as THREE from "three";
+import { Enemy, bossScale } from "./sim/enemy";
+import { EnemyGeometry } from "./sim/enemyDefinitions";
+import { Scheduler } from "./scheduler";
+import { EffectPools, enemyParticleCount } from "./effectPools";
+import { ResourceScope } from "./resources";
+
+// Draws a simulated enemy: its mesh, health bar, hit flashes and guide line
+export class EnemyView {
+  // Geometry for each enemy type, kept for the whole game
+  private static geometries: Map<number, THREE.BufferGeometry> = new Map();
+  private static sharedResources: ResourceScope = new ResourceScope();
+
+  public mesh: THREE.Mesh;
+  private enemy: Enemy;
+  private scene: THREE.Scene;
+  private scheduler: Scheduler; // Runs cosmetic effects, frozen while paused
+  private pools: EffectPools;
+  private resources: ResourceScope; // This enemy's material and health bar
+  private guideLineResources: ResourceScope; // Freed whenever the guide line disappears
+  private material: THREE.MeshStandardMaterial;
+  private originalColor: THREE.Color;
+  private originalEmissive: THREE.Color;
+  private originalEmissiveIntensity: number;
+  private recolorTimer: number | null = null;
+  private guideLine?: THREE.Line;
+
+  // Health bar elements
+  private healthBar: THREE.Group | null = null;
+
+  constructor(
+    scene: THREE.Scene,
+    scheduler: Scheduler,
+    pools: EffectPools,
+    resources: ResourceScope,
+    enemy: Enemy
+  ) {
+    this.scene = scene;
+    this.scheduler = scheduler;
+    this.pools = pools;
+    this.resources = resources.createChild();
+    this.guideLineResources = this.resources.createChild();
+    this.enemy = enemy;
+
+    // Some types vary in hue from one enemy to the next
+    const { hue, hueVariation, glow } = enemy.definition.color;
+    const color = new THREE.Color().setHSL(
+      hue + Math.random() * (hueVariation ?? 0),
+      1,
+      0.5
+    );
+    const emissiveIntensity = glow;
+
+    // Create material with emissive glow
+    this.material = this.resources.track(
+      new THREE.MeshStandardMaterial({
+        color: color,
+        emissive: color,
+        emissiveIntensity: emissiveIntensity,
+        flatShading: true,
+      })
+    );
+    this.originalColor = this.material.color.clone();
+    this.originalEmissive = this.material.emissive.clone();
+    this.originalEmissiveIntensity = emissiveIntensity;
+
+    this.mesh = new THREE.Mesh(
+      EnemyView.getGeometry(enemy.type, enemy.definition.geometry),
+      this.material
+    );
+    this.mesh.position.set(enemy.position.x, enemy.position.y, 0);
+
+    // Create health bar for enemies with more than 1 hit point
+    if (enemy.maxHitPoints > 1) {
+      this.createHealthBar();
+    }
+
+    this.scene.add(this.mesh);
+  }
+
+  // Follow the simulated enemy after a tick
+  update(delta: number): void {
+    this.mesh.position.set(this.enemy.position.x, this.enemy.position.y, 0);
+
+    // Rotate enemy for visual effect
+    this.mesh.rotation.x += delta * 2;
+    this.mesh.rotation.y += delta * 2;
+
+    // Scale enemy as it moves outward for better visibility
+    const scale =
+      (0.5 +
+        this.enemy.distanceFromCenter / (this.enemy.level.getRadius() * 2)) *
+      (this.enemy.isBoss ? bossScale : 1);
+    this.mesh.scale.set(scale, scale, scale);
+
+    // Make the health bar always face the camera
+    if (this.healthBar) {
+      // Make health bar face the camera by aligning it with world up vector
+      this.healthBar.up.set(0, 1, 0);
+      this.healthBar.lookAt(0, 0, 5); // Look at camera (assumed to be at z=5)
+
+      // Scale the health bar inversely to enemy's scale so it maintains size
+      const barScale = 1 / scale;
+      this.healthBar.scale.set(barScale, barScale, barScale);
+    }
+
+    this.updateGuideLine();
+  }
+
+  public getColor(): THREE.Color {
+    return this.originalColor;
+  }
+
+  // Visual feedback when the enemy is hit
+  showDamage(): void {
+    this.flash(0.1);
+    this.updateHealthBar();
+  }
+
+  // Flash bright white for the given number of seconds
+  flash(duration: number): void {
+    // Clear any pending recolor to prevent race conditions
+    this.scheduler.cancel(this.recolorTimer);
+
+    this.material.color.set(0xffffff);
+    this.material.emissive.set(0xffffff);
+    this.material.emissiveIntensity = 1.0;
+
+    // Return to original color after a short delay
+    this.recolorTimer = this.scheduler.after(duration, () => {
+      this.material.color.copy(this.originalColor);
+      this.material.emissive.copy(this.originalEmissive);
+      this.material.emissiveIntensity = this.originalEmissiveIntensity;
+      this.recolorTimer = null;
+    });
+  }
+
+  // Burst into particles and leave the scene
+  explode(): void {
+    this.createExplosion(this.mesh.position, this.originalColor);
+    this.remove();
+  }
+
+  remove(): void {
+    this.scheduler.cancel(this.recolorTimer);
+    this.recolorTimer = null;
+
+    this.removeGuideLine();
+
+    // The health bar is a child of the mesh, so it goes with it
+    this.healthBar = null;
+    this.scene.remove(this.mesh);
+
+    // The geometry is shared between enemies of the same type, so only this enemy's own resources go
+    this.resources.dispose();
+  }
+
+  // Draw the line the enemy's movement controller is projecting, if any
+  private updateGuideLine(): void {
+    const line = this.enemy.getGuideLine();
+    if (!line) {
+      this.removeGuideLine();
+      return;
+    }
+
+    if (!this.guideLine) {
+      // Create line geometry
+      const lineGeometry = new THREE.BufferGeometry();
+      lineGeometry.setAttribute(
+        "position",
+        new THREE.BufferAttribute(new Float32Array(6), 3)
+      );
+
+      // Create line material - color matches enemy
+      const lineMaterial = new THREE.LineBasicMaterial({
+        color: this.originalColor,
+        linewidth: 2,
+        opacity: 0.7,
+        transparent: true,
+      });
+
+      // Create line and add to scene
+      this.guideLine = this.guideLineResources.trackObject(
+        new THREE.Line(lineGeometry, lineMaterial)
+      );
+      this.scene.add(this.guideLine);
+    }
+
+    // Update the line's end points
+    const positions = this.guideLine.geometry.attributes.position
+      .array as Float32Array;
+    positions[0] = line.start.x;
+    positions[1] = line.start.y;
+    positions[2] = 0;
+    positions[3] = line.end.x;
+    positions[4] = line.end.y;
+    positions[5] = 0;
+
+    this.guideLine.geometry.attributes.position.needsUpdate = true;
+  }
+
+  private removeGuideLine(): void {
+    if (!this.guideLine) return;
+
+    this.scene.remove(this.guideLine);
+
+    // Dispose of geometry and material to prevent memory leaks
+    this.guideLineResources.dispose();
+    this.guideLineResources = this.resources.createChild();
+
+    this.guideLine = undefined;
+  }
+
+  // Create health bar for enemies with multiple hit points
+  private createHealthBar(): void {
+    // Create a group to hold the health bar
+    this.healthBar = new THREE.Group();
+
+    // Create the background bar (gray)
+    const bgBarGeometry = new THREE.BoxGeometry(1, 0.1, 0.05);
+    const bgBarMaterial = new THREE.MeshBasicMaterial({ color: 0x444444 });
+    const bgBar = new THREE.Mesh(bgBarGeometry, bgBarMaterial);
+
+    // Create the foreground bar (health indicator - green)
+    const fgBarGeometry = new THREE.BoxGeometry(1, 0.1, 0.06); // Slightly in front
+    const fgBarMaterial = new THREE.MeshBasicMaterial({ color: 0x00ff00 });
+    const fgBar = new THREE.Mesh(fgBarGeometry, fgBarMaterial);
+
+    // Add the bars to the group
+    this.healthBar.add(bgBar);
+    this.healthBar.add(fgBar);
+
+    // Position the health bar above the enemy
+    this.healthBar.position.set(0, this.enemy.size * 1.5, 0);
+
+    // Add the health bar to the enemy mesh
+    this.mesh.add(this.healthBar);
+
+    // Store reference to the foreground bar for updating
+    this.healthBar.userData.foregroundBar = fgBar;
+
+    this.resources.trackObject(this.healthBar);
+  }
+
+  // Update the health bar to reflect current health
+  private updateHealthBar(): void {
+    if (!this.healthBar) return;
+
+    // Get the foreground bar
+    const fgBar = this.healthBar.userData.foregroundBar as THREE.Mesh;
+
+    if (fgBar) {
+      // Calculate health percentage
+      const healthPercent = this.enemy.hitPoints / this.enemy.maxHitPoints;
+
+      // Resize the bar
+      fgBar.scale.x = Math.max(0.01, healthPercent); // Ensure it's never zero
+
+      // Update the position to align with the left side of background bar
+      fgBar.position.x = (healthPercent - 1) / 2;
+
+      // Update color based on health (green -> yellow -> red)
+      const fgBarMaterial = fgBar.material as THREE.MeshBasicMaterial;
+
+      if (healthPercent > 0.6) {
+        fgBarMaterial.color.setHex(0x00ff00); // Green
+      } else if (healthPercent > 0.3) {
+        fgBarMaterial.color.setHex(0xffff00); // Yellow
+      } else {
+        fgBarMaterial.color.setHex(0xff0000); // Red
+      }
+    }
+  }
+
+  // Create explosion particles
+  private createExplosion(position: THREE.Vector3, color: THREE.Color): void {
+    const particleCount = enemyParticleCount;
+    const particleSystem = this.pools.enemyParticles.acquire();
+    const particles = particleSystem.geometry;
+    const pMaterial = particleSystem.material as THREE.PointsMaterial;
+    const positions = particles.attributes.position.array as Float32Array;
+    const velocities = particles.attributes.velocity.array as Float32Array;
+    const alphas = particles.attributes.alpha.array as Float32Array;
+
+    for (let i = 0; i < particleCount; i++) {
+      positions[i * 3] = position.x;
+      positions[i * 3 + 1] = position.y;
+      positions[i * 3 + 2] = position.z;
+
+      // Random velocity for each particle
+      velocities[i * 3] = (Math.random() - 0.5) * 2;
+      velocities[i * 3 + 1] = (Math.random() - 0.5) * 2;
+      velocities[i * 3 + 2] = (Math.random() - 0.5) * 2;
+
+      // Initial alpha value
+      alphas[i] = 1.0;
+    }
+
+    pMaterial.color.copy(color);
+    pMaterial.opacity = 1.0;
+    this.scene.add(particleSystem);
+
+    // Update particle positions and alpha values each tick
+    const updateParticles = () => {
+      for (let i = 0; i < particleCount; i++) {
+        positions[i * 3] += velocities[i * 3] * 0.1;
+        positions[i * 3 + 1] += velocities[i * 3 + 1] * 0.1;
+        positions[i * 3 + 2] += velocities[i * 3 + 2] * 0.1;
+
+        // Decrease alpha value to create fading effect
+        alphas[i] -= 0.02;
+        if (alphas[i] < 0) alphas[i] = 0;
+      }
+
+      particles.attributes.position.needsUpdate = true;
+      particles.attributes.alpha.needsUpdate = true;
+
+      // Update material opacity based on alpha values
+      pMaterial.opacity = Math.max(...alphas);
+    };
+
+    updateParticles();
+
+    // Return the particles to the pool after a short duration, or when the mode exits
+    const removeParticles = () => {
+      this.scene.remove(particleSystem);
+      this.pools.enemyParticles.release(particleSystem);
+    };
+    this.scheduler.tween({
+      duration: 1,
+      onUpdate: updateParticles,
+      onComplete: removeParticles,
+      onCancel: removeParticles,
+    });
+  }
+
+  // Get geometry based on enemy type, shared by every enemy of that type
+  static getGeometry(
+    enemyType: number,
+    shape: EnemyGeometry
+  ): THREE.BufferGeometry {
+    let geometry = EnemyView.geometries.get(enemyType);
+    if (!geometry) {
+      geometry = EnemyView.sharedResources.track(
+        EnemyView.createGeometry(shape)
+      );
+      EnemyView.geometries.set(enemyType, geometry);
+    }
+    return geometry;
+  }
+
+  private static createGeometry(shape: EnemyGeometry): THREE.BufferGeometry {
+    switch (shape.type) {
+      case "sphere":
+        return new THREE.SphereGeometry(shape.radius, 8, 8);
+      case "tetrahedron":
+        return new THREE.TetrahedronGeometry(shape.radius);
+      case "octahedron":
+        return new THREE.OctahedronGeometry(shape.radius);
+      case "dodecahedron":
+        return new THREE.DodecahedronGeometry(shape.radius);
+      case "icosahedron":
+        return new THREE.IcosahedronGeometry(shape.radius);
+      case "torus":
+        return new THREE.TorusGeometry(shape.radius, shape.tube, 8, 8);
+      case "cone":
+        return new THREE.ConeGeometry(shape.radius, shape.height, shape.sides);
+      case "box":
+        return new THREE.BoxGeometry(shape.size, shape.size, shape.size);
+      case "ring":
+        return new THREE.RingGeometry(
+          shape.innerRadius,
+          shape.outerRadius,
+          shape.segments
+        );
+    }
+  }
+}
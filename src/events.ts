@@ -0,0 +1,64 @@
+import { GameStatus } from "./types";
+import { SimulationEvents } from "./sim/types";
+
+// Events that carry no payload are emitted without an argument
+type EventArgs<T> = T extends void ? [] : [T];
+
+type EventHandler<T> = (...args: EventArgs<T>) => void;
+
+/**
+ * Typed publish/subscribe hub. Each event name maps to its payload type,
+ * so emitters and subscribers can't disagree about what an event carries.
+ */
+export class EventBus<Events> {
+  private handlers: Map<PropertyKey, EventHandler<any>[]> = new Map();
+
+  /**
+   * Subscribe to an event
+   * @returns Function that removes the subscription again
+   */
+  public on<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>
+  ): () => void {
+    const handlers = this.handlers.get(type) ?? [];
+    handlers.push(handler);
+    this.handlers.set(type, handlers);
+
+    return () => this.off(type, handler);
+  }
+
+  public off<K extends keyof Events>(
+    type: K,
+    handler: EventHandler<Events[K]>
+  ): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    const index = handlers.indexOf(handler);
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+  }
+
+  /**
+   * Call every subscriber of an event, in the order they subscribed
+   */
+  public emit<K extends keyof Events>(
+    type: K,
+    ...args: EventArgs<Events[K]>
+  ): void {
+    const handlers = this.handlers.get(type);
+    if (!handlers) return;
+
+    // Copy so handlers can unsubscribe (or subscribe others) while we run them
+    for (const handler of [...handlers]) {
+      handler(...args);
+    }
+  }
+}
+
+// Everything that happens in a game, from mode changes down to single shots
+export interface GameEvents extends SimulationEvents {
+  gameStatusChanged: { status: GameStatus };
+}
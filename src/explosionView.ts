@@ -0,0 +1,177 @@
+import * as THREE from "three";
+import { Explosion } from "./sim/types";
+import { Scheduler } from "./scheduler";
+import {
+  EffectPools,
+  explosionRingCount,
+  explosionRingRadius,
+} from "./effectPools";
+
+// Expanding rings and a flash of light drawn over a simulated explosion
+export class ExplosionView {
+  private scene: THREE.Scene;
+  private scheduler: Scheduler;
+  private pools: EffectPools;
+  private position: THREE.Vector3;
+  private color: THREE.Color;
+  private rings: THREE.Mesh[] = [];
+  private light: THREE.PointLight;
+  private explosionRadius: number;
+  private duration: number; // Duration in seconds of game time
+  private numRings: number = explosionRingCount; // Number of concentric circles
+
+  constructor(
+    scene: THREE.Scene,
+    scheduler: Scheduler,
+    pools: EffectPools,
+    explosion: Explosion,
+    color: THREE.Color
+  ) {
+    this.scene = scene;
+    this.scheduler = scheduler;
+    this.pools = pools;
+    this.position = new THREE.Vector3(
+      explosion.position.x,
+      explosion.position.y,
+      0
+    );
+    this.color = color;
+    this.explosionRadius = explosion.maxRadius;
+    this.duration = explosion.duration;
+
+    // Create the concentric rings
+    this.createRings();
+
+    // Add light effect
+    this.light = this.pools.explosionLights.acquire();
+    this.light.color.copy(this.color);
+    this.light.intensity = 2;
+    this.light.distance = this.explosionRadius * 3;
+    this.light.position.copy(this.position);
+    this.scene.add(this.light);
+
+    // Start animation
+    this.animate();
+  }
+
+  private createRings(): void {
+    // Create multiple concentric circles/rings
+    for (let i = 0; i < this.numRings; i++) {
+      // Pass the inverted ring index so innermost is numRings-1 (yellow) and outermost is 0 (dark red)
+      const ring = this.createRing(this.numRings - 1 - i);
+      this.rings.push(ring);
+      this.scene.add(ring);
+    }
+  }
+
+  private createRing(ringIndex: number): THREE.Mesh {
+    // Create color gradient from dark red (outermost) to yellow (innermost)
+    // Map the ring index to a color in the gradient
+    const colorIndex = ringIndex / (this.numRings - 1); // 0 to 1 based on position in sequence
+
+    // Create a color gradient from dark red (0) to bright yellow (1)
+    let ringColor: THREE.Color;
+    if (colorIndex < 0.33) {
+      // Dark red to red (first third)
+      const t = colorIndex / 0.33;
+      ringColor = new THREE.Color(0x660000).lerp(new THREE.Color(0xff0000), t);
+    } else if (colorIndex < 0.66) {
+      // Red to orange (middle third)
+      const t = (colorIndex - 0.33) / 0.33;
+      ringColor = new THREE.Color(0xff0000).lerp(new THREE.Color(0xff6600), t);
+    } else {
+      // Orange to yellow (final third)
+      const t = (colorIndex - 0.66) / 0.34;
+      ringColor = new THREE.Color(0xff6600).lerp(new THREE.Color(0xffff00), t);
+    }
+
+    // Take a filled circle from the pool; it still carries the last explosion's state
+    const ring = this.pools.explosionRings.acquire();
+    const material = ring.material as THREE.MeshBasicMaterial;
+    material.color.copy(ringColor);
+    material.opacity = 1.0;
+
+    // Each ring starts with a tiny radius
+    ring.scale.set(1, 1, 1);
+    ring.visible = true;
+
+    // Position at explosion center
+    ring.position.copy(this.position);
+
+    return ring;
+  }
+
+  private animate(): void {
+    // Runs on the game clock so the explosion freezes while paused,
+    // and is cleaned up if the mode exits before it finishes
+    this.scheduler.tween({
+      duration: this.duration,
+      onUpdate: (progress) => {
+        // Update rings (expand outward)
+        this.animateRings(progress);
+
+        // Update light intensity
+        this.light.intensity = 2.0 * (1.0 - progress);
+      },
+      onComplete: () => this.cleanup(),
+      onCancel: () => this.cleanup(),
+    });
+  }
+
+  private animateRings(progress: number): void {
+    // Update each ring's radius and opacity
+    for (let i = 0; i < this.rings.length; i++) {
+      const ring = this.rings[i];
+
+      // Calculate individual timing for each ring to create wave effect
+      // Stagger the rings by offsetting their timings
+      const ringDelay = i * (1.0 / this.numRings); // Delay between rings
+      const ringProgress = Math.max(
+        0,
+        Math.min(1, (progress - ringDelay) * 1.5)
+      ); // Adjusted progress for this ring
+
+      if (ringProgress <= 0) {
+        // Ring hasn't started expanding yet
+        ring.visible = false;
+        continue;
+      }
+
+      ring.visible = true;
+
+      // Calculate radius for this ring
+      const maxRadius = (this.explosionRadius * (i + 1)) / this.numRings;
+      const radius = maxRadius * ringProgress;
+
+      // Update ring scale rather than geometry (simpler for CircleGeometry)
+      this.updateRingSize(ring, radius);
+
+      // Fade out as rings expand
+      const material = ring.material as THREE.MeshBasicMaterial;
+      material.opacity = Math.max(0, 1.0 - ringProgress);
+    }
+  }
+
+  private updateRingSize(ring: THREE.Mesh, radius: number): void {
+    // For CircleGeometry, we scale the mesh rather than updating vertices
+    // Calculate required scale to achieve target radius
+    // Scale relative to the radius the shared geometry was built with
+    const targetScale = radius / explosionRingRadius;
+
+    // Update the mesh scale
+    ring.scale.set(targetScale, targetScale, 1);
+  }
+
+  private cleanup(): void {
+    // Hand the rings back; their geometry is shared, so nothing is disposed
+    for (const ring of this.rings) {
+      this.scene.remove(ring);
+      this.pools.explosionRings.release(ring);
+    }
+    this.rings = [];
+
+    // Remove light
+    this.scene.remove(this.light);
+    this.pools.explosionLights.release(this.light);
+  }
+}
@@ -7,18 +7,33 @@ import { GameMode } from "./gameMode/gameMode";
 import { MarqueeMode } from "./gameMode/marqueeMode";
 import { ActiveMode } from "./gameMode/activeMode";
 import { GameOverMode } from "./gameMode/gameOverMode";
+import { PauseMode } from "./gameMode/pauseMode";
+import { ReplayMode } from "./gameMode/replayMode";
+import { EditorMode } from "./gameMode/editorMode";
 import { SoundManager } from "./synth";
+import { FixedTimestep } from "./timestep";
+import { Random } from "./random";
+import { EventBus, GameEvents } from "./events";
+import { getLiveResourceCounts, isResourceCounterEnabled } from "./resources";
+import { updateResourceCounter } from "./ui";
 
 export class Game {
   // Game components
   private gameState: GameState;
+  private events: EventBus<GameEvents> = new EventBus();
   private sceneSetup: SceneSetup;
   private clock: THREE.Clock;
+  private timestep: FixedTimestep;
+  private showResourceCounter: boolean = isResourceCounterEnabled(); // Dev overlay for spotting GPU leaks
 
   // Game modes
   private currentMode: GameMode;
   private gameModes: Record<GameStatus, GameMode>;
 
+  // Mode that was interrupted by pausing, kept alive until the pause ends
+  private suspendedMode: GameMode | null = null;
+  private suspendedStatus: GameStatus | null = null;
+
   constructor() {
     // Initialize game state with only shared properties
     this.gameState = {
@@ -26,19 +41,19 @@ export class Game {
       currentLevel: 1,
       gameStatus: "marquee",
       lives: 3, // Start with three lives
+      seed: 0, // Chosen when a run starts
+      random: new Random(0),
+      lastReplay: null,
     };
 
     // Set up clock for timing
     this.clock = new THREE.Clock();
+    this.timestep = new FixedTimestep();
 
     // Set up scene and add renderer to DOM
     this.sceneSetup = setupScene();
     document.body.appendChild(this.sceneSetup.renderer.domElement);
 
-    // Store sceneSetup and gameState on window for access from UI component
-    (window as any).sceneSetup = this.sceneSetup;
-    (window as any).gameState = this.gameState;
-    
     // Initialize sound manager
     SoundManager.getInstance();
 
@@ -51,10 +66,16 @@ export class Game {
     // Handle window resize
     this.setupResizeHandler();
 
+    // Pause automatically when the player switches away
+    this.setupFocusHandlers();
+
     this.gameModes = {
-      marquee: new MarqueeMode(this.sceneSetup, this.gameState),
-      active: new ActiveMode(this.sceneSetup, this.gameState, this.clock),
-      gameOver: new GameOverMode(this.sceneSetup, this.gameState),
+      marquee: new MarqueeMode(this.sceneSetup, this.gameState, this.events),
+      active: new ActiveMode(this.sceneSetup, this.gameState, this.events),
+      gameOver: new GameOverMode(this.sceneSetup, this.gameState, this.events),
+      paused: new PauseMode(this.sceneSetup, this.gameState, this.events),
+      replay: new ReplayMode(this.sceneSetup, this.gameState, this.events),
+      editor: new EditorMode(this.sceneSetup, this.gameState, this.events),
     };
 
     // Set the current mode to the initial mode
@@ -135,6 +156,22 @@ export class Game {
     });
   }
 
+  private setupFocusHandlers(): void {
+    const pauseIfActive = () => {
+      if (this.gameState.gameStatus === "active") {
+        this.events.emit("gameStatusChanged", { status: "paused" });
+      }
+    };
+
+    window.addEventListener("blur", pauseIfActive);
+
+    document.addEventListener("visibilitychange", () => {
+      if (document.hidden) {
+        pauseIfActive();
+      }
+    });
+  }
+
   public start(): void {
     // Start the game loop
     this.gameLoop();
@@ -144,36 +181,73 @@ export class Game {
     // Request next frame
     requestAnimationFrame(this.gameLoop);
 
-    // Get time delta
-    const delta = this.clock.getDelta();
+    // Get real time elapsed since the last frame
+    const frameDelta = this.clock.getDelta();
+
+    // Step the current mode in fixed ticks so gameplay speed doesn't depend on refresh rate
+    const alpha = this.timestep.advance(frameDelta, (delta) =>
+      this.currentMode.update(delta)
+    );
 
-    // Update current mode
-    this.currentMode.update(delta);
+    // Draw the current mode, blending between the last two ticks
+    this.currentMode.render(alpha);
+
+    if (this.showResourceCounter) {
+      updateResourceCounter(
+        getLiveResourceCounts(),
+        this.sceneSetup.renderer.info
+      );
+    }
   };
 
   // Set up game status event handlers
   private setupGameStatusHandlers(): void {
     // Listen for game status change events
-    document.addEventListener("gameStatusChanged", (event: Event) => {
-      const customEvent = event as CustomEvent;
-      const newStatus = customEvent.detail?.status as GameStatus;
-
-      if (newStatus && newStatus !== this.gameState.gameStatus) {
-        this.changeGameMode(newStatus);
+    this.events.on("gameStatusChanged", ({ status }) => {
+      if (status !== this.gameState.gameStatus) {
+        this.changeGameMode(status);
       }
     });
   }
 
   // Handle changes to game mode
   private changeGameMode(newStatus: GameStatus): void {
-    // Exit the current mode
-    this.currentMode.exit();
+    if (newStatus === "paused") {
+      // Freeze the current mode in place rather than exiting it
+      this.currentMode.suspend?.();
+      this.suspendedMode = this.currentMode;
+      this.suspendedStatus = this.gameState.gameStatus;
+    } else {
+      // Exit the current mode
+      this.currentMode.exit();
+    }
 
     // Update game state
     this.gameState.gameStatus = newStatus;
 
+    if (this.suspendedMode && newStatus !== "paused") {
+      const suspendedMode = this.suspendedMode;
+      const resuming = newStatus === this.suspendedStatus;
+      this.suspendedMode = null;
+      this.suspendedStatus = null;
+
+      if (resuming) {
+        // Pick up the interrupted mode exactly where it stopped
+        this.currentMode = suspendedMode;
+        this.currentMode.resume?.();
+        this.timestep.reset();
+        return;
+      }
+
+      // Leaving pause for somewhere else, so the interrupted mode is done
+      suspendedMode.exit();
+    }
+
     // Set and enter the new mode
     this.currentMode = this.gameModes[newStatus];
     this.currentMode.enter();
+
+    // Start the new mode on a clean tick boundary
+    this.timestep.reset();
   }
 }
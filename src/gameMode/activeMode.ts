@@ -1,83 +1,71 @@
-import * as THREE from "three";
-import { GameState, ActiveModeState, Bullet } from "../types";
+import { GameState, GameStatus } from "../types";
 import { GameMode } from "./gameMode";
 import { SceneSetup } from "../scene";
-import { EnemyManager } from "../enemies";
-import { Enemy } from "../enemy";
-import { updateScore, updateLives, updateCountdownTimer } from "../ui";
-import { createPlayer, animatePlayer } from "../player";
-import { BloodMoon } from "../bloodMoon";
-import { Level, LevelType } from "../levels";
+import { getEnemyDefinition } from "../sim/enemyDefinitions";
+import {
+  updateScore,
+  updateLives,
+  updateCountdownTimer,
+  updateObjective,
+} from "../ui";
 import { SoundManager } from "../synth";
-
-const maxLevelTime = 60;
-
+import { RenderInterpolator } from "../timestep";
+import { Scheduler } from "../scheduler";
+import { Random, getSeedFromUrl } from "../random";
+import { InputAction, ReplayPlayer, ReplayRecorder } from "../replay";
+import { Simulation } from "../sim/simulation";
+import { Level } from "../sim/levels";
+import { LevelDefinition } from "../sim/levelDefinitions";
+import { Bullet } from "../sim/types";
+import { EventBus, GameEvents } from "../events";
+import { GameView } from "../gameView";
+
+/**
+ * Plays a run of the simulation: feeds it the player's (or a replay's)
+ * input each tick, draws it through a GameView and keeps the HUD and
+ * audio in step with what it reports.
+ */
 export class ActiveMode implements GameMode {
   private sceneSetup: SceneSetup;
   private gameState: GameState;
-  private player: THREE.Group;
-  private enemyManager: EnemyManager;
-  private clock: THREE.Clock;
-  private nextEnemyTime: number = 0;
-  private level!: Level;
-  private levelRadius: number = 10;
-  private bloodMoon: BloodMoon;
-  private transitionInProgress: boolean = false;
-  private keys = {
-    left: false,
-    right: false,
-  };
-  private isMouseDown: boolean = false;
-  private shootingInterval: number | null = null;
-  private keyMovementInterval: number | null = null;
-  private piLevelRotationDirection: number = 1; // 1 for clockwise, -1 for counter-clockwise
-  private nextDirectionChangeTime: number = 0;
+  private events: EventBus<GameEvents>;
+  private simulation: Simulation;
+  private view: GameView;
+  private interpolator: RenderInterpolator = new RenderInterpolator();
+  private scheduler: Scheduler = new Scheduler(); // Cosmetic effects and messages, frozen while paused
+  private pendingActions: InputAction[] = []; // Live input waiting for the next tick
+  private recorder: ReplayRecorder | null = null; // Records live runs so they can be replayed
+  private replay: ReplayPlayer | null = null; // Set when a replay drives the mode instead of the player
+  private replayEnded: boolean = false;
   private countdownSound: any = null; // Reference to countdown beeping sound
   private countdownActive: boolean = false; // Flag to track if countdown is active
 
-  // Active mode specific state
-  private modeState: ActiveModeState = {
-    playerSize: 0.5,
-    playerAngle: 0,
-    enemySpeed: 0.03,
-    enemies: [],
-    bullets: [],
-    enemyBullets: [],
-    explosions: [], // Track active explosions
-    ghostMode: false,
-    spawnEnemies: true, // Enemies spawn by default
-  };
-
   constructor(
     sceneSetup: SceneSetup,
     gameState: GameState,
-    clock: THREE.Clock
+    events: EventBus<GameEvents>
   ) {
     this.sceneSetup = sceneSetup;
     this.gameState = gameState;
-    this.clock = clock;
+    this.events = events;
 
-    this.player = createPlayer(this.modeState.playerSize, this.levelRadius);
+    this.simulation = new Simulation(this.gameState, this.events);
 
-    // Create the blood moon but don't add it to the scene yet
-    this.bloodMoon = new BloodMoon(this.sceneSetup.scene);
-
-    this.enemyManager = new EnemyManager(
+    // The view subscribes first so sounds and messages react to an up-to-date scene
+    this.view = new GameView(
       this.sceneSetup.scene,
-      this.gameState,
-      this.modeState
+      this.sceneSetup.camera,
+      this.scheduler,
+      this.simulation
     );
+    this.subscribe();
   }
 
-  public getPlayer(): THREE.Group {
-    return this.player;
-  }
-  
   // Show UI elements when entering active mode
   private showUIElements(): void {
     // Show score, lives, level, and timer displays
-    const elementsToShow = ['score', 'lives', 'level', 'countdown-timer'];
-    
+    const elementsToShow = ['score', 'lives', 'level', 'countdown-timer', 'objective'];
+
     elementsToShow.forEach(id => {
       const element = document.getElementById(id);
       if (element) {
@@ -87,79 +75,72 @@ export class ActiveMode implements GameMode {
   }
 
   public enter(): void {
-    this.level = new Level(this.gameState.currentLevel, this.levelRadius);
-    this.sceneSetup.scene.add(this.level.getGroup());
-
-    // Ensure player is in the scene
-    this.sceneSetup.scene.add(this.player);
+    // Drop effects left over from the previous run before anything new is scheduled
+    this.interpolator.clear();
+    this.scheduler.clear();
+
+    this.pendingActions = [];
+    this.replayEnded = false;
+
+    let seed: number;
+    if (this.replay) {
+      // Recreate the exact conditions the recorded run started from
+      seed = this.replay.data.seed;
+      this.simulation.applyStartState(this.replay.data.start);
+      this.recorder = null;
+    } else {
+      // Seed this run's gameplay randomness; ?seed= in the URL pins it for reproducing a game
+      seed = getSeedFromUrl() ?? Random.createSeed();
+      this.recorder = new ReplayRecorder(
+        seed,
+        this.simulation.getStartState()
+      );
+    }
 
-    // Configure the blood moon with the current level's radius
-    this.bloodMoon.setLevelRadius(this.levelRadius);
-    this.bloodMoon.enter();
+    this.view.enter();
 
     // Show all UI elements that might have been hidden in the marquee mode
     this.showUIElements();
 
-    // Immediately start the blood moon growing (this will be invisible at first)
-    this.bloodMoon.startGrowing(maxLevelTime);
-
-    // Show the initial countdown time of levelTime seconds
-    updateCountdownTimer(maxLevelTime);
-
-    // Initialize or update the lives display
-    updateLives(this.gameState);
-    
-    // Update the score display
-    updateScore(this.gameState);
-
-    // Start background music
-    SoundManager.getInstance().startBackgroundMusic();
+    this.simulation.start(seed);
 
     // Display level start messages only on the first level
     if (this.gameState.currentLevel === 1) {
       this.showLevelStartText();
     }
-    
-    // Reset rotation direction change timer for Pi symbol level
-    this.piLevelRotationDirection = Math.random() < 0.5 ? 1 : -1; // Random initial direction
-    this.nextDirectionChangeTime =
-      this.clock.getElapsedTime() + 5 + Math.random() * 5; // Change direction after 5-10 seconds
 
-    // Reset enemy spawn timer to start spawning enemies
-    this.nextEnemyTime = this.clock.getElapsedTime();
+    this.view.sync(0);
+  }
 
-    // Reset enemy spawning to random (not forced) when starting
-    this.modeState.forcedEnemyType = undefined;
+  public update(delta: number): void {
+    // Remember where everything was so rendering can blend toward this tick's result
+    this.interpolator.capture(this.view.getInterpolatedObjects());
 
-    // Set up player movement based on keys
-    this.keyMovementInterval = window.setInterval(() => {
-      const moveSpeed = 0.1;
+    // Apply this tick's player (or recorded) input
+    const tick = this.simulation.getTick() + 1;
+    const actions = this.replay
+      ? this.replay.getInputs(tick)
+      : this.pendingActions;
+    this.pendingActions = [];
 
-      if (this.keys.left) {
-        this.modeState.playerAngle -= moveSpeed;
-        this.normalizePlayerAngle();
-      }
-      if (this.keys.right) {
-        this.modeState.playerAngle += moveSpeed;
-        this.normalizePlayerAngle();
-      }
-    }, 16); // ~60fps
+    if (this.recorder) {
+      this.recorder.recordInputs(tick, actions);
+    }
 
-    // Reset player position
-    const playerPosition = this.getPositionOnLevelOutline(
-      this.modeState.playerAngle
-    );
-    this.player.position.set(playerPosition.x, playerPosition.y, 0);
-    this.player.lookAt(0, 0, 0);
-  }
+    this.simulation.step(delta, actions);
 
-  public update(delta: number): void {
-    const elapsedTime = this.clock.getElapsedTime();
+    // The run may have ended, and the mode exited, during the tick
+    if (this.simulation.isOver()) return;
+
+    this.scheduler.update(delta);
+    this.view.sync(delta);
+
+    updateObjective(this.simulation.getObjectiveProgress());
 
     // Get remaining time and update the countdown timer
-    if (!this.transitionInProgress) {
-      const remainingSeconds = this.bloodMoon.getRemainingTime();
-      updateCountdownTimer(remainingSeconds);
+    if (!this.simulation.isTransitionInProgress()) {
+      const remainingSeconds = this.simulation.getRemainingTime();
+      updateCountdownTimer(remainingSeconds, this.scheduler.now());
 
       // Update music tempo based on remaining time
       SoundManager.getInstance().updateMusicWithTimer(remainingSeconds);
@@ -173,157 +154,27 @@ export class ActiveMode implements GameMode {
         this.countdownActive = true;
         this.countdownSound = SoundManager.getInstance().playCountdown();
       }
-
-      // Check if time has run out
-      if (this.bloodMoon.isFullyGrown()) {
-        // Force game over if time is completely out, regardless of ghost mode status
-        this.handleBloodMoonReachedBoundary();
-        return;
-      }
-    }
-
-    // Rotate certain level types
-    if (this.level.levelType === LevelType.Spiral) {
-      // Rotate Spiral level at a constant speed
-      const rotationSpeed = 0.005; // radians per frame
-      this.level.rotateLevel(rotationSpeed * delta * 30);
-    } else if (this.level.levelType === LevelType.PiSymbol) {
-      // Rotate Pi level with direction changes
-      const rotationSpeed = 0.007; // slightly faster than spiral level
-
-      // Check if it's time to change rotation direction
-      const currentTime = this.clock.getElapsedTime();
-      if (currentTime >= this.nextDirectionChangeTime) {
-        // Change direction
-        this.piLevelRotationDirection *= -1;
-
-        // Schedule next direction change (between 5 and 10 seconds from now)
-        this.nextDirectionChangeTime = currentTime + 5 + Math.random() * 5;
-      }
-
-      // Apply rotation with current direction
-      this.level.rotateLevel(
-        this.piLevelRotationDirection * rotationSpeed * delta * 30
-      );
-    } else if (this.level.levelType === LevelType.Wave) {
-      // Rotate Wave level at a constant speed in the opposite direction
-      const rotationSpeed = 0.005; // radians per frame
-      this.level.rotateLevel(-1 * rotationSpeed * delta * 30);
-    }
-
-    // Create new enemies periodically if enemy spawning is enabled
-    if (
-      this.modeState.spawnEnemies &&
-      elapsedTime >= this.nextEnemyTime &&
-      !this.transitionInProgress
-    ) {
-      this.enemyManager.createEnemy(this.level);
-
-      const nextTime =
-        0.5 + 0.5 * (this.bloodMoon.getRemainingTime() / maxLevelTime);
-      this.nextEnemyTime = elapsedTime + 0.5 + Math.random() * nextTime;
-    }
-
-    // Update enemies
-    this.enemyManager.update(delta, this.level);
-
-    // Update player bullets
-    this.updateBullets(delta);
-
-    // Update enemy bullets
-    this.updateEnemyBullets(delta);
-
-    // Check for enemy-bullet collisions
-    this.checkBulletCollisions();
-
-    // Only check for collisions if the player is vulnerable
-    if (!this.modeState.ghostMode && !this.transitionInProgress) {
-      let playerHit = false;
-
-      // Check each type of collision separately, but only process the first hit
-      if (this.enemyManager.checkPlayerCollision(this.player)) {
-        playerHit = true;
-      } else if (this.checkPlayerHitByEnemyBullets()) {
-        playerHit = true;
-      } else if (this.checkPlayerHitByExplosion()) {
-        playerHit = true;
-      }
-
-      // If player was hit, handle the collision
-      if (playerHit) {
-        // Stop sound effects but keep music playing
-        SoundManager.getInstance().stopSoundEffects();
-
-        // Decrement lives when player is hit
-        this.gameState.lives--;
-
-        // Update lives UI
-        updateLives(this.gameState);
-
-        if (this.gameState.lives <= 0) {
-          // Game over if no lives left
-          document.dispatchEvent(
-            new CustomEvent("gameStatusChanged", {
-              detail: { status: "gameOver" },
-            })
-          );
-          return;
-        } else {
-          // Respawn player with temporary invulnerability
-          this.respawnPlayer();
-          return;
-        }
-      }
     }
+  }
 
-    // Animate player
-    animatePlayer(this.player);
-
-    // Update player position based on current angle and level type
-    const playerPosition = this.getPositionOnLevelOutline(
-      this.modeState.playerAngle
-    );
-    this.player.position.set(playerPosition.x, playerPosition.y, 0);
-
-    // Store current player position in modeState for enemy targeting
-    this.modeState.playerPosition = {
-      x: playerPosition.x,
-      y: playerPosition.y,
-    };
-
-    // Point player toward center
-    this.player.lookAt(0, 0, 0);
+  public render(alpha: number): void {
+    // Draw moving objects part way between the previous and current tick
+    this.interpolator.apply(alpha);
 
     // Render the scene
     this.sceneSetup.renderer.render(
       this.sceneSetup.scene,
       this.sceneSetup.camera
     );
+
+    this.interpolator.restore();
   }
 
   public exit(): void {
-    // Clean up player if it exists
-    this.sceneSetup.scene.remove(this.player);
-
-    // Remove all enemies
-    this.destroyAllEnemies();
+    // Clear out enemies, bullets and gameplay timers
+    this.simulation.stop();
 
-    // Remove all player bullets
-    for (const bullet of this.modeState.bullets) {
-      this.sceneSetup.scene.remove(bullet.mesh);
-    }
-    this.modeState.bullets = [];
-
-    // Remove all enemy bullets
-    for (const bullet of this.modeState.enemyBullets) {
-      this.sceneSetup.scene.remove(bullet.mesh);
-    }
-    this.modeState.enemyBullets = [];
-
-    // Remove level if it exists
-    this.sceneSetup.scene.remove(this.level.getGroup());
-
-    this.bloodMoon.exit();
+    this.view.exit();
 
     // Stop the countdown sound if active
     this.stopCountdown();
@@ -331,67 +182,131 @@ export class ActiveMode implements GameMode {
     // Stop background music
     SoundManager.getInstance().stopBackgroundMusic();
 
-    // Cancel any ongoing intervals
-    if (this.keyMovementInterval) {
-      clearInterval(this.keyMovementInterval);
-      this.keyMovementInterval = null;
-    }
+    // Release the audio if we were quit from the pause screen
+    SoundManager.getInstance().resumeAllSounds();
 
-    // Cancel any ongoing shooting interval
-    if (this.shootingInterval) {
-      clearInterval(this.shootingInterval);
-      this.shootingInterval = null;
+    this.interpolator.clear();
+
+    // Drop pending effects so nothing fires into the next mode,
+    // and clear any on-screen messages they would have removed
+    this.scheduler.clear();
+    this.removeTransientMessages();
+
+    // Keep the finished run so it can be watched or saved from the game over screen
+    if (this.recorder) {
+      this.gameState.lastReplay = this.recorder.finish(
+        this.simulation.getTick()
+      );
+      this.recorder = null;
     }
   }
 
-  // Stop the countdown beeping
-  private stopCountdown(): void {
-    if (this.countdownActive && this.countdownSound) {
-      this.countdownSound.stop();
-      this.countdownSound = null;
-      this.countdownActive = false;
+  /**
+   * Freeze the game underneath the pause overlay
+   */
+  public suspend(): void {
+    // Held inputs would otherwise stay stuck if released while paused;
+    // queue the releases so they land on a tick and are recorded
+    this.queueAction({ type: "move", direction: "left", pressed: false });
+    this.queueAction({ type: "move", direction: "right", pressed: false });
+    this.queueAction({ type: "fire", pressed: false });
+
+    if (this.countdownSound) {
+      this.countdownSound.pause();
     }
+    SoundManager.getInstance().pauseAllSounds();
   }
 
-  public shoot(): void {
-    // Don't shoot if in transition or player doesn't exist
-    if (this.transitionInProgress) return;
-
-    // Play shooting sound
-    SoundManager.getInstance().playLaser();
+  /**
+   * Continue the game exactly where it was suspended
+   */
+  public resume(): void {
+    if (this.countdownSound) {
+      this.countdownSound.resume();
+    }
+    SoundManager.getInstance().resumeAllSounds();
+  }
 
-    // Create a bullet
-    const bulletGeometry = new THREE.SphereGeometry(0.2, 8, 8);
-    const bulletMaterial = new THREE.MeshBasicMaterial({ color: 0x00ffff });
-    const bullet = new THREE.Mesh(bulletGeometry, bulletMaterial);
+  /**
+   * Drive the mode from a recorded run instead of the player.
+   * Call before enter(); pass null to return to live play.
+   */
+  public playReplay(replay: ReplayPlayer | null): void {
+    this.replay = replay;
+  }
 
-    // Position the bullet at the player's position
-    const playerAngle = this.modeState.playerAngle;
-    const bulletSpeed = 0.3;
+  /**
+   * Play a level that isn't one of the authored ones, e.g. from the editor.
+   * Call before enter(); pass null to return to the authored levels.
+   */
+  public playCustomLevel(definition: LevelDefinition | null): void {
+    this.simulation.playCustomLevel(definition);
+  }
 
-    // Get player position on level outline
-    const playerPosition = this.getPositionOnLevelOutline(playerAngle);
+  public getTick(): number {
+    return this.simulation.getTick();
+  }
 
-    // Set initial bullet position at player's location
-    bullet.position.x = playerPosition.x;
-    bullet.position.y = playerPosition.y;
+  // True once a replayed run has reached its game over
+  public hasReplayEnded(): boolean {
+    return this.replayEnded;
+  }
 
-    // Calculate direction vector (pointing inward)
-    const directionX = -Math.cos(playerAngle);
-    const directionY = -Math.sin(playerAngle);
+  // Keep the HUD and audio in step with the simulation
+  private subscribe(): void {
+    const events = this.events;
 
-    this.sceneSetup.scene.add(bullet);
-    this.modeState.bullets.push({
-      mesh: bullet,
-      direction: new THREE.Vector2(directionX, directionY),
-      speed: bulletSpeed,
+    events.on("levelStarted", ({ level }) => this.startLevel(level));
+    events.on("levelCompleted", () => this.completeLevel());
+    events.on("scoreChanged", () =>
+      updateScore(this.gameState, this.scheduler)
+    );
+    events.on("livesChanged", () =>
+      updateLives(this.gameState, this.scheduler)
+    );
+    events.on("enemyKilled", () => SoundManager.getInstance().playExplosion());
+    events.on("spikeShot", () => SoundManager.getInstance().playExplosion());
+    events.on("explosionStarted", () =>
+      SoundManager.getInstance().playExplosion()
+    );
+    events.on("bulletFired", ({ bullet }) => this.playShotSound(bullet));
+    events.on("playerHit", () => {
+      // Stop sound effects but keep music playing
+      SoundManager.getInstance().stopSoundEffects();
     });
+    events.on("playerDied", () => SoundManager.getInstance().playBigExplosion());
+    events.on("warpStarted", ({ duration }) => this.playFlightSound(duration));
+    events.on("warpCompleted", ({ bonus }) => this.showWarpBonusText(bonus));
+    events.on("ghostModeChanged", ({ active }) => {
+      // Update the UI display to show ghost mode status
+      this.updateGhostModeDisplay(active);
+    });
+    events.on("debugOptionsChanged", () =>
+      this.updateGhostModeDisplay(this.simulation.state.ghostMode)
+    );
+    events.on("bloodMoonConsumed", () => this.showBloodMoonConsumed());
+    events.on("gameOver", () => this.changeStatus("gameOver"));
   }
 
-  public async levelUp(): Promise<void> {
-    if (this.transitionInProgress) return;
-    this.transitionInProgress = true;
+  private startLevel(level: Level): void {
+    // Mark where the level begins so replays can skip straight to it
+    if (this.recorder) {
+      this.recorder.recordLevelStart(
+        this.simulation.getTick(),
+        level.levelNumber
+      );
+    }
+
+    // Show the full countdown for the new level
+    updateCountdownTimer(level.definition.timeLimit, this.scheduler.now());
+
+    // Start background music for the level, in the level's key
+    const { key, scale } = level.definition.music;
+    SoundManager.getInstance().setMusicStyle(key, scale);
+    SoundManager.getInstance().startBackgroundMusic();
+  }
 
+  private completeLevel(): void {
     // Stop countdown beeping if active
     this.stopCountdown();
 
@@ -400,100 +315,114 @@ export class ActiveMode implements GameMode {
 
     // Show level completed text
     this.showLevelCompletedText();
+  }
 
-    // Wait a moment for user to read the text
-    await this.delay(1000);
-
-    // Destroy all enemies
-    this.destroyAllEnemies();
-
-    // 1. EXPAND THE BLOOD MOON TO FILL THE LEVEL
-
-    // Expand the Blood Moon to fill the level
-    this.bloodMoon.startGrowing(1.5);
-
-    // Wait 1.5s, and then wait briefly at maximum size for dramatic effect
-    await this.delay(2000);
-
-    // 2. SHRINK THE MOON WHILE FLYING THE PLAYER TO CENTER
-
-    // Start the Blood Moon collapsing animation
-    this.bloodMoon.startShrinking(2);
-
-    // Simultaneously fly the player to the center
-    await this.flyPlayerToBloodMoon();
-
-    // Wait briefly for dramatic effect after collapse
-    await this.delay(300);
-
-    // 3. CREATE NEW LEVEL AND RESET EVERYTHING
+  private playShotSound(bullet: Bullet): void {
+    if (bullet.isBomb) {
+      // A distinctive sound for bomb firing
+      SoundManager.getInstance().playBigExplosion();
+    } else if (bullet.fromEnemy) {
+      // A subtle sound for enemy fire
+      SoundManager.getInstance().playEnemyLaser();
+    } else {
+      SoundManager.getInstance().playLaser();
+    }
+  }
 
-    // Increment level
-    this.gameState.currentLevel++;
+  private playFlightSound(duration: number): void {
+    // Play ship flying sound until the flight ends or the mode exits mid-flight
+    const flyingSound = SoundManager.getInstance().playShipFlying();
+    const stopFlyingSound = () => flyingSound.stop();
+    this.scheduler.after(duration, stopFlyingSound, stopFlyingSound);
+  }
 
-    // Remove old level
-    this.sceneSetup.scene.remove(this.level.getGroup());
+  // Handle when the blood moon reaches the level boundary
+  private showBloodMoonConsumed(): void {
+    // Stop sound effects but keep music playing until game over
+    SoundManager.getInstance().stopSoundEffects();
 
-    // Create new level
-    this.level = new Level(this.gameState.currentLevel, this.levelRadius);
-    this.sceneSetup.scene.add(this.level.getGroup());
+    // Make sure countdown is explicitly stopped
+    this.stopCountdown();
 
-    // Reset enemy spawning to random
-    this.modeState.forcedEnemyType = undefined;
-    this.updateForcedEnemyTypeDisplay();
+    // Show a warning message
+    const warningMessage = document.createElement("div");
+    warningMessage.id = "blood-moon-warning";
+    warningMessage.style.position = "absolute";
+    warningMessage.style.top = "30%";
+    warningMessage.style.left = "50%";
+    warningMessage.style.transform = "translate(-50%, -50%)";
+    warningMessage.style.color = "#FFFFFF"; // White text for better visibility
+    warningMessage.style.fontFamily = "Arial, sans-serif";
+    warningMessage.style.fontSize = "48px";
+    warningMessage.style.fontWeight = "bold";
+    warningMessage.style.textAlign = "center";
+    warningMessage.style.textShadow = "0 0 15px #FF0000, 0 0 25px #FF0000"; // Stronger glow
+    warningMessage.style.background = "rgba(139, 0, 0, 0.5)"; // Semi-transparent dark red background
+    warningMessage.style.padding = "20px 30px";
+    warningMessage.style.borderRadius = "10px";
+    warningMessage.style.border = "2px solid #FF0000";
+    warningMessage.style.boxShadow = "0 0 30px rgba(255, 0, 0, 0.8)"; // Red outer glow
+    warningMessage.style.letterSpacing = "2px"; // Spread out text for readability
+    warningMessage.innerHTML = "THE BLOOD MOON HAS CONSUMED YOU";
+    document.body.appendChild(warningMessage);
 
-    // Reset rotation direction change timer for Pi symbol level
-    this.piLevelRotationDirection = Math.random() < 0.5 ? 1 : -1; // Random initial direction
-    this.nextDirectionChangeTime =
-      this.clock.getElapsedTime() + 5 + Math.random() * 5; // Change after 5-10 seconds
+    // Play blood moon sound effect
+    SoundManager.getInstance().playBloodMoonActivation();
+  }
 
-    // Reset player position to level outline
-    const playerPosition = this.getPositionOnLevelOutline(
-      this.modeState.playerAngle
-    );
-    this.player.position.set(playerPosition.x, playerPosition.y, 0);
-    this.player.lookAt(0, 0, 0);
+  // Live input is queued and applied at the start of the next tick
+  private queueAction(action: InputAction): void {
+    if (this.replay) return;
 
-    this.bloodMoon.setLevelRadius(this.levelRadius);
+    // Only the latest aim per tick matters, so don't let mouse moves pile up
+    const last = this.pendingActions[this.pendingActions.length - 1];
+    if (action.type === "aim" && last && last.type === "aim") {
+      this.pendingActions[this.pendingActions.length - 1] = action;
+      return;
+    }
 
-    // Start the Blood Moon growing for the new level
-    this.bloodMoon.startGrowing(maxLevelTime);
+    this.pendingActions.push(action);
+  }
 
-    // Reset the countdown timer for the new level
-    updateCountdownTimer(maxLevelTime);
+  // Record and announce a mode change; a replay just notes that it has finished
+  private changeStatus(status: GameStatus): void {
+    if (this.recorder) {
+      this.recorder.recordTransition(this.simulation.getTick(), status);
+    }
 
-    // Start background music for the new level
-    SoundManager.getInstance().startBackgroundMusic();
+    if (this.replay) {
+      if (status === "gameOver") {
+        this.replayEnded = true;
+      }
+      return;
+    }
 
-    // Resume normal gameplay
-    this.transitionInProgress = false;
+    this.events.emit("gameStatusChanged", { status });
   }
 
-  public toggleGhostMode(): void {
-    if (this.transitionInProgress) return;
+  // Remove level messages whose scheduled removal was cancelled
+  private removeTransientMessages(): void {
+    const messageIds = [
+      "level-completed-text",
+      "dark-moon-text",
+      "hurry-text",
+      "blood-moon-warning",
+    ];
 
-    this.modeState.ghostMode = !this.modeState.ghostMode;
-
-    // Update the UI display to show ghost mode status
-    this.updateGhostModeDisplay(this.modeState.ghostMode);
+    messageIds.forEach((id) => {
+      const element = document.getElementById(id);
+      if (element && element.parentNode) {
+        element.parentNode.removeChild(element);
+      }
+    });
+  }
 
-    // Visual feedback for ghost mode
-    if (this.modeState.ghostMode) {
-      // Make player semi-transparent when ghost mode is active
-      this.player.traverse((object) => {
-        if (object instanceof THREE.Mesh) {
-          object.material.opacity = 0.5;
-          object.material.transparent = true;
-        }
-      });
-    } else {
-      // Restore player opacity when ghost mode is deactivated
-      this.player.traverse((object) => {
-        if (object instanceof THREE.Mesh) {
-          object.material.opacity = 1.0;
-          object.material.transparent = false;
-        }
-      });
+  // Stop the countdown beeping
+  private stopCountdown(): void {
+    if (this.countdownActive && this.countdownSound) {
+      this.countdownSound.stop();
+      this.countdownSound = null;
+      this.countdownActive = false;
     }
   }
 
@@ -523,13 +452,25 @@ export class ActiveMode implements GameMode {
     }
 
     // Add enemy spawning status
-    if (!this.modeState.spawnEnemies) {
+    if (!this.simulation.state.spawnEnemies) {
       if (statusText) statusText += "<br>";
       statusText += "ENEMY SPAWNING: DISABLED";
     }
 
+    // Add level rotation riding status
+    if (this.simulation.state.rideLevelRotation) {
+      if (statusText) statusText += "<br>";
+      statusText += "RIDING LEVEL ROTATION";
+    }
+
+    // Add lane mode status
+    if (this.simulation.state.laneMode) {
+      if (statusText) statusText += "<br>";
+      statusText += "LANE MODE";
+    }
+
     // Only display if we have something to show or if forced enemy type is set
-    if (statusText || this.modeState.forcedEnemyType !== undefined) {
+    if (statusText || this.simulation.state.forcedEnemyType !== undefined) {
       statusElement.innerHTML = statusText;
       statusElement.style.display = "block";
     } else {
@@ -540,16 +481,6 @@ export class ActiveMode implements GameMode {
     this.updateForcedEnemyTypeDisplay();
   }
 
-  // Toggle enemy spawning on/off
-  public toggleEnemySpawning(): void {
-    if (this.transitionInProgress) return;
-
-    this.modeState.spawnEnemies = !this.modeState.spawnEnemies;
-
-    // Update the status display
-    this.updateGhostModeDisplay(this.modeState.ghostMode);
-  }
-
   private updateForcedEnemyTypeDisplay(): void {
     // Get existing status display
     let statusElement = document.getElementById("game-status");
@@ -568,15 +499,15 @@ export class ActiveMode implements GameMode {
       document.body.appendChild(statusElement);
     }
 
-    if (this.modeState.forcedEnemyType !== undefined) {
+    if (this.simulation.state.forcedEnemyType !== undefined) {
       // Get current status text and append enemy type info
       let statusText = statusElement.innerHTML;
 
       // Add enemy type info
       if (statusText) statusText += "<br>";
-      statusText += `SPAWNING ENEMY TYPE: ${Enemy.name(
-        this.modeState.forcedEnemyType
-      )}`;
+      statusText += `SPAWNING ENEMY TYPE: ${
+        getEnemyDefinition(this.simulation.state.forcedEnemyType).name
+      }`;
 
       // Update display
       statusElement.innerHTML = statusText;
@@ -584,283 +515,6 @@ export class ActiveMode implements GameMode {
     }
   }
 
-  // Cycle to the next enemy type (0-9) or start from 0
-  private cycleEnemyType(): void {
-    if (this.modeState.forcedEnemyType === undefined) {
-      this.modeState.forcedEnemyType = 0;
-    } else {
-      this.modeState.forcedEnemyType =
-        (this.modeState.forcedEnemyType + 1) % 10;
-    }
-
-    // Update the UI to show which enemy type is being forced
-    this.updateForcedEnemyTypeDisplay();
-  }
-
-  // Reset to random enemy spawning
-  private resetEnemySpawning(): void {
-    this.modeState.forcedEnemyType = undefined;
-
-    // Update the UI
-    this.updateForcedEnemyTypeDisplay();
-  }
-
-  // The getLevelType method is no longer needed as we use the LevelType enum directly
-
-  private getPositionOnLevelOutline(angle: number): { x: number; y: number } {
-    let x: number, y: number;
-
-    switch (this.level.levelType) {
-      case LevelType.Circle:
-      case LevelType.Spiral:
-      case LevelType.PiSymbol:
-        // Simple circle
-        x = Math.cos(angle) * this.levelRadius;
-        y = Math.sin(angle) * this.levelRadius;
-        break;
-
-      case LevelType.Star:
-        // Star level - calculate radius based on angle
-        const starPoints = 3 + (this.gameState.currentLevel % 5);
-        // Calculate how many vertices the star has (points * 2 for both inner and outer points)
-        const totalVertices = starPoints * 2;
-        // Calculate angle per vertex
-        const anglePerVertex = (Math.PI * 2) / totalVertices;
-        // Calculate which section of the star we're in
-        const sectionIndex = Math.floor(angle / anglePerVertex);
-        // Calculate progress within this section (0 to 1)
-        const sectionProgress = (angle % anglePerVertex) / anglePerVertex;
-
-        // Get the angles of the two vertices we're between
-        const startVertexAngle = sectionIndex * anglePerVertex;
-        const endVertexAngle = (sectionIndex + 1) * anglePerVertex;
-
-        // Get the radii of these vertices (alternating between outer and inner)
-        const startRadius =
-          sectionIndex % 2 === 0 ? this.levelRadius : this.levelRadius * 0.6;
-        const endRadius =
-          sectionIndex % 2 === 0 ? this.levelRadius * 0.6 : this.levelRadius;
-
-        // Calculate start and end positions
-        const startX = Math.cos(startVertexAngle) * startRadius;
-        const startY = Math.sin(startVertexAngle) * startRadius;
-        const endX = Math.cos(endVertexAngle) * endRadius;
-        const endY = Math.sin(endVertexAngle) * endRadius;
-
-        // Linearly interpolate between start and end positions
-        x = startX + (endX - startX) * sectionProgress;
-        y = startY + (endY - startY) * sectionProgress;
-        break;
-
-      case LevelType.Wave:
-        // Wave level - adjust radius based on sine wave
-        const amplitude = this.levelRadius * 0.05;
-        const waveRadius =
-          this.levelRadius + Math.sin(angle * 3.14) * amplitude;
-
-        x = Math.cos(angle) * waveRadius;
-        y = Math.sin(angle) * waveRadius;
-        break;
-
-      default:
-        // Default to circle
-        x = Math.cos(angle) * this.levelRadius;
-        y = Math.sin(angle) * this.levelRadius;
-        break;
-    }
-
-    return { x, y };
-  }
-
-  private updateBullets(delta: number): void {
-    for (let i = this.modeState.bullets.length - 1; i >= 0; i--) {
-      const bullet = this.modeState.bullets[i];
-
-      // Move bullet
-      bullet.mesh.position.x += bullet.direction.x * bullet.speed;
-      bullet.mesh.position.y += bullet.direction.y * bullet.speed;
-
-      // Remove bullets that are too close to center or out of bounds
-      const distanceFromCenter = Math.sqrt(
-        bullet.mesh.position.x * bullet.mesh.position.x +
-          bullet.mesh.position.y * bullet.mesh.position.y
-      );
-
-      if (distanceFromCenter < 1 || distanceFromCenter > this.levelRadius + 5) {
-        this.sceneSetup.scene.remove(bullet.mesh);
-        this.modeState.bullets.splice(i, 1);
-      }
-    }
-  }
-
-  // Update enemy bullets
-  private updateEnemyBullets(delta: number): void {
-    for (let i = this.modeState.enemyBullets.length - 1; i >= 0; i--) {
-      const bullet = this.modeState.enemyBullets[i];
-
-      // Move bullet
-      bullet.mesh.position.x += bullet.direction.x * bullet.speed;
-      bullet.mesh.position.y += bullet.direction.y * bullet.speed;
-
-      // Calculate distance from center
-      const distanceFromCenter = Math.sqrt(
-        bullet.mesh.position.x * bullet.mesh.position.x +
-          bullet.mesh.position.y * bullet.mesh.position.y
-      );
-
-      // Check if bullet goes out of bounds or too close to center
-      if (distanceFromCenter < 1) {
-        // Too close to center, just remove the bullet
-        this.sceneSetup.scene.remove(bullet.mesh);
-        this.modeState.enemyBullets.splice(i, 1);
-      } else if (distanceFromCenter > this.levelRadius) {
-        // Reached the level boundary
-        if (bullet.isBomb) {
-          // Create an explosion at the level boundary for bombs
-          this.createBombExplosion(bullet);
-        }
-
-        // Remove the bullet
-        this.sceneSetup.scene.remove(bullet.mesh);
-        this.modeState.enemyBullets.splice(i, 1);
-      }
-    }
-  }
-
-  // Create an explosion when a bomb hits the level boundary
-  private createBombExplosion(bomb: Bullet): void {
-    // Calculate position at boundary
-    const bulletPos = bomb.mesh.position;
-    const direction = new THREE.Vector3(
-      bulletPos.x,
-      bulletPos.y,
-      0
-    ).normalize();
-
-    // Get the position on the boundary by calculating intersection with level shape
-    // For simplicity, we'll use a circular boundary calculation
-    const boundaryPosition = direction.clone().multiplyScalar(this.levelRadius);
-
-    // Get the color of the bomb to match the explosion color
-    const bombMaterial = bomb.mesh.material as THREE.MeshStandardMaterial;
-    const bombColor = bombMaterial.color || new THREE.Color(0xff6600); // Default orange if not available
-
-    // Import EnemyExplosion class from enemies.ts
-    // We'll directly use the EnemyManager to create an explosion
-    this.enemyManager.createExplosionAtPosition(boundaryPosition, bombColor);
-  }
-
-  // Check if player is hit by any enemy bullets
-  private checkPlayerHitByEnemyBullets(): boolean {
-    // Get player position
-    const playerPos = this.player.position;
-    const playerRadius = this.modeState.playerSize * 0.8; // Same collision radius as used for enemies
-
-    // Check each enemy bullet for collision with player
-    for (let i = this.modeState.enemyBullets.length - 1; i >= 0; i--) {
-      const bullet = this.modeState.enemyBullets[i];
-
-      // Calculate distance between bullet and player
-      const dx = playerPos.x - bullet.mesh.position.x;
-      const dy = playerPos.y - bullet.mesh.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      // Check for collision (bullet radius is approximately 0.15)
-      if (distance < playerRadius + 0.15) {
-        // Remove the bullet
-        this.sceneSetup.scene.remove(bullet.mesh);
-        this.modeState.enemyBullets.splice(i, 1);
-
-        // Player is hit!
-        return true;
-      }
-    }
-
-    return false; // No collision detected
-  }
-
-  // Check if player is hit by any active explosions
-  private checkPlayerHitByExplosion(): boolean {
-    // If no explosions are active, return quickly
-    if (!this.modeState.explosions || this.modeState.explosions.length === 0) {
-      return false;
-    }
-
-    // Get player position
-    const playerPos = this.player.position;
-    const playerRadius = this.modeState.playerSize * 0.8; // Same collision radius as used for enemies
-
-    // Check each active explosion for collision with player
-    for (const explosion of this.modeState.explosions) {
-      // Only check if explosion has a non-zero radius (is active)
-      if (explosion.radius <= 0) continue;
-
-      // Calculate distance between explosion center and player
-      const dx = playerPos.x - explosion.position.x;
-      const dy = playerPos.y - explosion.position.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
-
-      // Check for collision with explosion radius
-      if (distance < playerRadius + explosion.radius) {
-        // Player is hit by explosion!
-        return true;
-      }
-    }
-
-    return false; // No collision detected
-  }
-
-  private checkBulletCollisions(): void {
-    // Check each bullet against each enemy
-    for (let i = this.modeState.bullets.length - 1; i >= 0; i--) {
-      const bullet = this.modeState.bullets[i];
-      let hitDetected = false;
-
-      for (let j = this.modeState.enemies.length - 1; j >= 0; j--) {
-        const enemy = this.modeState.enemies[j];
-
-        // Simple distance-based collision detection
-        const dx = bullet.mesh.position.x - enemy.mesh.position.x;
-        const dy = bullet.mesh.position.y - enemy.mesh.position.y;
-        const distance = Math.sqrt(dx * dx + dy * dy);
-
-        if (distance < enemy.size + 0.2) {
-          // Collision detected - apply damage to the enemy
-          const enemyDestroyed = enemy.takeDamage();
-
-          if (enemyDestroyed) {
-            // Trigger explosion effect
-            enemy.explode();
-
-            // Remove enemy from the list
-            this.modeState.enemies.splice(j, 1);
-
-            this.gameState.score += enemy.getPoints();
-            updateScore(this.gameState);
-
-            // Increase difficulty every 100 points
-            if (this.gameState.score % 100 === 0) {
-              this.modeState.enemySpeed += 0.005;
-            }
-
-            // Level up every 314 points
-            if (this.gameState.score > this.gameState.currentLevel * 314) {
-              this.levelUp();
-            }
-          }
-
-          // Remove the bullet regardless of whether enemy was destroyed
-          this.sceneSetup.scene.remove(bullet.mesh);
-          this.modeState.bullets.splice(i, 1);
-          hitDetected = true;
-          break;
-        }
-      }
-
-      if (hitDetected) break;
-    }
-  }
-
   private showLevelCompletedText(): void {
     const levelCompleted = document.createElement("div");
     levelCompleted.textContent = "LEVEL COMPLETED";
@@ -880,12 +534,33 @@ export class ActiveMode implements GameMode {
     SoundManager.getInstance().playLevelComplete();
 
     // Remove the text after the transition
-    setTimeout(() => {
+    this.scheduler.after(3, () => {
       const textElement = document.getElementById("level-completed-text");
       if (textElement) {
         document.body.removeChild(textElement);
       }
-    }, 3000);
+    });
+  }
+
+  private showWarpBonusText(bonus: number): void {
+    const warpBonus = document.createElement("div");
+    warpBonus.textContent =
+      bonus > 0 ? `WARP BONUS +${bonus}` : "NO WARP BONUS";
+    warpBonus.style.position = "absolute";
+    warpBonus.style.top = "10%";
+    warpBonus.style.left = "50%";
+    warpBonus.style.transform = "translateX(-50%)";
+    warpBonus.style.color = bonus > 0 ? "#00FFFF" : "#FF0000";
+    warpBonus.style.fontFamily = "Arial, sans-serif";
+    warpBonus.style.fontSize = "36px";
+    warpBonus.style.fontWeight = "bold";
+    warpBonus.id = "warp-bonus-text";
+
+    document.body.appendChild(warpBonus);
+
+    // Remove after 2 seconds, or sooner if the mode exits
+    const removeWarpBonus = () => warpBonus.remove();
+    this.scheduler.after(2, removeWarpBonus, removeWarpBonus);
   }
 
   private showLevelStartText(): void {
@@ -911,21 +586,21 @@ export class ActiveMode implements GameMode {
     document.body.appendChild(darkMoonText);
 
     // Fade in the first message
-    setTimeout(() => {
+    this.scheduler.after(0.1, () => {
       const textElement = document.getElementById("dark-moon-text");
       if (textElement) {
         textElement.style.opacity = "1";
       }
-    }, 100);
+    });
 
     // Remove the first message and show the second one after a delay
-    setTimeout(() => {
+    this.scheduler.after(2, () => {
       const textElement = document.getElementById("dark-moon-text");
       if (textElement) {
         textElement.style.opacity = "0";
 
         // Remove after fade out
-        setTimeout(() => {
+        this.scheduler.after(1, () => {
           if (textElement.parentNode) {
             document.body.removeChild(textElement);
           }
@@ -949,409 +624,63 @@ export class ActiveMode implements GameMode {
           document.body.appendChild(hurryText);
 
           // Fade in the second message
-          setTimeout(() => {
+          this.scheduler.after(0.1, () => {
             const hurryElement = document.getElementById("hurry-text");
             if (hurryElement) {
               hurryElement.style.opacity = "1";
             }
-          }, 100);
+          });
 
           // Remove the second message after a delay
-          setTimeout(() => {
+          this.scheduler.after(2, () => {
             const hurryElement = document.getElementById("hurry-text");
             if (hurryElement) {
               hurryElement.style.opacity = "0";
 
               // Remove after fade out
-              setTimeout(() => {
+              this.scheduler.after(1, () => {
                 if (hurryElement.parentNode) {
                   document.body.removeChild(hurryElement);
                 }
-              }, 1000);
-            }
-          }, 2000);
-        }, 1000);
-      }
-    }, 2000);
-  }
-
-  private destroyAllEnemies(): void {
-    // Remove all enemies if they exist
-    if (this.enemyManager && this.modeState.enemies.length > 0) {
-      for (const enemy of this.modeState.enemies) {
-        // Trigger explosion effect
-        enemy.explode();
-      }
-      this.modeState.enemies = [];
-    }
-  }
-
-  private async flyPlayerToBloodMoon(): Promise<void> {
-    const duration = 2000; // Longer duration (2 seconds) to match with Blood Moon collapse
-    const startPosition = {
-      x: this.player.position.x,
-      y: this.player.position.y,
-      z: this.player.position.z,
-    };
-
-    // Add a small rotation effect as the player flies in
-    const startRotation = {
-      x: this.player.rotation.x,
-      y: this.player.rotation.y,
-      z: this.player.rotation.z,
-    };
-
-    // Play ship flying sound
-    const flyingSound = SoundManager.getInstance().playShipFlying();
-
-    return new Promise<void>((resolve) => {
-      const startTime = Date.now();
-
-      const animate = () => {
-        const elapsed = Date.now() - startTime;
-        const progress = Math.min(elapsed / duration, 1);
-
-        // Custom easing function for dramatic flight
-        // Starts slow, accelerates, then slows at the end
-        const easeProgress =
-          progress < 0.3
-            ? 3 * progress * progress
-            : progress > 0.7
-            ? 1 - Math.pow(-2 * progress + 2, 2) / 2
-            : 0.27 + (progress - 0.3) * 1.15; // Linear in middle section
-
-        // Move player toward center of screen (where blood moon is)
-        this.player.position.x = startPosition.x * (1 - easeProgress);
-        this.player.position.y = startPosition.y * (1 - easeProgress);
-        this.player.position.z = startPosition.z + easeProgress * 3; // Move more forward for dramatic effect
-
-        // Add slight rotation as player flies in (barrel roll effect)
-        const rotationEffect = Math.sin(progress * Math.PI * 4) * 0.15;
-        this.player.rotation.z = startRotation.z + rotationEffect;
-
-        // Shrink player as it approaches center
-        const scale = 1 - easeProgress * 0.6;
-        this.player.scale.set(scale, scale, scale);
-
-        // Add a slight color effect to the player (gets redder as it approaches the Blood Moon)
-        this.player.traverse((object) => {
-          if (object instanceof THREE.Mesh && object.material) {
-            const material = object.material as THREE.MeshBasicMaterial;
-            if (material && material.color) {
-              // Store original color if not already stored
-              if (!object.userData.originalColor) {
-                object.userData.originalColor = material.color.clone();
-              }
-
-              // Apply red tint
-              material.color.setRGB(
-                1, // Full red
-                1 - easeProgress * 0.7, // Reduce green
-                1 - easeProgress * 0.7 // Reduce blue
-              );
-            }
-          }
-        });
-
-        if (progress < 1) {
-          requestAnimationFrame(animate);
-        } else {
-          // Reset player scale and rotation
-          this.player.scale.set(1, 1, 1);
-          this.player.rotation.set(
-            startRotation.x,
-            startRotation.y,
-            startRotation.z
-          );
-
-          // Reset player color to original
-          this.player.traverse((object) => {
-            if (object instanceof THREE.Mesh && object.material) {
-              const material = object.material as THREE.MeshBasicMaterial;
-              if (material && material.color && object.userData.originalColor) {
-                material.color.copy(object.userData.originalColor);
-              }
-            }
-          });
-
-          // Stop the flying sound when animation completes
-          flyingSound.stop();
-
-          resolve();
-        }
-
-        // Render during animation
-        this.sceneSetup.renderer.render(
-          this.sceneSetup.scene,
-          this.sceneSetup.camera
-        );
-      };
-
-      animate();
-    });
-  }
-
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  // Handle player death and respawn with temporary invulnerability
-  private respawnPlayer(): void {
-    // Set ghostMode immediately to prevent multiple collisions during death animation
-    this.modeState.ghostMode = true;
-
-    // Visual feedback for player death
-    this.createPlayerDeathEffect();
-
-    // Make player temporarily invisible
-    this.player.visible = false;
-
-    // Remove all enemy bullets to give player a cleaner start
-    this.clearEnemyBullets();
-
-    // Set a timeout to respawn the player with temporary invulnerability
-    setTimeout(() => {
-      // Reset player position to a random position on the level
-      this.modeState.playerAngle = Math.random() * Math.PI * 2;
-      this.normalizePlayerAngle();
-
-      const playerPosition = this.getPositionOnLevelOutline(
-        this.modeState.playerAngle
-      );
-      this.player.position.set(playerPosition.x, playerPosition.y, 0);
-      this.player.lookAt(0, 0, 0);
-
-      // Make the player visible again but semi-transparent
-      this.player.visible = true;
-
-      // Update the ghost mode display
-      this.updateGhostModeDisplay(true);
-
-      // Make the player semi-transparent to indicate invulnerability
-      this.player.traverse((object) => {
-        if (object instanceof THREE.Mesh) {
-          object.material.opacity = 0.5;
-          object.material.transparent = true;
-        }
-      });
-
-      // Set a timer to end invulnerability
-      setTimeout(() => {
-        if (this.gameState.gameStatus === "active") {
-          this.modeState.ghostMode = false;
-          this.updateGhostModeDisplay(false);
-
-          // Restore player opacity
-          this.player.traverse((object) => {
-            if (object instanceof THREE.Mesh) {
-              object.material.opacity = 1.0;
-              object.material.transparent = false;
+              });
             }
           });
-        }
-      }, 3000); // 3 seconds of invulnerability
-    }, 1000); // 1 second delay before respawn
-  }
-
-  // Clear all enemy bullets from the screen
-  private clearEnemyBullets(): void {
-    if (this.modeState.enemyBullets) {
-      // Remove all enemy bullets from the scene
-      for (const bullet of this.modeState.enemyBullets) {
-        this.sceneSetup.scene.remove(bullet.mesh);
+        });
       }
-      // Clear the bullets array
-      this.modeState.enemyBullets = [];
-    }
-  }
-
-  // Create a visual effect for player death
-  private createPlayerDeathEffect(): void {
-    // Create explosion effect at player position
-    const particleCount = 60;
-    const particles = new THREE.BufferGeometry();
-    const positions = new Float32Array(particleCount * 3);
-    const velocities = new Float32Array(particleCount * 3);
-    const colors = new Float32Array(particleCount * 3);
-
-    // Player position
-    const playerPos = this.player.position.clone();
-
-    for (let i = 0; i < particleCount; i++) {
-      // Set initial positions at player location
-      positions[i * 3] = playerPos.x;
-      positions[i * 3 + 1] = playerPos.y;
-      positions[i * 3 + 2] = playerPos.z;
-
-      // Random velocities for explosion effect
-      velocities[i * 3] = (Math.random() - 0.5) * 0.5;
-      velocities[i * 3 + 1] = (Math.random() - 0.5) * 0.5;
-      velocities[i * 3 + 2] = (Math.random() - 0.5) * 0.1;
-
-      // Player colors (blue/cyan)
-      colors[i * 3] = 0.0; // R
-      colors[i * 3 + 1] = 0.7 + Math.random() * 0.3; // G
-      colors[i * 3 + 2] = 0.8 + Math.random() * 0.2; // B
-    }
-
-    particles.setAttribute("position", new THREE.BufferAttribute(positions, 3));
-    particles.setAttribute(
-      "velocity",
-      new THREE.BufferAttribute(velocities, 3)
-    );
-    particles.setAttribute("color", new THREE.BufferAttribute(colors, 3));
-
-    // Create colored particle material
-    const pMaterial = new THREE.PointsMaterial({
-      size: 0.3,
-      vertexColors: true,
-      transparent: true,
-      opacity: 1.0,
-      depthWrite: false,
     });
-
-    // Create the particle system
-    const particleSystem = new THREE.Points(particles, pMaterial);
-    this.sceneSetup.scene.add(particleSystem);
-
-    // Play explosion sound
-    SoundManager.getInstance().playBigExplosion();
-
-    // Animate the particles
-    const updateParticles = () => {
-      const positions = particles.attributes.position.array as Float32Array;
-      const velocities = particles.attributes.velocity.array as Float32Array;
-
-      for (let i = 0; i < particleCount; i++) {
-        // Update positions based on velocities
-        positions[i * 3] += velocities[i * 3];
-        positions[i * 3 + 1] += velocities[i * 3 + 1];
-        positions[i * 3 + 2] += velocities[i * 3 + 2];
-
-        // Add gravity effect
-        velocities[i * 3 + 1] -= 0.01;
-      }
-
-      particles.attributes.position.needsUpdate = true;
-
-      // Gradually reduce opacity
-      pMaterial.opacity -= 0.01;
-      if (pMaterial.opacity <= 0) {
-        pMaterial.opacity = 0;
-      }
-
-      // Continue animation until particles fade out
-      if (pMaterial.opacity > 0 && particleSystem.parent) {
-        requestAnimationFrame(updateParticles);
-      } else {
-        this.sceneSetup.scene.remove(particleSystem);
-      }
-    };
-
-    // Start the animation
-    updateParticles();
-
-    // Remove particles after animation completes
-    setTimeout(() => {
-      if (particleSystem.parent) {
-        this.sceneSetup.scene.remove(particleSystem);
-      }
-    }, 2000);
-  }
-
-  // Handle when the blood moon reaches the level boundary
-  private handleBloodMoonReachedBoundary(): void {
-    // Stop sound effects but keep music playing until game over
-    SoundManager.getInstance().stopSoundEffects();
-
-    // Make sure countdown is explicitly stopped
-    this.stopCountdown();
-
-    // Show a warning message
-    const warningMessage = document.createElement("div");
-    warningMessage.id = "blood-moon-warning";
-    warningMessage.style.position = "absolute";
-    warningMessage.style.top = "30%";
-    warningMessage.style.left = "50%";
-    warningMessage.style.transform = "translate(-50%, -50%)";
-    warningMessage.style.color = "#FFFFFF"; // White text for better visibility
-    warningMessage.style.fontFamily = "Arial, sans-serif";
-    warningMessage.style.fontSize = "48px";
-    warningMessage.style.fontWeight = "bold";
-    warningMessage.style.textAlign = "center";
-    warningMessage.style.textShadow = "0 0 15px #FF0000, 0 0 25px #FF0000"; // Stronger glow
-    warningMessage.style.background = "rgba(139, 0, 0, 0.5)"; // Semi-transparent dark red background
-    warningMessage.style.padding = "20px 30px";
-    warningMessage.style.borderRadius = "10px";
-    warningMessage.style.border = "2px solid #FF0000";
-    warningMessage.style.boxShadow = "0 0 30px rgba(255, 0, 0, 0.8)"; // Red outer glow
-    warningMessage.style.letterSpacing = "2px"; // Spread out text for readability
-    warningMessage.innerHTML = "THE BLOOD MOON HAS CONSUMED YOU";
-    document.body.appendChild(warningMessage);
-
-    // Play blood moon sound effect
-    SoundManager.getInstance().playBloodMoonActivation();
-
-    // Pause for dramatic effect, then end the game
-    setTimeout(() => {
-      // Remove the warning message
-      document.body.removeChild(warningMessage);
-
-      // Trigger game over
-      document.dispatchEvent(
-        new CustomEvent("gameStatusChanged", {
-          detail: { status: "gameOver" },
-        })
-      );
-    }, 2000);
-  }
-
-  private updatePlayerAngle(targetAngle: number): void {
-    // Set player angle directly
-    this.modeState.playerAngle = targetAngle;
-    this.normalizePlayerAngle();
-  }
-
-  private normalizePlayerAngle(): void {
-    // Normalize angle to be between 0 and 2π for calculations
-    while (this.modeState.playerAngle < 0)
-      this.modeState.playerAngle += Math.PI * 2;
-    while (this.modeState.playerAngle >= Math.PI * 2)
-      this.modeState.playerAngle -= Math.PI * 2;
   }
 
   public handleKeyDown(event: KeyboardEvent): void {
     switch (event.key) {
       case "ArrowLeft":
       case "a":
-        this.keys.left = true;
+        this.queueAction({ type: "move", direction: "left", pressed: true });
         break;
       case "ArrowRight":
       case "d":
-        this.keys.right = true;
+        this.queueAction({ type: "move", direction: "right", pressed: true });
         break;
       case " ":
-        this.shoot();
+        this.queueAction({ type: "shoot" });
         break;
       case "l": // Add "l" key to force level transition
-        this.levelUp();
-        break;
       case "g": // Add "g" key to toggle ghost mode
-        this.toggleGhostMode();
-        break;
       case "s": // Add "s" key to toggle enemy spawning
-        this.toggleEnemySpawning();
-        break;
       case "e": // Add "e" key to force spawn specific enemy type
-        this.cycleEnemyType();
-        break;
       case "E": // Add "E" key to return to random enemy spawning
-        this.resetEnemySpawning();
+      case "r": // Add "r" key to toggle riding the level's rotation
+      case "t": // Add "t" key to toggle snapping to lanes
+        // Debug keys change gameplay, so they go through the tick like any input
+        this.queueAction({ type: "debug", key: event.key });
         break;
       case "m": // Add "m" key to toggle sound
         SoundManager.getInstance().toggleMute();
         this.showSoundStatus();
         break;
+      case "Escape":
+      case "p": // Pause the game
+        this.changeStatus("paused");
+        break;
     }
   }
 
@@ -1380,24 +709,20 @@ export class ActiveMode implements GameMode {
 
     document.body.appendChild(message);
 
-    // Remove after 1.5 seconds
-    setTimeout(() => {
-      const textElement = document.getElementById("sound-status-text");
-      if (textElement && textElement.parentNode) {
-        document.body.removeChild(textElement);
-      }
-    }, 1500);
+    // Remove after 1.5 seconds, or sooner if the mode exits
+    const removeMessage = () => message.remove();
+    this.scheduler.after(1.5, removeMessage, removeMessage);
   }
 
   public handleKeyUp(event: KeyboardEvent): void {
     switch (event.key) {
       case "ArrowLeft":
       case "a":
-        this.keys.left = false;
+        this.queueAction({ type: "move", direction: "left", pressed: false });
         break;
       case "ArrowRight":
       case "d":
-        this.keys.right = false;
+        this.queueAction({ type: "move", direction: "right", pressed: false });
         break;
     }
   }
@@ -1413,34 +738,23 @@ export class ActiveMode implements GameMode {
     // Calculate angle to mouse position
     const mouseAngle = Math.atan2(mouseY, mouseX);
 
-    // Update player angle
-    this.updatePlayerAngle(mouseAngle);
+    // Update player angle on the next tick
+    this.queueAction({ type: "aim", angle: mouseAngle });
   }
 
   // Add method to handle mouseup event
   public handleMouseUp(event: MouseEvent): void {
     // Only handle left mouse button release (button 0)
     if (event.button === 0) {
-      this.isMouseDown = false;
-
-      // Stop continuous shooting
-      if (this.shootingInterval) {
-        clearInterval(this.shootingInterval);
-        this.shootingInterval = null;
-      }
+      this.queueAction({ type: "fire", pressed: false });
     }
   }
 
   public handleMouseDown(event: MouseEvent): void {
     // Only handle left mouse button press (button 0)
     if (event.button === 0) {
-      this.shoot();
-
-      // Set the mouse down flag
-      this.isMouseDown = true;
-
-      // Start continuous shooting
-      this.startContinuousShooting();
+      // Shoot and keep firing while held
+      this.queueAction({ type: "fire", pressed: true });
     }
   }
 
@@ -1449,31 +763,6 @@ export class ActiveMode implements GameMode {
     // This is still kept for compatibility but doesn't duplicate the shot
   }
 
-  private startContinuousShooting(): void {
-    // Clear any existing interval first
-    if (this.shootingInterval) {
-      clearInterval(this.shootingInterval);
-      this.shootingInterval = null;
-    }
-
-    // Create a new interval for continuous shooting
-    // Start the interval with a slight delay to avoid double-firing
-    // since we already fired one shot on the initial mouse down
-    setTimeout(() => {
-      this.shootingInterval = window.setInterval(() => {
-        if (this.isMouseDown && !this.transitionInProgress) {
-          this.shoot();
-        } else if (!this.isMouseDown) {
-          // Stop the interval if mouse is no longer down
-          if (this.shootingInterval) {
-            clearInterval(this.shootingInterval);
-            this.shootingInterval = null;
-          }
-        }
-      }, 200); // Shoot every 200ms (adjust for desired fire rate)
-    }, 50);
-  }
-
   public handleTouchMove(event: TouchEvent): void {
     if (event.touches.length > 0) {
       const touch = event.touches[0];
@@ -1488,31 +777,20 @@ export class ActiveMode implements GameMode {
       // Calculate angle to touch position
       const touchAngle = Math.atan2(touchY, touchX);
 
-      // Update player angle
-      this.updatePlayerAngle(touchAngle);
+      // Update player angle on the next tick
+      this.queueAction({ type: "aim", angle: touchAngle });
 
       event.preventDefault();
     }
   }
 
   public handleTouchStart(event: TouchEvent): void {
-    this.shoot();
-
-    // Set the mouse down flag to enable continuous shooting
-    this.isMouseDown = true;
-
-    // Start continuous shooting, same as with mouse
-    this.startContinuousShooting();
+    // Shoot and keep firing while touching, same as with mouse
+    this.queueAction({ type: "fire", pressed: true });
   }
 
   public handleTouchEnd(event: TouchEvent): void {
     // Stop continuous shooting
-    this.isMouseDown = false;
-
-    // Clear any shooting interval
-    if (this.shootingInterval) {
-      clearInterval(this.shootingInterval);
-      this.shootingInterval = null;
-    }
+    this.queueAction({ type: "fire", pressed: false });
   }
 }
@@ -0,0 +1,1014 @@
+import * as THREE from "three";
+import { GameState } from "../types";
+import { GameMode } from "./gameMode";
+import { ActiveMode } from "./activeMode";
+import { EventBus, GameEvents } from "../events";
+import { SceneSetup } from "../scene";
+import { Random } from "../random";
+import { ResourceScope } from "../resources";
+import { LevelView } from "../levelView";
+import { loadLevelFile, saveLevelFile } from "../levelFiles";
+import { Level } from "../sim/levels";
+import {
+  getEnemyDefinition,
+  getSpawnableEnemyTypes,
+} from "../sim/enemyDefinitions";
+import { levelRadius } from "../sim/simulation";
+import { isPolygonAroundCentre } from "../sim/levelShapes";
+import {
+  LevelDefinition,
+  LevelObjective,
+  RotationScript,
+  ShapeDefinition,
+  SpawnWave,
+  levelDefinitions,
+  parseLevelDefinition,
+} from "../sim/levelDefinitions";
+
+// What a shape starts with when it's picked from the list
+const shapeDefaults: Record<ShapeDefinition["type"], ShapeDefinition> = {
+  circle: { type: "circle" },
+  spiral: { type: "spiral", turns: 3 },
+  star: { type: "star", points: 6, innerRatio: 0.6 },
+  wave: { type: "wave", amplitude: 0.05, frequency: 3.14 },
+  pi: { type: "pi" },
+  polygon: { type: "polygon", vertices: [] },
+  bar: { type: "bar", width: 1.8, depth: 0.5 },
+  v: { type: "v", width: 1.8, depth: 0.9 },
+  u: { type: "u", width: 1.4, depth: 0.7 },
+  halfCircle: { type: "halfCircle" },
+};
+
+const shapeParamLabels: Record<string, string> = {
+  turns: "Spiral turns",
+  points: "Star points",
+  innerRatio: "Inner ratio",
+  amplitude: "Wave height",
+  frequency: "Wave frequency",
+  width: "Width",
+  depth: "Depth",
+};
+
+const rotationDefaults: Record<RotationScript["type"], RotationScript> = {
+  none: { type: "none" },
+  constant: { type: "constant", speed: 0.15 },
+  alternating: {
+    type: "alternating",
+    speed: 0.21,
+    minInterval: 5,
+    maxInterval: 10,
+  },
+};
+
+const objectiveDefaults: Record<LevelObjective["type"], LevelObjective> = {
+  waves: { type: "waves" },
+  survive: { type: "survive", mark: 0.5 },
+  boss: { type: "boss", enemyType: 9, hitPoints: 30, delay: 10 },
+};
+
+// Given to a level when its objective is switched to waves and it has none
+const defaultSpawnWaves: SpawnWave[] = [
+  { count: 6 },
+  { count: 8 },
+  { count: 10 },
+];
+
+const musicKeys = ["c", "d", "e", "f", "g", "a", "b"];
+const musicScales = ["minor", "major", "minorPentatonic", "majorPentatonic"];
+
+function cloneDefinition(definition: LevelDefinition): LevelDefinition {
+  return JSON.parse(JSON.stringify(definition));
+}
+
+/**
+ * Builds a level visually: a side panel edits every field of a level
+ * definition while the playfield previews it, and clicking the playfield
+ * places rim corners for polygon levels. Test runs play in an ActiveMode
+ * of the editor's own, like ReplayMode, so they never touch the real run.
+ */
+export class EditorMode implements GameMode {
+  private sceneSetup: SceneSetup;
+  private events: EventBus<GameEvents>;
+  private definition: LevelDefinition; // Kept between visits so work isn't lost
+  private resources: ResourceScope = new ResourceScope();
+  private previewResources: ResourceScope | null = null; // Rebuilt on every change
+  private preview: LevelView | null = null;
+  private cornerMarkers: THREE.Points | null = null;
+  private raycaster: THREE.Raycaster = new THREE.Raycaster();
+  private panel: HTMLElement | null = null;
+  private statusElement: HTMLElement | null = null;
+  private testState: GameState;
+  private testMode: ActiveMode;
+  private testing: boolean = false;
+
+  constructor(
+    sceneSetup: SceneSetup,
+    _gameState: GameState,
+    events: EventBus<GameEvents>
+  ) {
+    this.sceneSetup = sceneSetup;
+    this.events = events;
+    this.definition = cloneDefinition(levelDefinitions[0]);
+
+    // The HUD only updates while the status is "active", so test runs report that
+    this.testState = {
+      score: 0,
+      currentLevel: 1,
+      gameStatus: "active",
+      lives: 3,
+      seed: 0,
+      random: new Random(0),
+      lastReplay: null,
+    };
+
+    // A test run's pause or game over should land back in the editor rather
+    // than change the game's mode, so it reports on a bus of its own
+    const testEvents = new EventBus<GameEvents>();
+    testEvents.on("gameStatusChanged", ({ status }) => {
+      if (status === "paused" || status === "gameOver") {
+        this.stopTest();
+      }
+    });
+    this.testMode = new ActiveMode(this.sceneSetup, this.testState, testEvents);
+  }
+
+  public enter(): void {
+    this.hideUIElements();
+    this.showPanel();
+    this.refreshPreview();
+  }
+
+  public update(delta: number): void {
+    if (this.testing) {
+      this.testMode.update(delta);
+    }
+  }
+
+  public render(alpha: number): void {
+    if (this.testing) {
+      this.testMode.render(alpha);
+      return;
+    }
+
+    this.sceneSetup.renderer.render(
+      this.sceneSetup.scene,
+      this.sceneSetup.camera
+    );
+  }
+
+  public exit(): void {
+    if (this.testing) {
+      this.endTestRun();
+    }
+    this.clearPreview();
+    this.resources.dispose();
+    this.removePanel();
+  }
+
+  // Input handling methods
+  public handleKeyDown(event: KeyboardEvent): void {
+    if (this.testing) {
+      this.testMode.handleKeyDown(event);
+      return;
+    }
+
+    // Typing in the panel shouldn't trigger shortcuts
+    if (
+      event.target instanceof HTMLInputElement ||
+      event.target instanceof HTMLSelectElement
+    ) {
+      return;
+    }
+
+    switch (event.key) {
+      case "Backspace":
+        this.removeLastCorner();
+        break;
+      case "Escape":
+        this.exitEditor();
+        break;
+    }
+  }
+
+  public handleKeyUp(event: KeyboardEvent): void {
+    if (this.testing) {
+      this.testMode.handleKeyUp(event);
+    }
+  }
+
+  public handleMouseMove(event: MouseEvent): void {
+    if (this.testing) {
+      this.testMode.handleMouseMove(event);
+    }
+  }
+
+  public handleMouseDown(event: MouseEvent): void {
+    if (this.testing) {
+      this.testMode.handleMouseDown(event);
+    }
+  }
+
+  public handleMouseUp(event: MouseEvent): void {
+    if (this.testing) {
+      this.testMode.handleMouseUp(event);
+    }
+  }
+
+  public handleClick(event: MouseEvent): void {
+    if (this.testing) {
+      this.testMode.handleClick(event);
+      return;
+    }
+
+    // Only clicks on the playfield itself place corners, not ones on the panel
+    if (event.target === this.sceneSetup.renderer.domElement) {
+      this.addCorner(event);
+    }
+  }
+
+  public handleTouchMove(event: TouchEvent): void {
+    if (this.testing) {
+      this.testMode.handleTouchMove(event);
+    }
+  }
+
+  public handleTouchStart(event: TouchEvent): void {
+    if (this.testing) {
+      this.testMode.handleTouchStart(event);
+    }
+  }
+
+  public handleTouchEnd(event: TouchEvent): void {
+    if (this.testing) {
+      this.testMode.handleTouchEnd(event);
+    }
+  }
+
+  // Play the level as it stands, starting from a fresh game
+  private startTest(): void {
+    const definition = this.validate();
+    if (!definition || this.testing) return;
+
+    this.clearPreview();
+    this.removePanel();
+
+    this.testState.score = 0;
+    this.testState.currentLevel = 1;
+    this.testState.lives = 3;
+
+    this.testMode.playCustomLevel(definition);
+    this.testMode.enter();
+    this.testing = true;
+
+    this.showTestBar();
+  }
+
+  // Go back to editing from a test run
+  private stopTest(): void {
+    if (!this.testing) return;
+    this.endTestRun();
+
+    this.hideUIElements();
+    this.showPanel();
+    this.refreshPreview();
+  }
+
+  private endTestRun(): void {
+    this.testing = false;
+    this.testMode.exit();
+
+    const testBar = document.getElementById("editor-test-bar");
+    if (testBar) {
+      document.body.removeChild(testBar);
+    }
+  }
+
+  private exitEditor(): void {
+    this.events.emit("gameStatusChanged", { status: "marquee" });
+  }
+
+  // The HUD belongs to test runs, not to editing
+  private hideUIElements(): void {
+    const elementsToHide = [
+      "score",
+      "lives",
+      "level",
+      "countdown-timer",
+      "objective",
+    ];
+
+    elementsToHide.forEach((id) => {
+      const element = document.getElementById(id);
+      if (element) {
+        element.style.display = "none";
+      }
+    });
+  }
+
+  /**
+   * Check the level and report the first problem in the panel
+   * @returns A copy of the level safe to play or save, or null if it has a problem
+   */
+  private validate(): LevelDefinition | null {
+    try {
+      const definition = parseLevelDefinition(cloneDefinition(this.definition));
+      this.setStatus("Ready to test", false);
+      return definition;
+    } catch (error) {
+      this.setStatus((error as Error).message, true);
+      return null;
+    }
+  }
+
+  private setStatus(message: string, isProblem: boolean): void {
+    if (!this.statusElement) return;
+
+    this.statusElement.textContent = message;
+    this.statusElement.style.color = isProblem ? "#FF6666" : "#66FF99";
+  }
+
+  // Redraw the playfield after any change and recheck the level
+  private refreshPreview(): void {
+    this.clearPreview();
+    this.validate();
+
+    this.previewResources = this.resources.createChild();
+
+    const shape = this.definition.shape;
+    if (this.canDrawShape(shape)) {
+      const level = new Level(1, levelRadius, this.definition);
+      this.preview = new LevelView(level, this.previewResources);
+      this.sceneSetup.scene.add(this.preview.getGroup());
+    }
+
+    if (shape.type === "polygon") {
+      this.showCornerMarkers(shape.vertices);
+    }
+  }
+
+  // Whether the shape has enough to it to lay out spokes on
+  private canDrawShape(shape: ShapeDefinition): boolean {
+    switch (shape.type) {
+      case "polygon":
+        // Not until its corners surround the centre
+        return isPolygonAroundCentre(shape.vertices);
+      case "star":
+        return Number.isInteger(shape.points) && shape.points >= 2;
+      case "spiral":
+        return shape.turns > 1;
+      case "bar":
+      case "v":
+      case "u":
+        return shape.width > 0 && shape.depth > 0;
+      default:
+        return true;
+    }
+  }
+
+  private clearPreview(): void {
+    if (this.preview) {
+      this.preview.dispose();
+      this.preview = null;
+    }
+
+    if (this.cornerMarkers) {
+      this.cornerMarkers.removeFromParent();
+      this.cornerMarkers = null;
+    }
+
+    if (this.previewResources) {
+      this.previewResources.dispose();
+      this.previewResources = null;
+    }
+  }
+
+  private showCornerMarkers(vertices: { x: number; y: number }[]): void {
+    if (!this.previewResources || vertices.length === 0) return;
+
+    const positions = [];
+    for (const vertex of vertices) {
+      positions.push(vertex.x * levelRadius, vertex.y * levelRadius, 0.1);
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(positions, 3)
+    );
+    const material = new THREE.PointsMaterial({
+      color: 0xffffff,
+      size: 0.4,
+    });
+
+    this.cornerMarkers = this.previewResources.trackObject(
+      new THREE.Points(geometry, material)
+    );
+    this.sceneSetup.scene.add(this.cornerMarkers);
+  }
+
+  // Put a rim corner where the playfield was clicked
+  private addCorner(event: MouseEvent): void {
+    const shape = this.definition.shape;
+    if (shape.type !== "polygon") return;
+
+    // Find where the click lands on the level's plane
+    const pointer = new THREE.Vector2(
+      (event.clientX / window.innerWidth) * 2 - 1,
+      -(event.clientY / window.innerHeight) * 2 + 1
+    );
+    this.raycaster.setFromCamera(pointer, this.sceneSetup.camera);
+
+    const levelPlane = new THREE.Plane(new THREE.Vector3(0, 0, 1), 0);
+    const point = new THREE.Vector3();
+    if (!this.raycaster.ray.intersectPlane(levelPlane, point)) return;
+
+    // Stored relative to the radius, rounded to keep level files readable
+    const round = (value: number) => Math.round(value * 1000) / 1000;
+    shape.vertices.push({
+      x: round(point.x / levelRadius),
+      y: round(point.y / levelRadius),
+    });
+
+    this.updateCornerCount();
+    this.refreshPreview();
+  }
+
+  private removeLastCorner(): void {
+    const shape = this.definition.shape;
+    if (shape.type !== "polygon" || shape.vertices.length === 0) return;
+
+    shape.vertices.pop();
+    this.updateCornerCount();
+    this.refreshPreview();
+  }
+
+  private clearCorners(): void {
+    const shape = this.definition.shape;
+    if (shape.type !== "polygon") return;
+
+    shape.vertices = [];
+    this.updateCornerCount();
+    this.refreshPreview();
+  }
+
+  private updateCornerCount(): void {
+    const countElement = document.getElementById("editor-corner-count");
+    const shape = this.definition.shape;
+    if (countElement && shape.type === "polygon") {
+      countElement.textContent = `${shape.vertices.length} corners placed`;
+    }
+  }
+
+  private async importLevelFile(file: File): Promise<void> {
+    try {
+      this.definition = await loadLevelFile(file);
+    } catch (error) {
+      this.setStatus(`Could not load level: ${(error as Error).message}`, true);
+      return;
+    }
+
+    this.showPanel();
+    this.refreshPreview();
+  }
+
+  private exportLevelFile(): void {
+    const definition = this.validate();
+    if (definition) {
+      saveLevelFile(definition);
+    }
+  }
+
+  private removePanel(): void {
+    if (this.panel && this.panel.parentNode) {
+      this.panel.parentNode.removeChild(this.panel);
+    }
+    this.panel = null;
+    this.statusElement = null;
+  }
+
+  // Build the panel from the current definition, replacing any old one
+  private showPanel(): void {
+    this.removePanel();
+
+    const panel = document.createElement("div");
+    panel.id = "editor-panel";
+    panel.style.position = "absolute";
+    panel.style.top = "0";
+    panel.style.left = "0";
+    panel.style.bottom = "0";
+    panel.style.width = "300px";
+    panel.style.overflowY = "auto";
+    panel.style.padding = "12px";
+    panel.style.boxSizing = "border-box";
+    panel.style.backgroundColor = "rgba(20, 0, 0, 0.85)";
+    panel.style.color = "#FF9999";
+    panel.style.fontFamily = "monospace";
+    panel.style.fontSize = "13px";
+    panel.style.zIndex = "1000";
+
+    const title = document.createElement("div");
+    title.textContent = "LEVEL EDITOR";
+    title.style.fontSize = "20px";
+    title.style.color = "#FF3333";
+    title.style.textShadow = "0 0 5px #FF3333";
+    title.style.marginBottom = "8px";
+    panel.appendChild(title);
+
+    const statusElement = document.createElement("div");
+    statusElement.style.minHeight = "32px";
+    statusElement.style.marginBottom = "8px";
+    panel.appendChild(statusElement);
+
+    const actions = document.createElement("div");
+    actions.style.marginBottom = "8px";
+    actions.appendChild(this.createButton("TEST PLAY", () => this.startTest()));
+    actions.appendChild(
+      this.createButton("EXPORT", () => this.exportLevelFile())
+    );
+
+    const importInput = document.createElement("input");
+    importInput.type = "file";
+    importInput.accept = ".json,application/json";
+    importInput.style.display = "none";
+    importInput.addEventListener("change", () => {
+      const file = importInput.files?.[0];
+      importInput.value = "";
+      if (file) {
+        this.importLevelFile(file);
+      }
+    });
+    actions.appendChild(importInput);
+    actions.appendChild(this.createButton("IMPORT", () => importInput.click()));
+    actions.appendChild(this.createButton("EXIT", () => this.exitEditor()));
+    panel.appendChild(actions);
+
+    // Start over from one of the authored levels
+    const presets = ["Start from...", ...levelDefinitions.map((l) => l.name)];
+    this.addRow(
+      panel,
+      "Preset",
+      this.createSelect(presets, presets[0], (name) => {
+        const preset = levelDefinitions.find((l) => l.name === name);
+        if (!preset) return;
+        this.definition = cloneDefinition(preset);
+        this.showPanel();
+      })
+    );
+
+    this.addSection(panel, "Level");
+    const nameInput = document.createElement("input");
+    nameInput.type = "text";
+    nameInput.value = this.definition.name;
+    nameInput.addEventListener("input", () => {
+      this.definition.name = nameInput.value;
+      this.validate();
+    });
+    this.addRow(panel, "Name", nameInput);
+
+    this.addRow(
+      panel,
+      "Blood moon (s)",
+      this.createNumberInput(this.definition.timeLimit, 5, (value) => {
+        this.definition.timeLimit = value;
+      })
+    );
+
+    this.addShapeFields(panel);
+    this.addRotationFields(panel);
+    this.addObjectiveFields(panel);
+    this.addColorFields(panel);
+    this.addSpawnFields(panel);
+    this.addSpawnWaveFields(panel);
+    this.addMusicFields(panel);
+
+    const instructions = document.createElement("div");
+    instructions.style.marginTop = "12px";
+    instructions.style.color = "#AA6666";
+    instructions.textContent =
+      "BACKSPACE removes the last corner, ESC leaves the editor. During a test, ESC returns here.";
+    panel.appendChild(instructions);
+
+    document.body.appendChild(panel);
+
+    this.panel = panel;
+    this.statusElement = statusElement;
+    this.validate();
+  }
+
+  private addShapeFields(panel: HTMLElement): void {
+    this.addSection(panel, "Shape");
+
+    const shape = this.definition.shape;
+    this.addRow(
+      panel,
+      "Type",
+      this.createSelect(Object.keys(shapeDefaults), shape.type, (type) => {
+        this.definition.shape = JSON.parse(
+          JSON.stringify(shapeDefaults[type as ShapeDefinition["type"]])
+        );
+        this.showPanel();
+      })
+    );
+
+    // Each shape's own numbers, e.g. star points or wave height
+    const params = shape as unknown as Record<string, number>;
+    for (const key of Object.keys(shapeParamLabels)) {
+      if (!(key in shape)) continue;
+
+      const step = Number.isInteger(params[key]) ? 1 : 0.05;
+      this.addRow(
+        panel,
+        shapeParamLabels[key],
+        this.createNumberInput(params[key], step, (value) => {
+          params[key] = value;
+        })
+      );
+    }
+
+    if (shape.type === "polygon") {
+      const hint = document.createElement("div");
+      hint.textContent = "Click the playfield to place rim corners.";
+      hint.style.margin = "4px 0";
+      panel.appendChild(hint);
+
+      const countElement = document.createElement("div");
+      countElement.id = "editor-corner-count";
+      countElement.textContent = `${shape.vertices.length} corners placed`;
+      panel.appendChild(countElement);
+
+      const cornerButtons = document.createElement("div");
+      cornerButtons.style.margin = "4px 0";
+      cornerButtons.appendChild(
+        this.createButton("UNDO CORNER", () => this.removeLastCorner())
+      );
+      cornerButtons.appendChild(
+        this.createButton("CLEAR", () => this.clearCorners())
+      );
+      panel.appendChild(cornerButtons);
+    }
+
+    this.addRow(
+      panel,
+      "Spokes",
+      this.createNumberInput(this.definition.spokeCount, 1, (value) => {
+        this.definition.spokeCount = value;
+      })
+    );
+  }
+
+  private addRotationFields(panel: HTMLElement): void {
+    this.addSection(panel, "Rotation");
+
+    const rotation = this.definition.rotation;
+    this.addRow(
+      panel,
+      "Type",
+      this.createSelect(
+        Object.keys(rotationDefaults),
+        rotation.type,
+        (type) => {
+          this.definition.rotation = {
+            ...rotationDefaults[type as RotationScript["type"]],
+          };
+          this.showPanel();
+        }
+      )
+    );
+
+    if (rotation.type === "none") return;
+
+    this.addRow(
+      panel,
+      "Speed (rad/s)",
+      this.createNumberInput(rotation.speed, 0.05, (value) => {
+        rotation.speed = value;
+      })
+    );
+
+    if (rotation.type === "alternating") {
+      this.addRow(
+        panel,
+        "Flip after min (s)",
+        this.createNumberInput(rotation.minInterval, 1, (value) => {
+          rotation.minInterval = value;
+        })
+      );
+      this.addRow(
+        panel,
+        "Flip after max (s)",
+        this.createNumberInput(rotation.maxInterval, 1, (value) => {
+          rotation.maxInterval = value;
+        })
+      );
+    }
+  }
+
+  private addObjectiveFields(panel: HTMLElement): void {
+    this.addSection(panel, "Objective");
+
+    const objective = this.definition.objective;
+    this.addRow(
+      panel,
+      "Type",
+      this.createSelect(
+        Object.keys(objectiveDefaults),
+        objective.type,
+        (type) => {
+          this.definition.objective = JSON.parse(
+            JSON.stringify(objectiveDefaults[type as LevelObjective["type"]])
+          );
+
+          // A waves objective needs some waves to get through
+          if (type === "waves" && !this.definition.spawnWaves?.length) {
+            this.definition.spawnWaves = JSON.parse(
+              JSON.stringify(defaultSpawnWaves)
+            );
+          }
+          this.showPanel();
+        }
+      )
+    );
+
+    switch (objective.type) {
+      case "survive":
+        this.addRow(
+          panel,
+          "Blood moon mark",
+          this.createNumberInput(objective.mark, 0.05, (value) => {
+            objective.mark = value;
+          })
+        );
+        break;
+      case "boss":
+        this.addRow(
+          panel,
+          "Boss type",
+          this.createNumberInput(objective.enemyType, 1, (value) => {
+            objective.enemyType = value;
+          })
+        );
+        this.addRow(
+          panel,
+          "Boss hit points",
+          this.createNumberInput(objective.hitPoints, 1, (value) => {
+            objective.hitPoints = value;
+          })
+        );
+        this.addRow(
+          panel,
+          "Boss delay (s)",
+          this.createNumberInput(objective.delay, 1, (value) => {
+            objective.delay = value;
+          })
+        );
+        break;
+    }
+  }
+
+  private addColorFields(panel: HTMLElement): void {
+    this.addSection(panel, "Colours");
+
+    const colors = this.definition.colors;
+    this.addRow(
+      panel,
+      "Rim",
+      this.createColorInput(colors.rim, (value) => {
+        colors.rim = value;
+      })
+    );
+    this.addRow(
+      panel,
+      "Detail",
+      this.createColorInput(colors.detail ?? colors.rim, (value) => {
+        colors.detail = value;
+      })
+    );
+    this.addRow(
+      panel,
+      "Spokes",
+      this.createColorInput(colors.spokes, (value) => {
+        colors.spokes = value;
+      })
+    );
+    this.addRow(
+      panel,
+      "Spoke opacity",
+      this.createNumberInput(colors.spokeOpacity, 0.1, (value) => {
+        colors.spokeOpacity = value;
+      })
+    );
+  }
+
+  // One weight per enemy type; a weight of 0 keeps the type off the level
+  private addSpawnFields(panel: HTMLElement): void {
+    this.addSection(panel, "Spawn weights");
+
+    for (const type of getSpawnableEnemyTypes()) {
+      const entry = this.definition.spawnTable.find((e) => e.type === type);
+      const allowed = this.definition.enemyTypes.includes(type);
+      const weight = allowed && entry ? entry.weight : 0;
+
+      this.addRow(
+        panel,
+        `${type} ${getEnemyDefinition(type).name}`,
+        this.createNumberInput(weight, 1, (value) => {
+          this.setSpawnWeight(type, value);
+        })
+      );
+    }
+  }
+
+  // Waves are written out as JSON, as in a level file; empty spawns at random
+  private addSpawnWaveFields(panel: HTMLElement): void {
+    this.addSection(panel, "Spawn waves");
+
+    const input = document.createElement("textarea");
+    input.rows = 8;
+    input.spellcheck = false;
+    input.value = this.definition.spawnWaves
+      ? JSON.stringify(this.definition.spawnWaves, null, 2)
+      : "";
+    input.style.width = "100%";
+    input.style.boxSizing = "border-box";
+    input.style.backgroundColor = "#330000";
+    input.style.color = "#FFFFFF";
+    input.style.border = "1px solid #660000";
+    input.style.fontFamily = "monospace";
+    input.style.fontSize = "11px";
+
+    input.addEventListener("input", () => {
+      const text = input.value.trim();
+      if (!text) {
+        delete this.definition.spawnWaves;
+        this.validate();
+        return;
+      }
+
+      try {
+        this.definition.spawnWaves = JSON.parse(text);
+        this.validate();
+      } catch {
+        this.setStatus("Spawn waves aren't valid JSON", true);
+      }
+    });
+    panel.appendChild(input);
+  }
+
+  private setSpawnWeight(type: number, weight: number): void {
+    const table = this.definition.spawnTable.filter((e) => e.type !== type);
+    if (weight > 0) {
+      table.push({ type, weight });
+    }
+    table.sort((a, b) => a.type - b.type);
+
+    this.definition.spawnTable = table;
+    this.definition.enemyTypes = table.map((e) => e.type);
+  }
+
+  private addMusicFields(panel: HTMLElement): void {
+    this.addSection(panel, "Music");
+
+    const music = this.definition.music;
+    this.addRow(
+      panel,
+      "Key",
+      this.createSelect(musicKeys, music.key, (key) => {
+        music.key = key;
+      })
+    );
+    this.addRow(
+      panel,
+      "Scale",
+      this.createSelect(musicScales, music.scale, (scale) => {
+        music.scale = scale;
+      })
+    );
+  }
+
+  private addSection(panel: HTMLElement, title: string): void {
+    const heading = document.createElement("div");
+    heading.textContent = title.toUpperCase();
+    heading.style.color = "#FF3333";
+    heading.style.marginTop = "12px";
+    heading.style.marginBottom = "4px";
+    heading.style.borderBottom = "1px solid #660000";
+    panel.appendChild(heading);
+  }
+
+  private addRow(
+    panel: HTMLElement,
+    label: string,
+    control: HTMLElement
+  ): void {
+    const row = document.createElement("label");
+    row.style.display = "flex";
+    row.style.justifyContent = "space-between";
+    row.style.alignItems = "center";
+    row.style.margin = "3px 0";
+
+    const text = document.createElement("span");
+    text.textContent = label;
+    row.appendChild(text);
+
+    control.style.width = "110px";
+    control.style.backgroundColor = "#330000";
+    control.style.color = "#FFFFFF";
+    control.style.border = "1px solid #660000";
+    row.appendChild(control);
+
+    panel.appendChild(row);
+  }
+
+  private createNumberInput(
+    value: number,
+    step: number,
+    onChange: (value: number) => void
+  ): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "number";
+    input.step = String(step);
+    input.value = String(value);
+
+    input.addEventListener("input", () => {
+      const parsed = parseFloat(input.value);
+      if (!Number.isFinite(parsed)) return;
+
+      onChange(parsed);
+      this.refreshPreview();
+    });
+
+    return input;
+  }
+
+  private createColorInput(
+    value: string,
+    onChange: (value: string) => void
+  ): HTMLInputElement {
+    const input = document.createElement("input");
+    input.type = "color";
+    input.value = value;
+
+    input.addEventListener("input", () => {
+      onChange(input.value);
+      this.refreshPreview();
+    });
+
+    return input;
+  }
+
+  private createSelect(
+    options: string[],
+    value: string,
+    onChange: (value: string) => void
+  ): HTMLSelectElement {
+    const select = document.createElement("select");
+    for (const option of options) {
+      const element = document.createElement("option");
+      element.value = option;
+      element.textContent = option;
+      select.appendChild(element);
+    }
+    select.value = value;
+
+    select.addEventListener("change", () => {
+      onChange(select.value);
+      this.refreshPreview();
+    });
+
+    return select;
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.padding = "6px 10px";
+    button.style.fontSize = "12px";
+    button.style.backgroundColor = "#660000";
+    button.style.color = "#FFFFFF";
+    button.style.border = "none";
+    button.style.borderRadius = "5px";
+    button.style.cursor = "pointer";
+    button.style.margin = "2px";
+
+    button.addEventListener("click", onClick);
+
+    return button;
+  }
+
+  private showTestBar(): void {
+    const testBar = document.createElement("div");
+    testBar.id = "editor-test-bar";
+    const name = this.definition.name.toUpperCase();
+    testBar.textContent = `TESTING ${name}  -  ESC returns to the editor`;
+    testBar.style.position = "absolute";
+    testBar.style.bottom = "20px";
+    testBar.style.left = "50%";
+    testBar.style.transform = "translateX(-50%)";
+    testBar.style.color = "#FF3333";
+    testBar.style.fontFamily = "monospace";
+    testBar.style.fontSize = "16px";
+    testBar.style.textShadow = "0 0 5px #FF3333";
+    testBar.style.zIndex = "1000";
+    document.body.appendChild(testBar);
+  }
+}
@@ -11,16 +11,33 @@ export interface GameMode {
   enter(): void;
 
   /**
-   * Called every frame to update the game state
-   * @param delta Time elapsed since last update
+   * Called once per fixed simulation tick to update the game state
+   * @param delta Fixed tick duration in seconds
    */
   update(delta: number): void;
 
+  /**
+   * Called once per display frame to draw the current state
+   * @param alpha Interpolation factor (0 to 1) between the last two ticks
+   */
+  render(alpha: number): void;
+
   /**
    * Called when exiting this game mode
    */
   exit(): void;
 
+  /**
+   * Called instead of exit() when the game is paused on top of this mode.
+   * The mode must stop all timers, sounds and animations until resume().
+   */
+  suspend?(): void;
+
+  /**
+   * Called instead of enter() when returning from pause
+   */
+  resume?(): void;
+
   /**
    * Handle keyboard input events
    * @param event The keyboard event to handle
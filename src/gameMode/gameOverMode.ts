@@ -1,16 +1,24 @@
 import * as THREE from "three";
 import { GameState } from "../types";
 import { GameMode } from "./gameMode";
+import { EventBus, GameEvents } from "../events";
 import { SceneSetup } from "../scene";
 import { SoundManager } from "../synth";
+import { saveReplayFile } from "../replay";
 
 export class GameOverMode implements GameMode {
   private sceneSetup: SceneSetup;
   private gameState: GameState;
+  private events: EventBus<GameEvents>;
 
-  constructor(sceneSetup: SceneSetup, gameState: GameState) {
+  constructor(
+    sceneSetup: SceneSetup,
+    gameState: GameState,
+    events: EventBus<GameEvents>
+  ) {
     this.sceneSetup = sceneSetup;
     this.gameState = gameState;
+    this.events = events;
   }
 
   public enter(): void {
@@ -24,6 +32,10 @@ export class GameOverMode implements GameMode {
   }
 
   public update(delta: number): void {
+    // Nothing to simulate while the game over screen is showing
+  }
+
+  public render(_alpha: number): void {
     // Render the scene for visual effects
     this.sceneSetup.renderer.render(
       this.sceneSetup.scene,
@@ -52,6 +64,10 @@ export class GameOverMode implements GameMode {
       event.key === "R"
     ) {
       this.restartGame();
+    } else if (event.key === "w") {
+      this.watchReplay();
+    } else if (event.key === "s") {
+      this.saveReplay();
     } else if (event.key === "m") {
       // Toggle sound mute
       SoundManager.getInstance().toggleMute();
@@ -132,11 +148,19 @@ export class GameOverMode implements GameMode {
 
   private restartGame(): void {
     // Transition back to marquee mode
-    document.dispatchEvent(
-      new CustomEvent("gameStatusChanged", {
-        detail: { status: "marquee" },
-      })
-    );
+    this.events.emit("gameStatusChanged", { status: "marquee" });
+  }
+
+  private watchReplay(): void {
+    if (!this.gameState.lastReplay) return;
+
+    this.events.emit("gameStatusChanged", { status: "replay" });
+  }
+
+  private saveReplay(): void {
+    if (this.gameState.lastReplay) {
+      saveReplayFile(this.gameState.lastReplay);
+    }
   }
 
   private showGameOver(): void {
@@ -178,9 +202,17 @@ export class GameOverMode implements GameMode {
     const levelElement = document.createElement("h3");
     levelElement.textContent = `LEVEL REACHED: ${this.gameState.currentLevel}`;
     levelElement.style.fontSize = "24px";
-    levelElement.style.margin = "10px 0 30px 0";
+    levelElement.style.margin = "10px 0 10px 0";
     gameOverContainer.appendChild(levelElement);
 
+    // Run seed, so the game can be reproduced with ?seed=
+    const seedElement = document.createElement("div");
+    seedElement.textContent = `SEED: ${this.gameState.seed}`;
+    seedElement.style.fontSize = "16px";
+    seedElement.style.margin = "0 0 30px 0";
+    seedElement.style.opacity = "0.7";
+    gameOverContainer.appendChild(seedElement);
+
     // Retry Button
     const retryButton = document.createElement("button");
     retryButton.textContent = "PLAY AGAIN";
@@ -200,6 +232,33 @@ export class GameOverMode implements GameMode {
 
     gameOverContainer.appendChild(retryButton);
 
+    // Replay buttons, for watching the run back or attaching it to a bug report
+    if (this.gameState.lastReplay) {
+      const replayButtons = document.createElement("div");
+
+      const watchButton = document.createElement("button");
+      watchButton.textContent = "WATCH REPLAY";
+      const saveButton = document.createElement("button");
+      saveButton.textContent = "SAVE REPLAY";
+
+      for (const button of [watchButton, saveButton]) {
+        button.style.padding = "10px 20px";
+        button.style.fontSize = "18px";
+        button.style.backgroundColor = "#660000";
+        button.style.color = "#FFFFFF";
+        button.style.border = "none";
+        button.style.borderRadius = "5px";
+        button.style.cursor = "pointer";
+        button.style.margin = "0 10px";
+        replayButtons.appendChild(button);
+      }
+
+      watchButton.addEventListener("click", () => this.watchReplay());
+      saveButton.addEventListener("click", () => this.saveReplay());
+
+      gameOverContainer.appendChild(replayButtons);
+    }
+
     // Instructions
     const instructionsElement = document.createElement("div");
     instructionsElement.style.fontSize = "18px";
@@ -207,6 +266,7 @@ export class GameOverMode implements GameMode {
     instructionsElement.style.margin = "20px 0";
     instructionsElement.innerHTML = `
       <p>Press SPACE, ENTER or R to play again</p>
+      <p>Press W to watch the replay, S to save it</p>
     `;
     gameOverContainer.appendChild(instructionsElement);
 
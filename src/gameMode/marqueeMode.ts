@@ -1,22 +1,33 @@
 import * as THREE from "three";
 import { GameState } from "../types";
 import { GameMode } from "./gameMode";
+import { EventBus, GameEvents } from "../events";
 import { SceneSetup } from "../scene";
 import { BloodMoon } from "../bloodMoon";
 import { SoundManager } from "../synth";
+import { Scheduler } from "../scheduler";
+import { loadReplayFile } from "../replay";
 
 export class MarqueeMode implements GameMode {
   private sceneSetup: SceneSetup;
   private gameState: GameState;
+  private events: EventBus<GameEvents>;
   private marqueeContainer: HTMLElement;
+  private replayStatusElement: HTMLElement; // Why the last replay file couldn't be watched
   private bloodMoon: BloodMoon;
+  private scheduler: Scheduler = new Scheduler(); // Drives the blood moon animation
 
   private isShrinking: boolean = false;
   private pulseTimer: number | null = null;
 
-  constructor(sceneSetup: SceneSetup, gameState: GameState) {
+  constructor(
+    sceneSetup: SceneSetup,
+    gameState: GameState,
+    events: EventBus<GameEvents>
+  ) {
     this.sceneSetup = sceneSetup;
     this.gameState = gameState;
+    this.events = events;
 
     // Create marquee screen container
     const marqueeContainer = document.createElement("div");
@@ -76,6 +87,55 @@ export class MarqueeMode implements GameMode {
 
     marqueeContainer.appendChild(startButton);
 
+    // Load a saved replay, e.g. one attached to a bug report
+    const replayInput = document.createElement("input");
+    replayInput.type = "file";
+    replayInput.accept = ".json,application/json";
+    replayInput.style.display = "none";
+    replayInput.addEventListener("change", () => {
+      const file = replayInput.files?.[0];
+      replayInput.value = "";
+      if (file) {
+        this.watchReplayFile(file);
+      }
+    });
+    marqueeContainer.appendChild(replayInput);
+
+    const loadReplayButton = document.createElement("button");
+    loadReplayButton.textContent = "LOAD REPLAY";
+    loadReplayButton.style.padding = "8px 16px";
+    loadReplayButton.style.fontSize = "16px";
+    loadReplayButton.style.backgroundColor = "#660000";
+    loadReplayButton.style.color = "#FFFFFF";
+    loadReplayButton.style.border = "none";
+    loadReplayButton.style.borderRadius = "5px";
+    loadReplayButton.style.cursor = "pointer";
+    loadReplayButton.addEventListener("click", () => replayInput.click());
+    marqueeContainer.appendChild(loadReplayButton);
+
+    const replayStatusElement = document.createElement("div");
+    replayStatusElement.style.fontSize = "14px";
+    replayStatusElement.style.color = "#FF6666";
+    replayStatusElement.style.marginTop = "6px";
+    marqueeContainer.appendChild(replayStatusElement);
+    this.replayStatusElement = replayStatusElement;
+
+    // Build and try out new levels
+    const editorButton = document.createElement("button");
+    editorButton.textContent = "LEVEL EDITOR";
+    editorButton.style.padding = "8px 16px";
+    editorButton.style.fontSize = "16px";
+    editorButton.style.backgroundColor = "#660000";
+    editorButton.style.color = "#FFFFFF";
+    editorButton.style.border = "none";
+    editorButton.style.borderRadius = "5px";
+    editorButton.style.cursor = "pointer";
+    editorButton.style.marginTop = "10px";
+    editorButton.addEventListener("click", () =>
+      this.events.emit("gameStatusChanged", { status: "editor" })
+    );
+    marqueeContainer.appendChild(editorButton);
+
     // Instructions
     const instructionsElement = document.createElement("div");
     instructionsElement.style.fontSize = "18px";
@@ -87,12 +147,13 @@ export class MarqueeMode implements GameMode {
     this.marqueeContainer = marqueeContainer;
 
     // Create the blood moon
-    this.bloodMoon = new BloodMoon(this.sceneSetup.scene);
+    this.bloodMoon = new BloodMoon(this.sceneSetup.scene, this.scheduler);
   }
 
   public enter(): void {
     document.body.appendChild(this.marqueeContainer);
     this.bloodMoon.enter();
+    this.replayStatusElement.textContent = "";
 
     // Hide UI elements that shouldn't appear on the marquee screen
     this.hideUIElements();
@@ -111,7 +172,7 @@ export class MarqueeMode implements GameMode {
   // Hide UI elements on marquee screen
   private hideUIElements(): void {
     // Hide score, lives, level, and timer displays
-    const elementsToHide = ['score', 'lives', 'level', 'countdown-timer'];
+    const elementsToHide = ['score', 'lives', 'level', 'countdown-timer', 'objective'];
     
     elementsToHide.forEach(id => {
       const element = document.getElementById(id);
@@ -122,9 +183,13 @@ export class MarqueeMode implements GameMode {
   }
 
   public update(delta: number): void {
+    this.scheduler.update(delta);
+
     // Pulse animation for Blood Moon in the marquee
     this.updateBloodMoonAnimation(delta);
+  }
 
+  public render(_alpha: number): void {
     // Render the scene for visual effects
     this.sceneSetup.renderer.render(
       this.sceneSetup.scene,
@@ -141,6 +206,7 @@ export class MarqueeMode implements GameMode {
 
     document.body.removeChild(this.marqueeContainer);
     this.bloodMoon.exit();
+    this.scheduler.clear();
   }
 
   // Start Blood Moon growing and shrinking animation
@@ -199,7 +265,7 @@ export class MarqueeMode implements GameMode {
       const glowMaterial = glow.material as THREE.MeshBasicMaterial;
 
       // Pulsate the color intensity with sin wave
-      const time = Date.now() * 0.001;
+      const time = this.scheduler.now();
       const intensity = 0.6 + 0.4 * Math.sin(time * 0.5);
 
       moonMaterial.color.setRGB(intensity * 0.67, 0, 0);
@@ -329,15 +395,23 @@ export class MarqueeMode implements GameMode {
     // No specific touch end handling needed for marquee mode
   }
 
+  private async watchReplayFile(file: File): Promise<void> {
+    try {
+      this.gameState.lastReplay = await loadReplayFile(file);
+    } catch (error) {
+      const problem = (error as Error).message;
+      this.replayStatusElement.textContent = `Could not load replay. ${problem}`;
+      return;
+    }
+
+    this.events.emit("gameStatusChanged", { status: "replay" });
+  }
+
   private startGame(): void {
     // Play a sound when starting the game
     SoundManager.getInstance().playLevelStart();
 
     // Transition to active game mode
-    document.dispatchEvent(
-      new CustomEvent("gameStatusChanged", {
-        detail: { status: "active" },
-      })
-    );
+    this.events.emit("gameStatusChanged", { status: "active" });
   }
 }
@@ -0,0 +1,208 @@
+import { GameState } from "../types";
+import { GameMode } from "./gameMode";
+import { EventBus, GameEvents } from "../events";
+import { SceneSetup } from "../scene";
+import { SoundManager } from "../synth";
+
+/**
+ * Overlay shown while the game is paused.
+ * The interrupted mode is suspended (not exited) underneath, so this mode
+ * only draws the frozen scene and offers resume, options and quit.
+ */
+export class PauseMode implements GameMode {
+  private sceneSetup: SceneSetup;
+  private gameState: GameState;
+  private events: EventBus<GameEvents>;
+  private optionsPanel: HTMLElement | null = null;
+
+  constructor(
+    sceneSetup: SceneSetup,
+    gameState: GameState,
+    events: EventBus<GameEvents>
+  ) {
+    this.sceneSetup = sceneSetup;
+    this.gameState = gameState;
+    this.events = events;
+  }
+
+  public enter(): void {
+    this.showPauseMenu();
+  }
+
+  public update(_delta: number): void {
+    // Nothing advances while paused
+  }
+
+  public render(_alpha: number): void {
+    // Keep drawing the frozen scene behind the overlay
+    this.sceneSetup.renderer.render(
+      this.sceneSetup.scene,
+      this.sceneSetup.camera
+    );
+  }
+
+  public exit(): void {
+    // Clean up pause screen
+    const pauseElement = document.getElementById("pause-container");
+    if (pauseElement) {
+      document.body.removeChild(pauseElement);
+    }
+    this.optionsPanel = null;
+  }
+
+  // Input handling methods
+  public handleKeyDown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case "Escape":
+      case "p":
+        this.resumeGame();
+        break;
+      case "q":
+        this.quitGame();
+        break;
+      case "m":
+        this.toggleSound();
+        break;
+    }
+  }
+
+  public handleKeyUp(_event: KeyboardEvent): void {
+    // No key up handling needed
+  }
+
+  public handleMouseMove(_event: MouseEvent): void {
+    // No mouse movement handling needed
+  }
+
+  public handleClick(_event: MouseEvent): void {
+    // Buttons have their own click handlers
+  }
+
+  public handleTouchMove(_event: TouchEvent): void {
+    // No touch movement handling needed
+  }
+
+  public handleTouchStart(_event: TouchEvent): void {
+    // Buttons have their own click handlers
+  }
+
+  private resumeGame(): void {
+    // Return to the suspended game
+    this.events.emit("gameStatusChanged", { status: "active" });
+  }
+
+  private quitGame(): void {
+    // Reset game state for a fresh run from the title screen
+    this.gameState.score = 0;
+    this.gameState.currentLevel = 1;
+    this.gameState.lives = 3;
+
+    this.events.emit("gameStatusChanged", { status: "marquee" });
+  }
+
+  private toggleSound(): void {
+    SoundManager.getInstance().toggleMute();
+    this.updateOptionsPanel();
+  }
+
+  private toggleOptions(): void {
+    if (!this.optionsPanel) return;
+
+    const isHidden = this.optionsPanel.style.display === "none";
+    this.optionsPanel.style.display = isHidden ? "flex" : "none";
+    this.updateOptionsPanel();
+  }
+
+  private updateOptionsPanel(): void {
+    const soundButton = document.getElementById("pause-sound-button");
+    if (soundButton) {
+      const isMuted = SoundManager.getInstance().isSoundMuted();
+      soundButton.textContent = isMuted ? "SOUND: OFF" : "SOUND: ON";
+    }
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.padding = "15px 30px";
+    button.style.fontSize = "24px";
+    button.style.minWidth = "240px";
+    button.style.backgroundColor = "#FF0000";
+    button.style.color = "#FFFFFF";
+    button.style.border = "none";
+    button.style.borderRadius = "5px";
+    button.style.cursor = "pointer";
+    button.style.margin = "10px 0";
+
+    button.addEventListener("click", onClick);
+
+    return button;
+  }
+
+  private showPauseMenu(): void {
+    // Create pause container over the frozen game
+    const pauseContainer = document.createElement("div");
+    pauseContainer.id = "pause-container";
+    pauseContainer.style.position = "absolute";
+    pauseContainer.style.top = "0";
+    pauseContainer.style.left = "0";
+    pauseContainer.style.width = "100%";
+    pauseContainer.style.height = "100%";
+    pauseContainer.style.display = "flex";
+    pauseContainer.style.flexDirection = "column";
+    pauseContainer.style.justifyContent = "center";
+    pauseContainer.style.alignItems = "center";
+    pauseContainer.style.color = "#FF0000";
+    pauseContainer.style.fontFamily = "Arial, sans-serif";
+    pauseContainer.style.textAlign = "center";
+    pauseContainer.style.background = "rgba(0, 0, 0, 0.6)";
+    pauseContainer.style.zIndex = "1000";
+
+    // Paused Text
+    const pausedText = document.createElement("h1");
+    pausedText.textContent = "PAUSED";
+    pausedText.style.fontSize = "64px";
+    pausedText.style.margin = "20px 0";
+    pausedText.style.textShadow = "0 0 10px #FF0000";
+    pauseContainer.appendChild(pausedText);
+
+    pauseContainer.appendChild(
+      this.createButton("RESUME", () => this.resumeGame())
+    );
+    pauseContainer.appendChild(
+      this.createButton("OPTIONS", () => this.toggleOptions())
+    );
+
+    // Options panel, hidden until OPTIONS is pressed
+    const optionsPanel = document.createElement("div");
+    optionsPanel.style.display = "none";
+    optionsPanel.style.flexDirection = "column";
+    optionsPanel.style.alignItems = "center";
+
+    const soundButton = this.createButton("", () => this.toggleSound());
+    soundButton.id = "pause-sound-button";
+    soundButton.style.backgroundColor = "#660000";
+    optionsPanel.appendChild(soundButton);
+
+    pauseContainer.appendChild(optionsPanel);
+    this.optionsPanel = optionsPanel;
+
+    pauseContainer.appendChild(
+      this.createButton("QUIT", () => this.quitGame())
+    );
+
+    // Instructions
+    const instructionsElement = document.createElement("div");
+    instructionsElement.style.fontSize = "18px";
+    instructionsElement.style.maxWidth = "600px";
+    instructionsElement.style.margin = "20px 0";
+    instructionsElement.innerHTML = `
+      <p>Press ESC or P to resume, Q to quit, M to toggle sound</p>
+    `;
+    pauseContainer.appendChild(instructionsElement);
+
+    document.body.appendChild(pauseContainer);
+
+    this.updateOptionsPanel();
+  }
+}
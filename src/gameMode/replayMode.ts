@@ -0,0 +1,347 @@
+import { GameState } from "../types";
+import { GameMode } from "./gameMode";
+import { EventBus, GameEvents } from "../events";
+import { ActiveMode } from "./activeMode";
+import { SceneSetup } from "../scene";
+import { SoundManager } from "../synth";
+import { Random } from "../random";
+import { ReplayPlayer } from "../replay";
+import { TICK_DURATION, TICK_RATE } from "../sim/tickRate";
+
+const playbackSpeeds = [1, 2, 4];
+
+/**
+ * Plays back a recorded run by feeding its inputs into an ActiveMode of its
+ * own. The replay keeps a separate game state so watching it never touches
+ * the real run's score, lives or level.
+ */
+export class ReplayMode implements GameMode {
+  private sceneSetup: SceneSetup;
+  private gameState: GameState;
+  private events: EventBus<GameEvents>;
+  private replayState: GameState;
+  private activeMode: ActiveMode;
+  private replay: ReplayPlayer | null = null;
+  private isPlaying: boolean = true;
+  private speed: number = 1;
+  private statusElement: HTMLElement | null = null;
+  private playButton: HTMLButtonElement | null = null;
+
+  constructor(
+    sceneSetup: SceneSetup,
+    gameState: GameState,
+    events: EventBus<GameEvents>
+  ) {
+    this.sceneSetup = sceneSetup;
+    this.gameState = gameState;
+    this.events = events;
+
+    // The HUD only updates while the status is "active", so the replay reports that
+    this.replayState = {
+      score: 0,
+      currentLevel: 1,
+      gameStatus: "active",
+      lives: 3,
+      seed: 0,
+      random: new Random(0),
+      lastReplay: null,
+    };
+
+    // Replayed gameplay reports on a bus of its own, so watching a run never
+    // looks like playing one to anything subscribed to the game's events
+    this.activeMode = new ActiveMode(
+      this.sceneSetup,
+      this.replayState,
+      new EventBus<GameEvents>()
+    );
+  }
+
+  public enter(): void {
+    if (!this.gameState.lastReplay) {
+      // Nothing to play back
+      this.exitReplay();
+      return;
+    }
+
+    this.replay = new ReplayPlayer(this.gameState.lastReplay);
+    this.activeMode.playReplay(this.replay);
+
+    this.isPlaying = true;
+    this.speed = 1;
+    this.startFromBeginning();
+
+    this.showReplayHud();
+  }
+
+  public update(delta: number): void {
+    if (!this.isPlaying || this.isFinished()) return;
+
+    // Faster playback just runs more ticks per tick
+    for (let i = 0; i < this.speed && !this.isFinished(); i++) {
+      this.activeMode.update(delta);
+    }
+
+    this.updateReplayHud();
+  }
+
+  public render(alpha: number): void {
+    this.activeMode.render(alpha);
+  }
+
+  public exit(): void {
+    if (this.replay) {
+      this.activeMode.exit();
+      this.replay = null;
+    }
+
+    const hudElement = document.getElementById("replay-hud");
+    if (hudElement) {
+      document.body.removeChild(hudElement);
+    }
+    this.statusElement = null;
+    this.playButton = null;
+  }
+
+  // Input handling methods
+  public handleKeyDown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case " ":
+        this.togglePlaying();
+        break;
+      case "f":
+        this.cycleSpeed();
+        break;
+      case "[":
+        this.seekToLevel(-1);
+        break;
+      case "]":
+        this.seekToLevel(1);
+        break;
+      case "r":
+        this.seekTo(0);
+        break;
+      case "m":
+        SoundManager.getInstance().toggleMute();
+        break;
+      case "Escape":
+        this.exitReplay();
+        break;
+    }
+  }
+
+  public handleKeyUp(_event: KeyboardEvent): void {
+    // No key up handling needed
+  }
+
+  public handleMouseMove(_event: MouseEvent): void {
+    // The player doesn't steer during a replay
+  }
+
+  public handleClick(_event: MouseEvent): void {
+    // HUD buttons have their own click handlers
+  }
+
+  public handleTouchMove(_event: TouchEvent): void {
+    // The player doesn't steer during a replay
+  }
+
+  public handleTouchStart(_event: TouchEvent): void {
+    // HUD buttons have their own click handlers
+  }
+
+  private startFromBeginning(): void {
+    // Every recorded run starts from a fresh game
+    this.replayState.score = 0;
+    this.replayState.currentLevel = 1;
+    this.replayState.lives = 3;
+
+    this.activeMode.enter();
+  }
+
+  private isFinished(): boolean {
+    if (!this.replay) return true;
+
+    return (
+      this.activeMode.hasReplayEnded() ||
+      this.activeMode.getTick() >= this.replay.data.ticks
+    );
+  }
+
+  private togglePlaying(): void {
+    if (this.isFinished()) return;
+
+    this.isPlaying = !this.isPlaying;
+
+    // Freeze sounds and the countdown along with the picture
+    if (this.isPlaying) {
+      this.activeMode.resume();
+    } else {
+      this.activeMode.suspend();
+    }
+
+    this.updateReplayHud();
+  }
+
+  private cycleSpeed(): void {
+    const index = playbackSpeeds.indexOf(this.speed);
+    this.speed = playbackSpeeds[(index + 1) % playbackSpeeds.length];
+    this.updateReplayHud();
+  }
+
+  /**
+   * Jump to the previous or next level start relative to the current tick
+   */
+  private seekToLevel(direction: number): void {
+    if (!this.replay) return;
+
+    const tick = this.activeMode.getTick();
+    const starts = this.replay.data.levelStarts.map((start) => start.tick);
+
+    if (direction < 0) {
+      // Go back past the start of the current level if we're just after it
+      const earlier = starts.filter((start) => start < tick - TICK_RATE);
+      this.seekTo(earlier.length > 0 ? earlier[earlier.length - 1] : 0);
+    } else {
+      const later = starts.find((start) => start > tick);
+      if (later !== undefined) {
+        this.seekTo(later);
+      }
+    }
+  }
+
+  /**
+   * Move playback to the given tick. The simulation can only run forwards,
+   * so going back restarts the run and fast-forwards from the beginning.
+   */
+  private seekTo(targetTick: number): void {
+    if (!this.replay) return;
+
+    // A paused replay has its sounds suspended, so release them first
+    if (!this.isPlaying) {
+      this.activeMode.resume();
+      this.isPlaying = true;
+    }
+
+    const soundManager = SoundManager.getInstance();
+    soundManager.runSilently(() => {
+      if (targetTick < this.activeMode.getTick()) {
+        this.activeMode.exit();
+        this.startFromBeginning();
+      }
+
+      while (this.activeMode.getTick() < targetTick && !this.isFinished()) {
+        this.activeMode.update(TICK_DURATION);
+      }
+    });
+
+    // Music was skipped while seeking, so start it again from here
+    soundManager.startBackgroundMusic();
+
+    this.updateReplayHud();
+  }
+
+  private exitReplay(): void {
+    this.events.emit("gameStatusChanged", { status: "marquee" });
+  }
+
+  private formatTicks(ticks: number): string {
+    const totalSeconds = Math.floor(ticks / TICK_RATE);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+  }
+
+  private updateReplayHud(): void {
+    if (!this.replay || !this.statusElement || !this.playButton) return;
+
+    const current = this.formatTicks(this.activeMode.getTick());
+    const total = this.formatTicks(this.replay.data.ticks);
+    const state = this.isFinished()
+      ? "FINISHED"
+      : this.isPlaying
+      ? `${this.speed}x`
+      : "PAUSED";
+
+    this.statusElement.textContent = `REPLAY  ${current} / ${total}  ${state}`;
+    this.playButton.textContent = this.isPlaying ? "PAUSE" : "PLAY";
+  }
+
+  private createButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement("button");
+    button.textContent = label;
+    button.style.padding = "6px 12px";
+    button.style.fontSize = "14px";
+    button.style.backgroundColor = "#660000";
+    button.style.color = "#FFFFFF";
+    button.style.border = "none";
+    button.style.borderRadius = "5px";
+    button.style.cursor = "pointer";
+    button.style.margin = "0 4px";
+
+    button.addEventListener("click", onClick);
+
+    return button;
+  }
+
+  private showReplayHud(): void {
+    if (!this.replay) return;
+
+    // Controls bar along the bottom of the screen
+    const hudContainer = document.createElement("div");
+    hudContainer.id = "replay-hud";
+    hudContainer.style.position = "absolute";
+    hudContainer.style.bottom = "20px";
+    hudContainer.style.left = "50%";
+    hudContainer.style.transform = "translateX(-50%)";
+    hudContainer.style.display = "flex";
+    hudContainer.style.flexDirection = "column";
+    hudContainer.style.alignItems = "center";
+    hudContainer.style.color = "#FF3333";
+    hudContainer.style.fontFamily = "monospace";
+    hudContainer.style.textShadow = "0 0 5px #FF3333";
+    hudContainer.style.zIndex = "1000";
+
+    const statusElement = document.createElement("div");
+    statusElement.style.fontSize = "20px";
+    statusElement.style.marginBottom = "8px";
+    hudContainer.appendChild(statusElement);
+
+    const controls = document.createElement("div");
+
+    const playButton = this.createButton("PAUSE", () => this.togglePlaying());
+    controls.appendChild(playButton);
+
+    for (const speed of playbackSpeeds) {
+      controls.appendChild(
+        this.createButton(`${speed}x`, () => {
+          this.speed = speed;
+          this.updateReplayHud();
+        })
+      );
+    }
+
+    // One button per level start for scrubbing
+    for (const start of this.replay.data.levelStarts) {
+      controls.appendChild(
+        this.createButton(`L${start.level}`, () => this.seekTo(start.tick))
+      );
+    }
+
+    controls.appendChild(this.createButton("EXIT", () => this.exitReplay()));
+    hudContainer.appendChild(controls);
+
+    const instructionsElement = document.createElement("div");
+    instructionsElement.style.fontSize = "12px";
+    instructionsElement.style.marginTop = "8px";
+    instructionsElement.textContent =
+      "SPACE play/pause, F speed, [ ] previous/next level, R restart, ESC exit";
+    hudContainer.appendChild(instructionsElement);
+
+    document.body.appendChild(hudContainer);
+
+    this.statusElement = statusElement;
+    this.playButton = playButton;
+
+    this.updateReplayHud();
+  }
+}
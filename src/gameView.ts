@@ -0,0 +1,429 @@
+import * as THREE from "three";
+import { Scheduler } from "./scheduler";
+import { createPlayer, animatePlayer } from "./player";
+import { BloodMoon } from "./bloodMoon";
+import { EnemyView } from "./enemyView";
+import { ExplosionView } from "./explosionView";
+import { LevelView } from "./levelView";
+import { SpikeView } from "./spikeView";
+import { EffectPools, deathParticleCount } from "./effectPools";
+import { ObjectPool } from "./pool";
+import { ResourceScope } from "./resources";
+import { Simulation, warpDiveDepth } from "./sim/simulation";
+import { Enemy } from "./sim/enemy";
+import { Level } from "./sim/levels";
+import { Bullet, Explosion } from "./sim/types";
+
+// Colour of explosions that no enemy caused, i.e. bombs
+const bombColor = 0xff6600;
+
+/**
+ * Draws a running simulation with Three.js. It builds meshes as things
+ * appear, follows them after every tick and plays the purely visual effects
+ * on its own scheduler, so the simulation never waits on the renderer.
+ */
+export class GameView {
+  private scene: THREE.Scene;
+  private camera: THREE.PerspectiveCamera;
+  private cameraDistance: number; // How far back the camera sits from the level outside the warp
+  private scheduler: Scheduler; // Cosmetic effects, frozen while paused
+  private simulation: Simulation;
+  private player: THREE.Group;
+  private levelView: LevelView | null = null;
+  private nextLevelView: LevelView | null = null; // The level coming up the tube during the warp
+  private bloodMoon: BloodMoon;
+  private spikeView: SpikeView;
+  private enemyViews: Map<Enemy, EnemyView> = new Map();
+  private bulletMeshes: Map<Bullet, THREE.Mesh> = new Map();
+  private resources: ResourceScope = new ResourceScope(); // Parent of every level and enemy scope
+  private pools: EffectPools;
+
+  constructor(
+    scene: THREE.Scene,
+    camera: THREE.PerspectiveCamera,
+    scheduler: Scheduler,
+    simulation: Simulation
+  ) {
+    this.scene = scene;
+    this.camera = camera;
+    this.cameraDistance = camera.position.z;
+    this.scheduler = scheduler;
+    this.simulation = simulation;
+
+    this.player = this.resources.trackObject(
+      createPlayer(simulation.state.playerSize, simulation.level.getRadius())
+    );
+
+    // Reused meshes for shots and explosions
+    this.pools = new EffectPools(this.resources);
+
+    this.spikeView = new SpikeView(this.resources);
+
+    // Create the blood moon but don't add it to the scene yet
+    this.bloodMoon = new BloodMoon(this.scene, this.scheduler);
+
+    this.subscribe();
+  }
+
+  public getPlayer(): THREE.Group {
+    return this.player;
+  }
+
+  /**
+   * Put the player and blood moon in the scene, ready for a new run
+   */
+  public enter(): void {
+    // Ensure player is in the scene
+    this.scene.add(this.player);
+    this.player.visible = true;
+    this.setPlayerOpacity(this.simulation.state.ghostMode ? 0.5 : 1.0);
+
+    this.scene.add(this.spikeView.getObject());
+    this.bloodMoon.enter();
+  }
+
+  /**
+   * Take everything this view added back out of the scene
+   */
+  public exit(): void {
+    this.scene.remove(this.player);
+    this.scene.remove(this.spikeView.getObject());
+
+    for (const enemyView of this.enemyViews.values()) {
+      enemyView.remove();
+    }
+    this.enemyViews.clear();
+
+    for (const bullet of [...this.bulletMeshes.keys()]) {
+      this.removeBullet(bullet);
+    }
+
+    if (this.levelView) {
+      this.levelView.dispose();
+      this.levelView = null;
+    }
+    this.removeNextLevel();
+
+    // Leave the camera where the other modes expect it
+    this.camera.position.z = this.cameraDistance;
+
+    this.bloodMoon.exit();
+  }
+
+  /**
+   * Follow the simulation after a tick
+   */
+  public sync(delta: number): void {
+    for (const enemyView of this.enemyViews.values()) {
+      enemyView.update(delta);
+    }
+
+    // Bombs pulsate between 0.9 and 1.1 size
+    const bombScale = 1 + 0.1 * Math.sin(this.scheduler.now() * 10);
+
+    for (const [bullet, mesh] of this.bulletMeshes) {
+      mesh.position.x = bullet.position.x;
+      mesh.position.y = bullet.position.y;
+
+      if (bullet.isBomb) {
+        mesh.scale.setScalar(bombScale);
+      }
+    }
+
+    const state = this.simulation.state;
+    if (this.levelView) {
+      this.levelView.update();
+      this.levelView.highlightLane(state.laneMode ? state.playerLane : null);
+      this.levelView.electrifyLanes(this.getElectrifiedLanes());
+    }
+
+    this.spikeView.update(this.simulation.level, state.spikes);
+
+    // Animate player
+    animatePlayer(this.player, this.scheduler.now());
+
+    // Keep the player on the level outline, pointing toward center
+    const playerPosition = this.simulation.state.playerPosition;
+    this.player.position.set(playerPosition.x, playerPosition.y, 0);
+    this.player.lookAt(0, 0, 0);
+
+    this.followWarp();
+  }
+
+  // Objects whose positions are smoothed between simulation ticks
+  public getInterpolatedObjects(): THREE.Object3D[] {
+    return [
+      this.player,
+      ...Array.from(this.enemyViews.values(), (enemyView) => enemyView.mesh),
+      ...this.bulletMeshes.values(),
+    ];
+  }
+
+  // Follow what the simulation reports
+  private subscribe(): void {
+    const events = this.simulation.events;
+
+    events.on("levelStarted", ({ level }) => this.showLevel(level));
+    events.on("bloodMoonGrowing", ({ duration }) =>
+      this.bloodMoon.startGrowing(duration)
+    );
+    events.on("bloodMoonShrinking", ({ duration }) =>
+      this.bloodMoon.startShrinking(duration)
+    );
+    events.on("enemySpawned", ({ enemy }) => {
+      this.enemyViews.set(
+        enemy,
+        new EnemyView(
+          this.scene,
+          this.scheduler,
+          this.pools,
+          this.resources,
+          enemy
+        )
+      );
+    });
+    events.on("enemyDamaged", ({ enemy }) =>
+      this.enemyViews.get(enemy)?.showDamage()
+    );
+    events.on("enemyFlashed", ({ enemy, duration }) =>
+      this.enemyViews.get(enemy)?.flash(duration)
+    );
+    events.on("enemyKilled", ({ enemy }) => this.explodeEnemy(enemy));
+    events.on("enemyEscaped", ({ enemy }) => this.removeEnemy(enemy));
+    events.on("bulletFired", ({ bullet }) => this.addBullet(bullet));
+    events.on("bulletRemoved", ({ bullet }) => this.removeBullet(bullet));
+    events.on("explosionStarted", ({ explosion, enemy }) =>
+      this.addExplosion(explosion, enemy)
+    );
+    events.on("playerDied", () => this.hidePlayer());
+    events.on("playerRespawned", () => {
+      // Make the player visible again
+      this.player.visible = true;
+    });
+
+    // Make player semi-transparent while invulnerable
+    events.on("ghostModeChanged", ({ active }) =>
+      this.setPlayerOpacity(active ? 0.5 : 1.0)
+    );
+    events.on("warpStarted", ({ nextLevel }) => this.showNextLevel(nextLevel));
+  }
+
+  // Lanes pulsing enemies are charging just now
+  private getElectrifiedLanes(): number[] {
+    const lanes: number[] = [];
+    for (const enemy of this.simulation.state.enemies) {
+      const lane = enemy.getElectrifiedLane();
+      if (lane !== null) lanes.push(lane);
+    }
+    return lanes;
+  }
+
+  private showLevel(level: Level): void {
+    // Swap out the previous level's visuals, and the preview of this one
+    if (this.levelView) {
+      this.levelView.dispose();
+    }
+    this.removeNextLevel();
+    this.levelView = new LevelView(level, this.resources);
+    this.scene.add(this.levelView.getGroup());
+
+    // Configure the blood moon with the new level's radius
+    this.bloodMoon.setLevelRadius(level.getRadius());
+  }
+
+  private explodeEnemy(enemy: Enemy): void {
+    const enemyView = this.enemyViews.get(enemy);
+    if (enemyView) {
+      enemyView.explode();
+      this.enemyViews.delete(enemy);
+    }
+  }
+
+  private removeEnemy(enemy: Enemy): void {
+    const enemyView = this.enemyViews.get(enemy);
+    if (enemyView) {
+      enemyView.remove();
+      this.enemyViews.delete(enemy);
+    }
+  }
+
+  private addBullet(bullet: Bullet): void {
+    const mesh = this.getBulletPool(bullet).acquire();
+    mesh.position.set(bullet.position.x, bullet.position.y, 0);
+    mesh.scale.setScalar(1); // A reused bomb may still be mid-pulse
+
+    if (bullet.fromEnemy && !bullet.isBomb) {
+      this.showBulletDirection(bullet);
+    }
+
+    this.scene.add(mesh);
+    this.bulletMeshes.set(bullet, mesh);
+  }
+
+  private removeBullet(bullet: Bullet): void {
+    const mesh = this.bulletMeshes.get(bullet);
+    if (mesh) {
+      this.scene.remove(mesh);
+      this.getBulletPool(bullet).release(mesh);
+      this.bulletMeshes.delete(bullet);
+    }
+  }
+
+  // Player shots, enemy shots and bombs each come from their own pool
+  private getBulletPool(bullet: Bullet): ObjectPool<THREE.Mesh> {
+    if (bullet.isBomb) return this.pools.bombs;
+    if (bullet.fromEnemy) return this.pools.enemyBullets;
+    return this.pools.playerBullets;
+  }
+
+  private addExplosion(explosion: Explosion, enemy: Enemy | null): void {
+    // Match the colour of whatever blew up
+    const enemyView = enemy ? this.enemyViews.get(enemy) : undefined;
+    const color = enemyView
+      ? enemyView.getColor()
+      : new THREE.Color(bombColor);
+
+    new ExplosionView(this.scene, this.scheduler, this.pools, explosion, color);
+  }
+
+  private hidePlayer(): void {
+    // Visual feedback for player death
+    this.createPlayerDeathEffect();
+
+    // Make player temporarily invisible
+    this.player.visible = false;
+  }
+
+  private setPlayerOpacity(opacity: number): void {
+    this.player.traverse((object) => {
+      if (object instanceof THREE.Mesh) {
+        object.material.opacity = opacity;
+        object.material.transparent = opacity < 1;
+      }
+    });
+  }
+
+  // A short-lived arrow showing where an enemy bullet is heading
+  private showBulletDirection(bullet: Bullet): void {
+    // Debug visualization to verify bullet direction
+    const directionHelper = this.pools.directionArrows.acquire();
+    directionHelper.setDirection(
+      new THREE.Vector3(bullet.direction.x, bullet.direction.y, 0).normalize()
+    );
+    directionHelper.position.set(bullet.position.x, bullet.position.y, 0);
+    this.scene.add(directionHelper);
+
+    // Remove helper after half a second, or straight away if the mode exits first
+    const removeHelper = () => {
+      this.scene.remove(directionHelper);
+      this.pools.directionArrows.release(directionHelper);
+    };
+    this.scheduler.after(0.5, removeHelper, removeHelper);
+  }
+
+  // Create a visual effect for player death
+  private createPlayerDeathEffect(): void {
+    // Create explosion effect at player position
+    const particleCount = deathParticleCount;
+    const particleSystem = this.pools.deathParticles.acquire();
+    const particles = particleSystem.geometry;
+    const pMaterial = particleSystem.material as THREE.PointsMaterial;
+    const positions = particles.attributes.position.array as Float32Array;
+    const velocities = particles.attributes.velocity.array as Float32Array;
+    const colors = particles.attributes.color.array as Float32Array;
+
+    // Player position
+    const playerPos = this.player.position;
+
+    for (let i = 0; i < particleCount; i++) {
+      // Set initial positions at player location
+      positions[i * 3] = playerPos.x;
+      positions[i * 3 + 1] = playerPos.y;
+      positions[i * 3 + 2] = playerPos.z;
+
+      // Random velocities for explosion effect
+      velocities[i * 3] = (Math.random() - 0.5) * 0.5;
+      velocities[i * 3 + 1] = (Math.random() - 0.5) * 0.5;
+      velocities[i * 3 + 2] = (Math.random() - 0.5) * 0.1;
+
+      // Player colors (blue/cyan)
+      colors[i * 3] = 0.0; // R
+      colors[i * 3 + 1] = 0.7 + Math.random() * 0.3; // G
+      colors[i * 3 + 2] = 0.8 + Math.random() * 0.2; // B
+    }
+
+    particles.attributes.color.needsUpdate = true;
+    pMaterial.opacity = 1.0;
+    this.scene.add(particleSystem);
+
+    // Animate the particles
+    const updateParticles = () => {
+      for (let i = 0; i < particleCount; i++) {
+        // Update positions based on velocities
+        positions[i * 3] += velocities[i * 3];
+        positions[i * 3 + 1] += velocities[i * 3 + 1];
+        positions[i * 3 + 2] += velocities[i * 3 + 2];
+
+        // Add gravity effect
+        velocities[i * 3 + 1] -= 0.01;
+      }
+
+      particles.attributes.position.needsUpdate = true;
+
+      // Gradually reduce opacity
+      pMaterial.opacity -= 0.01;
+      if (pMaterial.opacity <= 0) {
+        pMaterial.opacity = 0;
+      }
+    };
+
+    // Start the animation
+    updateParticles();
+
+    // Animate each tick, then return the particles to the pool once they have faded out
+    const removeParticles = () => {
+      this.scene.remove(particleSystem);
+      this.pools.deathParticles.release(particleSystem);
+    };
+    this.scheduler.tween({
+      duration: 2,
+      onUpdate: updateParticles,
+      onComplete: removeParticles,
+      onCancel: removeParticles,
+    });
+  }
+
+  // Start the next level small in the middle of the tube
+  private showNextLevel(level: Level): void {
+    this.removeNextLevel();
+    this.nextLevelView = new LevelView(level, this.resources);
+    this.nextLevelView.getGroup().scale.setScalar(0);
+    this.scene.add(this.nextLevelView.getGroup());
+  }
+
+  private removeNextLevel(): void {
+    if (this.nextLevelView) {
+      this.nextLevelView.dispose();
+      this.nextLevelView = null;
+    }
+  }
+
+  /**
+   * Zoom in as the player dives toward the centre during the warp. The
+   * player's dive and the zoom cancel out, so they stay put on screen while
+   * the tube rushes past and the next level grows up to meet them.
+   */
+  private followWarp(): void {
+    const progress = this.simulation.state.warpProgress ?? 0;
+    const zoom = 1 - warpDiveDepth * progress;
+
+    this.camera.position.z = this.cameraDistance * zoom;
+    this.player.scale.setScalar(zoom);
+
+    // By the end the next level is as large on screen as it will be once
+    // the camera is back, so it takes over without a jump
+    if (this.nextLevelView) {
+      this.nextLevelView.getGroup().scale.setScalar(progress * progress * zoom);
+    }
+  }
+}
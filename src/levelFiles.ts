@@ -0,0 +1,30 @@
+import { LevelDefinition, parseLevelDefinition } from "./sim/levelDefinitions";
+
+/**
+ * Offer a level definition as a JSON file download
+ */
+export function saveLevelFile(definition: LevelDefinition): void {
+  const blob = new Blob([JSON.stringify(definition, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+
+  const fileName = definition.name.trim().replace(/[^a-z0-9]+/gi, "-");
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${fileName || "level"}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a level file chosen by the user
+ * @throws Error if it isn't a usable level definition
+ */
+export async function loadLevelFile(file: File): Promise<LevelDefinition> {
+  return parseLevelDefinition(JSON.parse(await file.text()));
+}
@@ -0,0 +1,439 @@
+import * as THREE from "three";
+import { Level } from "./sim/levels";
+import { LevelColors } from "./sim/levelDefinitions";
+import { getSpiralVertices, getStarVertices } from "./sim/levelShapes";
+import { Vec2 } from "./sim/types";
+import { ResourceScope } from "./resources";
+
+// Lanes a pulsing enemy is charging flash this colour
+const electrifiedLaneColor = 0xffff66;
+
+// Draws a simulated level and follows its rotation
+export class LevelView {
+  public group: THREE.Group;
+  private level: Level;
+  private radius: number;
+  private colors: LevelColors;
+  private resources: ResourceScope; // Everything built for this level, freed when it's replaced
+  private laneHighlight: THREE.Mesh | null = null; // Built the first time lane mode lights a lane
+  private highlightedLane: number | null = null;
+  private electrifiedLanes: Map<number, THREE.Mesh> = new Map(); // Built as each lane is first charged
+
+  constructor(level: Level, resources: ResourceScope) {
+    this.group = new THREE.Group();
+    this.resources = resources.createChild();
+    this.level = level;
+    this.radius = level.radius;
+    this.colors = level.definition.colors;
+
+    const shape = level.definition.shape;
+    switch (shape.type) {
+      case "circle":
+        this.createCircleLevel();
+        break;
+      case "spiral":
+        this.createSpiralLevel(shape.turns);
+        break;
+      case "star":
+        this.createStarLevel(shape.points, shape.innerRatio);
+        break;
+      case "wave":
+        this.createWaveLevel(shape.amplitude, shape.frequency);
+        break;
+      case "pi":
+        this.createPiSymbolLevel();
+        break;
+      case "polygon":
+        this.createPolygonOutline(level.getRimVertices());
+        break;
+      case "bar":
+      case "v":
+      case "u":
+      case "halfCircle":
+        this.createOpenRim(level.getRimVertices());
+        break;
+    }
+
+    // Spokes radiating from the center
+    this.createSpokes();
+
+    // Add Pi digits as background decoration
+    this.addPiDigits();
+
+    this.resources.trackObject(this.group);
+
+    this.update();
+  }
+
+  // Match the level's current rotation
+  public update(): void {
+    this.group.rotation.z = this.level.rotation;
+  }
+
+  /**
+   * Light up the lane the player sits in, or none outside lane mode
+   */
+  public highlightLane(lane: number | null): void {
+    if (lane === this.highlightedLane) return;
+    this.highlightedLane = lane;
+
+    if (lane === null) {
+      if (this.laneHighlight) this.laneHighlight.visible = false;
+      return;
+    }
+
+    if (!this.laneHighlight) {
+      this.laneHighlight = this.createLaneFan(this.colors.rim, 0.25);
+    }
+
+    this.shapeLaneFan(this.laneHighlight, lane);
+    this.laneHighlight.visible = true;
+  }
+
+  /**
+   * Light up the lanes pulsing enemies are charging, and no others
+   */
+  public electrifyLanes(lanes: number[]): void {
+    for (const [lane, fan] of this.electrifiedLanes) {
+      fan.visible = lanes.includes(lane);
+    }
+
+    for (const lane of lanes) {
+      if (this.electrifiedLanes.has(lane)) continue;
+
+      const fan = this.createLaneFan(electrifiedLaneColor, 0.4);
+      this.shapeLaneFan(fan, lane);
+      this.electrifiedLanes.set(lane, fan);
+    }
+  }
+
+  // Helper method to get level's THREE.Group object
+  public getGroup(): THREE.Group {
+    return this.group;
+  }
+
+  /**
+   * Take the level out of the scene and free its geometry and materials
+   */
+  public dispose(): void {
+    this.group.removeFromParent();
+    this.resources.dispose();
+  }
+
+  // See-through mesh for lighting up a lane, shaped by shapeLaneFan
+  private createLaneFan(
+    color: THREE.ColorRepresentation,
+    opacity: number
+  ): THREE.Mesh {
+    const material = new THREE.MeshBasicMaterial({
+      color,
+      transparent: true,
+      opacity,
+      side: THREE.DoubleSide,
+    });
+    const fan = new THREE.Mesh(new THREE.BufferGeometry(), material);
+    this.resources.trackObject(fan);
+    this.group.add(fan);
+    return fan;
+  }
+
+  // A fan from the centre out to the rim between the lane's spokes, in the
+  // group's unrotated frame since the group turns it with the level
+  private shapeLaneFan(fan: THREE.Mesh, lane: number): void {
+    const span = this.level.getLaneSpan(lane);
+    const segments = 8;
+    const cos = Math.cos(-this.level.rotation);
+    const sin = Math.sin(-this.level.rotation);
+    const rimPoints: Vec2[] = [];
+    for (let i = 0; i <= segments; i++) {
+      const angle = span.start + (i / segments) * (span.end - span.start);
+      const point = this.level.shape.getPointAt(angle);
+      rimPoints.push({
+        x: point.x * cos - point.y * sin,
+        y: point.x * sin + point.y * cos,
+      });
+    }
+
+    const positions = [];
+    for (let i = 0; i < segments; i++) {
+      positions.push(0, 0, -0.1);
+      positions.push(rimPoints[i].x, rimPoints[i].y, -0.1);
+      positions.push(rimPoints[i + 1].x, rimPoints[i + 1].y, -0.1);
+    }
+
+    const geometry = fan.geometry;
+    geometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(positions, 3)
+    );
+    geometry.computeBoundingSphere();
+  }
+
+  // Add pi digits as background decoration
+  private addPiDigits(): void {
+    const PI_DIGITS = "3.14159265358979323846";
+
+    // Note: We're using simple geometry for the digits instead of FontLoader
+    // since FontLoader is in Three.js examples and not in the core module
+
+    // Create using regular geometry as fallback (since we can't load fonts dynamically)
+    for (let i = 0; i < PI_DIGITS.length; i++) {
+      const digit = PI_DIGITS[i];
+
+      // Skip the decimal point for placement
+      if (digit === ".") continue;
+
+      // Calculate position in a spiral pattern
+      const angle = (i / PI_DIGITS.length) * Math.PI * 4; // 2 full rotations
+      const distance = this.radius * 0.3 + i * this.radius * 0.02;
+
+      const x = Math.cos(angle) * distance;
+      const y = Math.sin(angle) * distance;
+
+      // Create a simple cube for each digit
+      const digitGeometry = new THREE.BoxGeometry(0.3, 0.3, 0.1);
+      const digitMaterial = new THREE.MeshBasicMaterial({
+        color: 0xaaaaff,
+        transparent: true,
+        opacity: 0.4,
+      });
+
+      const digitMesh = new THREE.Mesh(digitGeometry, digitMaterial);
+      digitMesh.position.set(x, y, -0.5); // Place behind the level
+
+      this.group.add(digitMesh);
+    }
+  }
+
+  // Lines from the center out to each of the level's spokes.
+  // The view is built before the level first rotates, so the group's
+  // rotation takes care of keeping them lined up afterwards.
+  private createSpokes(): void {
+    const spokeGeometry = new THREE.BufferGeometry();
+
+    const positions = [];
+    for (const spoke of this.level.getSpokePositions()) {
+      positions.push(spoke.innerX, spoke.innerY, 0);
+      positions.push(spoke.outerX, spoke.outerY, 0);
+    }
+
+    spokeGeometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(positions, 3)
+    );
+
+    const spokeMaterial = new THREE.LineBasicMaterial({
+      color: this.colors.spokes,
+      transparent: true,
+      opacity: this.colors.spokeOpacity,
+    });
+    const spokes = new THREE.LineSegments(spokeGeometry, spokeMaterial);
+
+    this.group.add(spokes);
+  }
+
+  // Colour for whatever the level draws inside its rim
+  private getDetailColor(): string {
+    return this.colors.detail ?? this.colors.rim;
+  }
+
+  // Create a basic circular level
+  private createCircleLevel(): void {
+    // Main circle
+    const circleGeometry = new THREE.RingGeometry(
+      this.radius - 0.1,
+      this.radius,
+      64
+    );
+    const circleMaterial = new THREE.MeshBasicMaterial({
+      color: this.colors.rim,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.7,
+    });
+    const circleRing = new THREE.Mesh(circleGeometry, circleMaterial);
+    this.group.add(circleRing);
+  }
+
+  // Create a spiral level inspired by Pi. The arm's outermost coil is the
+  // rim; the coils inside it are where enemies emerge.
+  private createSpiralLevel(turns: number): void {
+    const innerCoils = getSpiralVertices(this.radius, turns, 0, turns - 1);
+    const spiralGeometry = new THREE.BufferGeometry().setFromPoints(
+      innerCoils.map((point) => new THREE.Vector3(point.x, point.y, 0))
+    );
+
+    const spiralMaterial = new THREE.LineBasicMaterial({
+      color: this.getDetailColor(),
+      linewidth: 2,
+    });
+    const spiral = new THREE.Line(spiralGeometry, spiralMaterial);
+
+    this.group.add(spiral);
+
+    this.createOpenRim(this.level.getRimVertices());
+  }
+
+  // Create a star-shaped level
+  private createStarLevel(points: number, innerRatio: number): void {
+    this.createPolygonOutline(getStarVertices(this.radius, points, innerRatio));
+  }
+
+  // Closed outline through the given corners with a faint fill inside,
+  // for star and polygon levels
+  private createPolygonOutline(corners: Vec2[]): void {
+    const outlineGeometry = new THREE.BufferGeometry();
+    const vertices = [];
+
+    for (const corner of corners) {
+      vertices.push(corner.x, corner.y, 0);
+    }
+
+    // Close the shape
+    vertices.push(vertices[0], vertices[1], vertices[2]);
+
+    outlineGeometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(vertices, 3)
+    );
+
+    const outlineMaterial = new THREE.LineBasicMaterial({
+      color: this.colors.rim,
+      linewidth: 2,
+    });
+    const outline = new THREE.Line(outlineGeometry, outlineMaterial);
+
+    this.group.add(outline);
+
+    // Add filled background with slightly different color
+    const fillShape = new THREE.Shape();
+    fillShape.moveTo(vertices[0], vertices[1]);
+
+    for (let i = 3; i < vertices.length; i += 3) {
+      fillShape.lineTo(vertices[i], vertices[i + 1]);
+    }
+
+    const filledGeometry = new THREE.ShapeGeometry(fillShape);
+    const filledMaterial = new THREE.MeshBasicMaterial({
+      color: this.getDetailColor(),
+      transparent: true,
+      opacity: 0.3,
+      side: THREE.DoubleSide,
+    });
+    const filled = new THREE.Mesh(filledGeometry, filledMaterial);
+
+    this.group.add(filled);
+  }
+
+  // Line from one end of an open rim to the other, with a marker at each end
+  private createOpenRim(corners: Vec2[]): void {
+    const rimGeometry = new THREE.BufferGeometry().setFromPoints(
+      corners.map((corner) => new THREE.Vector3(corner.x, corner.y, 0))
+    );
+    const rimMaterial = new THREE.LineBasicMaterial({
+      color: this.colors.rim,
+      linewidth: 2,
+    });
+    this.group.add(new THREE.Line(rimGeometry, rimMaterial));
+
+    const endGeometry = new THREE.CircleGeometry(0.15, 16);
+    const endMaterial = new THREE.MeshBasicMaterial({
+      color: this.getDetailColor(),
+    });
+    for (const end of [corners[0], corners[corners.length - 1]]) {
+      const marker = new THREE.Mesh(endGeometry, endMaterial);
+      marker.position.set(end.x, end.y, 0);
+      this.group.add(marker);
+    }
+  }
+
+  // Create a level shaped like the Pi symbol
+  private createPiSymbolLevel(): void {
+    // Create outer circle
+    const circleGeometry = new THREE.RingGeometry(
+      this.radius - 0.1,
+      this.radius,
+      64
+    );
+    const circleMaterial = new THREE.MeshBasicMaterial({
+      color: this.colors.rim,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.7,
+    });
+    const circleRing = new THREE.Mesh(circleGeometry, circleMaterial);
+    this.group.add(circleRing);
+
+    // Create Pi symbol in center
+    const piGeometry = new THREE.BufferGeometry();
+    const scale = this.radius * 0.5;
+
+    // Pi symbol vertices (simplified), unrotated since the group rotation turns them
+    const piVertices = this.level.getPiSymbolVertices(scale, 0);
+
+    piGeometry.setAttribute(
+      "position",
+      new THREE.Float32BufferAttribute(piVertices, 3)
+    );
+
+    const piMaterial = new THREE.LineBasicMaterial({
+      color: this.getDetailColor(),
+      linewidth: 3,
+    });
+    const piSymbol = new THREE.LineSegments(piGeometry, piMaterial);
+
+    this.group.add(piSymbol);
+  }
+
+  // Create a wave/sine level based on pi
+  private createWaveLevel(amplitude: number, frequency: number): void {
+    // Outer ring
+    const ringGeometry = new THREE.RingGeometry(
+      this.radius - 0.1,
+      this.radius,
+      64
+    );
+    const ringMaterial = new THREE.MeshBasicMaterial({
+      color: this.colors.rim,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.7,
+    });
+    const ring = new THREE.Mesh(ringGeometry, ringMaterial);
+    this.group.add(ring);
+
+    // Create sine wave rings
+    for (let r = this.radius * 0.2; r < this.radius; r += this.radius * 0.2) {
+      const waveGeometry = new THREE.BufferGeometry();
+      const points = [];
+
+      const segments = 64;
+
+      for (let i = 0; i <= segments; i++) {
+        const angle = (i / segments) * Math.PI * 2;
+        const radiusAtPoint =
+          r + Math.sin(angle * frequency) * amplitude * this.radius;
+
+        points.push(
+          Math.cos(angle) * radiusAtPoint,
+          Math.sin(angle) * radiusAtPoint,
+          0
+        );
+      }
+
+      waveGeometry.setAttribute(
+        "position",
+        new THREE.Float32BufferAttribute(points, 3)
+      );
+
+      const waveMaterial = new THREE.LineBasicMaterial({
+        color: this.getDetailColor(),
+        transparent: true,
+        opacity: 0.7 - (r / this.radius) * 0.5, // Fade opacity for inner circles
+      });
+      const wave = new THREE.Line(waveGeometry, waveMaterial);
+
+      this.group.add(wave);
+    }
+  }
+}
@@ -35,122 +35,6 @@ export function createPlayer(size: number, levelRadius: number): THREE.Group {
   return playerGroup;
 }
 
-export function setupPlayerControls(
-  player: THREE.Group,
-  gameState: GameState,
-  levelRadius: number,
-  shootCallback: () => void
-): void {
-  // Track key states
-  const keys = {
-    left: false,
-    right: false,
-  };
-
-  // Keyboard controls
-  document.addEventListener("keydown", (event: KeyboardEvent) => {
-    if (!gameState.isGameOver) {
-      switch (event.key) {
-        case "ArrowLeft":
-        case "a":
-          keys.left = true;
-          break;
-        case "ArrowRight":
-        case "d":
-          keys.right = true;
-          break;
-        case " ":
-          shootCallback();
-          break;
-      }
-    }
-  });
-
-  document.addEventListener("keyup", (event: KeyboardEvent) => {
-    switch (event.key) {
-      case "ArrowLeft":
-      case "a":
-        keys.left = false;
-        break;
-      case "ArrowRight":
-      case "d":
-        keys.right = false;
-        break;
-    }
-  });
-
-  // Updated mouse controls - find closest point on level outline
-  document.addEventListener("mousemove", (event: MouseEvent) => {
-    if (!gameState.isGameOver) {
-      // Calculate mouse position relative to center of screen
-      const centerX = window.innerWidth / 2;
-      const centerY = window.innerHeight / 2;
-
-      const mouseX = event.clientX - centerX;
-      const mouseY = event.clientY - centerY;
-
-      // Calculate angle to mouse position
-      const mouseAngle = Math.atan2(mouseY, mouseX);
-
-      // This angle directly corresponds to the closest point on a circular level
-      gameState.playerAngle = mouseAngle;
-    }
-  });
-
-  // Mouse click to shoot
-  document.addEventListener("click", () => {
-    if (!gameState.isGameOver) {
-      shootCallback();
-    }
-  });
-
-  // Updated touch controls for mobile - find closest point on level outline
-  document.addEventListener(
-    "touchmove",
-    (event: TouchEvent) => {
-      if (!gameState.isGameOver && event.touches.length > 0) {
-        const touch = event.touches[0];
-
-        const centerX = window.innerWidth / 2;
-        const centerY = window.innerHeight / 2;
-
-        const touchX = touch.clientX - centerX;
-        const touchY = touch.clientY - centerY;
-
-        // Calculate angle to touch position
-        const touchAngle = Math.atan2(touchY, touchX);
-
-        // Use this angle directly for circular levels
-        gameState.playerAngle = touchAngle;
-
-        event.preventDefault();
-      }
-    },
-    { passive: false }
-  );
-
-  // Touch to shoot
-  document.addEventListener("touchstart", () => {
-    if (!gameState.isGameOver) {
-      shootCallback();
-    }
-  });
-
-  // Update player angle based on keys in animation loop
-  setInterval(() => {
-    if (!gameState.isGameOver) {
-      const moveSpeed = 0.1;
-
-      if (keys.left) {
-        gameState.playerAngle -= moveSpeed;
-      }
-      if (keys.right) {
-        gameState.playerAngle += moveSpeed;
-      }
-    }
-  }, 16); // ~60fps
-}
-
 // Function to update player position based on current angle and level shape
 export function updatePlayerPosition(
   player: THREE.Group,
@@ -225,14 +109,17 @@ export function updatePlayerPosition(
   player.rotation.z = gameState.playerAngle + Math.PI / 2;
 }
 
-export function animatePlayer(player: THREE.Group): void {
+/**
+ * Pulse the player's glow
+ * @param time Seconds on the game clock, so the pulse holds still while paused
+ */
+export function animatePlayer(player: THREE.Group, time: number): void {
   // Add subtle player effects
+  const pulse = 1 + Math.sin(time * 5) * 0.1;
   player.children.forEach((child, index) => {
     if (index === 1) {
       // Glow effect
-      child.scale.x = 1 + Math.sin(Date.now() * 0.005) * 0.1;
-      child.scale.y = 1 + Math.sin(Date.now() * 0.005) * 0.1;
-      child.scale.z = 1 + Math.sin(Date.now() * 0.005) * 0.1;
+      child.scale.set(pulse, pulse, pulse);
     }
   });
 }
@@ -0,0 +1,52 @@
+/**
+ * Hands out reusable objects so hot paths like firing and exploding don't
+ * allocate. Objects are created up front or on demand when the pool runs
+ * dry, and go back into the pool when released rather than being dropped.
+ */
+export class ObjectPool<T> {
+  private available: T[] = [];
+  private createItem: () => T;
+  private createdCount: number = 0;
+
+  /**
+   * @param createItem Builds a new object when none are free
+   * @param preallocate Number of objects to build straight away
+   */
+  constructor(createItem: () => T, preallocate: number = 0) {
+    this.createItem = createItem;
+
+    for (let i = 0; i < preallocate; i++) {
+      this.available.push(this.create());
+    }
+  }
+
+  /**
+   * Take a free object, building one if the pool is empty.
+   * The caller is responsible for resetting whatever state it relies on.
+   */
+  public acquire(): T {
+    return this.available.pop() ?? this.create();
+  }
+
+  /**
+   * Give an object back for reuse. It must not be used again until acquired.
+   */
+  public release(item: T): void {
+    this.available.push(item);
+  }
+
+  // Total objects this pool has ever built
+  public getCreatedCount(): number {
+    return this.createdCount;
+  }
+
+  // Objects currently waiting to be reused
+  public getAvailableCount(): number {
+    return this.available.length;
+  }
+
+  private create(): T {
+    this.createdCount++;
+    return this.createItem();
+  }
+}
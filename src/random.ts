@@ -0,0 +1,66 @@
+/**
+ * Small seedable pseudo-random number generator (mulberry32).
+ * Every gameplay random draw goes through the run's instance so the same
+ * seed reproduces the same game. Purely cosmetic effects (particles,
+ * crater placement, colour variation) keep using Math.random so they
+ * don't shift the gameplay sequence.
+ */
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Pick a fresh seed for a run that doesn't ask for a specific one
+   */
+  public static createSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /**
+   * Returns a float in [0, 1), like Math.random()
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  }
+
+  /**
+   * Returns an integer in [0, max)
+   */
+  public int(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+}
+
+/**
+ * Turn a seed string into a numeric seed. Plain numbers are used as-is,
+ * anything else (e.g. a date for a daily challenge) is hashed.
+ */
+export function parseSeed(value: string): number {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return Number(trimmed) >>> 0;
+  }
+
+  // FNV-1a hash
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < trimmed.length; i++) {
+    hash ^= trimmed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seed requested through the page URL (?seed=...), if any
+ */
+export function getSeedFromUrl(): number | null {
+  const value = new URLSearchParams(window.location.search).get("seed");
+  return value ? parseSeed(value) : null;
+}
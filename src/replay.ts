@@ -0,0 +1,238 @@
+import { GameStatus } from "./types";
+import { LevelDefinition, parseLevelDefinition } from "./sim/levelDefinitions";
+
+// A single player input, applied at the start of a simulation tick.
+// Live play and replays both feed these into ActiveMode so a run can be
+// reproduced exactly from its seed plus this list.
+export type InputAction =
+  | { type: "aim"; angle: number } // Mouse or touch pointing at an angle
+  | { type: "move"; direction: "left" | "right"; pressed: boolean }
+  | { type: "shoot" } // Single shot (space bar)
+  | { type: "fire"; pressed: boolean } // Fire button held or released
+  | { type: "debug"; key: string }; // Debug keys that change gameplay
+
+// Gameplay values that carry over between runs and so must be captured
+export interface ReplayStartState {
+  playerAngle: number;
+  enemySpeed: number;
+  ghostMode: boolean;
+  spawnEnemies: boolean;
+  rideLevelRotation?: boolean; // Missing from replays recorded before the option existed
+  laneMode?: boolean; // Likewise
+  customLevel?: LevelDefinition; // Set when the run tested a level from the editor
+}
+
+export interface ReplayData {
+  version: number;
+  seed: number;
+  start: ReplayStartState;
+  ticks: number; // Length of the run in simulation ticks
+  inputs: { tick: number; actions: InputAction[] }[];
+  transitions: { tick: number; status: GameStatus }[];
+  levelStarts: { tick: number; level: number }[];
+}
+
+const REPLAY_VERSION = 1;
+
+/**
+ * Collects the inputs of a live run, tick by tick
+ */
+export class ReplayRecorder {
+  private data: ReplayData;
+
+  constructor(seed: number, start: ReplayStartState) {
+    this.data = {
+      version: REPLAY_VERSION,
+      seed,
+      start,
+      ticks: 0,
+      inputs: [],
+      transitions: [],
+      levelStarts: [],
+    };
+  }
+
+  public recordInputs(tick: number, actions: InputAction[]): void {
+    if (actions.length === 0) return;
+    this.data.inputs.push({ tick, actions: [...actions] });
+  }
+
+  public recordTransition(tick: number, status: GameStatus): void {
+    this.data.transitions.push({ tick, status });
+  }
+
+  public recordLevelStart(tick: number, level: number): void {
+    this.data.levelStarts.push({ tick, level });
+  }
+
+  /**
+   * Close the recording at the given tick and return it
+   */
+  public finish(tick: number): ReplayData {
+    this.data.ticks = tick;
+    return this.data;
+  }
+}
+
+/**
+ * Hands a replay's recorded inputs back out, tick by tick
+ */
+export class ReplayPlayer {
+  public readonly data: ReplayData;
+  private inputsByTick: Map<number, InputAction[]> = new Map();
+
+  constructor(data: ReplayData) {
+    this.data = data;
+    for (const entry of data.inputs) {
+      this.inputsByTick.set(entry.tick, entry.actions);
+    }
+  }
+
+  public getInputs(tick: number): InputAction[] {
+    return this.inputsByTick.get(tick) ?? [];
+  }
+}
+
+/**
+ * Download a replay as a JSON file, e.g. to attach to a bug report
+ */
+export function saveReplayFile(data: ReplayData): void {
+  const blob = new Blob([JSON.stringify(data)], { type: "application/json" });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `blood-moon-replay-${data.seed}.json`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Read a replay file chosen by the user
+ */
+export async function loadReplayFile(file: File): Promise<ReplayData> {
+  let data: unknown;
+  try {
+    data = JSON.parse(await file.text());
+  } catch {
+    throw new Error("Replay: not a JSON file");
+  }
+  return parseReplayData(data);
+}
+
+const gameStatuses: GameStatus[] = [
+  "marquee",
+  "active",
+  "paused",
+  "gameOver",
+  "replay",
+  "editor",
+];
+
+function isTick(value: unknown, ticks: number): boolean {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= 0 &&
+    (value as number) <= ticks
+  );
+}
+
+function isInputAction(value: unknown): boolean {
+  const action = value as Record<string, unknown>;
+  if (typeof action !== "object" || action === null) return false;
+
+  switch (action.type) {
+    case "aim":
+      return typeof action.angle === "number" && Number.isFinite(action.angle);
+    case "move":
+      return (
+        (action.direction === "left" || action.direction === "right") &&
+        typeof action.pressed === "boolean"
+      );
+    case "shoot":
+      return true;
+    case "fire":
+      return typeof action.pressed === "boolean";
+    case "debug":
+      return typeof action.key === "string";
+    default:
+      return false;
+  }
+}
+
+/**
+ * Check that parsed JSON is a replay this version of the game can play
+ * @throws Error naming the first problem found
+ */
+export function parseReplayData(data: unknown): ReplayData {
+  const replay = data as ReplayData;
+  const fail = (problem: string): never => {
+    throw new Error(`Replay: ${problem}`);
+  };
+
+  if (typeof replay !== "object" || replay === null) fail("not an object");
+  if (replay.version !== REPLAY_VERSION) fail("unsupported version");
+  if (!Number.isInteger(replay.seed)) fail("seed must be a whole number");
+  if (!Number.isInteger(replay.ticks) || replay.ticks < 0) {
+    fail("ticks must be a whole number of at least 0");
+  }
+
+  const start = replay.start;
+  if (
+    typeof start !== "object" ||
+    start === null ||
+    !Number.isFinite(start.playerAngle) ||
+    !Number.isFinite(start.enemySpeed) ||
+    typeof start.ghostMode !== "boolean" ||
+    typeof start.spawnEnemies !== "boolean"
+  ) {
+    fail("start needs playerAngle, enemySpeed, ghostMode and spawnEnemies");
+  }
+  for (const option of ["rideLevelRotation", "laneMode"] as const) {
+    if (start[option] !== undefined && typeof start[option] !== "boolean") {
+      fail(`start ${option} must be true or false`);
+    }
+  }
+  if (start.customLevel !== undefined) {
+    start.customLevel = parseLevelDefinition(start.customLevel);
+  }
+
+  if (
+    !Array.isArray(replay.inputs) ||
+    !replay.inputs.every(
+      (entry) =>
+        isTick(entry?.tick, replay.ticks) &&
+        Array.isArray(entry.actions) &&
+        entry.actions.every(isInputAction)
+    )
+  ) {
+    fail("inputs must be known actions at ticks within the run");
+  }
+
+  if (
+    !Array.isArray(replay.transitions) ||
+    !replay.transitions.every(
+      (entry) =>
+        isTick(entry?.tick, replay.ticks) && gameStatuses.includes(entry.status)
+    )
+  ) {
+    fail("transitions must be known statuses at ticks within the run");
+  }
+
+  if (
+    !Array.isArray(replay.levelStarts) ||
+    !replay.levelStarts.every(
+      (entry) =>
+        isTick(entry?.tick, replay.ticks) &&
+        Number.isInteger(entry.level) &&
+        entry.level >= 1
+    )
+  ) {
+    fail("levelStarts must be levels from 1 up at ticks within the run");
+  }
+
+  return replay;
+}
@@ -0,0 +1,129 @@
+import * as THREE from "three";
+
+type Resource = THREE.BufferGeometry | THREE.Material | THREE.Texture;
+
+export interface ResourceCounts {
+  geometries: number;
+  materials: number;
+  textures: number;
+}
+
+// Resources tracked by a scope that haven't been disposed yet, for the dev counter
+const liveCounts: ResourceCounts = { geometries: 0, materials: 0, textures: 0 };
+
+// Which scope owns each resource, so shared ones are only ever disposed once
+const owners: WeakMap<Resource, ResourceScope> = new WeakMap();
+
+function countResource(resource: Resource, change: number): void {
+  if (resource instanceof THREE.BufferGeometry) {
+    liveCounts.geometries += change;
+  } else if (resource instanceof THREE.Material) {
+    liveCounts.materials += change;
+  } else {
+    liveCounts.textures += change;
+  }
+}
+
+/**
+ * Number of geometries, materials and textures that scopes are still holding
+ */
+export function getLiveResourceCounts(): ResourceCounts {
+  return { ...liveCounts };
+}
+
+/**
+ * Owns GPU resources for something with a lifetime, like a level or an enemy,
+ * and frees them all in one go when that thing goes away. Removing a mesh
+ * from the scene doesn't release its geometry or material, so anything
+ * built per level or per entity should be tracked by that entity's scope.
+ * Scopes nest: disposing one also disposes every scope created from it.
+ */
+export class ResourceScope {
+  private resources: Set<Resource> = new Set();
+  private children: Set<ResourceScope> = new Set();
+  private parent: ResourceScope | null = null;
+
+  /**
+   * A scope that is disposed along with this one, but can also be disposed on its own
+   */
+  public createChild(): ResourceScope {
+    const child = new ResourceScope();
+    child.parent = this;
+    this.children.add(child);
+    return child;
+  }
+
+  /**
+   * Take ownership of a resource; one already owned by another scope is left with it
+   */
+  public track<T extends Resource>(resource: T): T {
+    if (owners.has(resource)) return resource;
+
+    owners.set(resource, this);
+    this.resources.add(resource);
+    countResource(resource, 1);
+
+    // Textures belong with the material that samples them
+    if (resource instanceof THREE.Material) {
+      for (const value of Object.values(resource)) {
+        if (value instanceof THREE.Texture) {
+          this.track(value);
+        }
+      }
+    }
+
+    return resource;
+  }
+
+  /**
+   * Take ownership of the geometry and materials of an object and everything under it
+   */
+  public trackObject<T extends THREE.Object3D>(object: T): T {
+    object.traverse((child) => {
+      if (
+        child instanceof THREE.Mesh ||
+        child instanceof THREE.Line ||
+        child instanceof THREE.Points
+      ) {
+        this.track(child.geometry);
+
+        const materials = Array.isArray(child.material)
+          ? child.material
+          : [child.material];
+        for (const material of materials) {
+          this.track(material);
+        }
+      }
+    });
+
+    return object;
+  }
+
+  /**
+   * Free everything this scope and its children own
+   */
+  public dispose(): void {
+    for (const child of [...this.children]) {
+      child.dispose();
+    }
+
+    for (const resource of this.resources) {
+      resource.dispose();
+      owners.delete(resource);
+      countResource(resource, -1);
+    }
+    this.resources.clear();
+
+    if (this.parent) {
+      this.parent.children.delete(this);
+      this.parent = null;
+    }
+  }
+}
+
+/**
+ * Whether the page URL asks for the live resource counter (?resources)
+ */
+export function isResourceCounterEnabled(): boolean {
+  return new URLSearchParams(window.location.search).has("resources");
+}
@@ -0,0 +1,230 @@
+// Maps linear progress (0 to 1) onto an eased curve
+export type Easing = (t: number) => number;
+
+export const linear: Easing = (t) => t;
+
+// A callback waiting for the game clock to reach its due time,
+// optionally repeating every interval seconds
+interface TimerTask {
+  kind: "timer";
+  id: number;
+  dueTime: number;
+  interval: number | null;
+  callback: () => void;
+  onCancel?: () => void;
+}
+
+// A value animated over a fixed span of game time
+interface TweenTask {
+  kind: "tween";
+  id: number;
+  startTime: number;
+  duration: number;
+  easing: Easing;
+  onUpdate: (progress: number) => void;
+  onComplete?: () => void;
+  onCancel?: () => void;
+}
+
+// A callback run on every tick until it returns false
+interface TickTask {
+  kind: "tick";
+  id: number;
+  callback: (delta: number) => boolean | void;
+}
+
+type ScheduledTask = TimerTask | TweenTask | TickTask;
+
+export interface TweenOptions {
+  duration: number; // Seconds of game time
+  easing?: Easing;
+  onUpdate: (progress: number) => void; // Receives eased progress from 0 to 1
+  onComplete?: () => void;
+  onCancel?: () => void; // Runs instead of onComplete if cancelled or cleared
+}
+
+/**
+ * Runs callbacks, repeating timers and tweens on the game's simulation clock
+ * instead of wall-clock time.
+ * Because it only advances when update() is called, anything scheduled here
+ * freezes automatically while the owning mode is paused, slows down with
+ * timeScale, and is dropped in one go by clear() when the mode exits.
+ */
+export class Scheduler {
+  // Multiplier applied to every delta, e.g. 0.25 for slow motion
+  public timeScale: number = 1;
+
+  private time: number = 0;
+  private nextId: number = 1;
+  private tasks: Map<number, ScheduledTask> = new Map();
+
+  /**
+   * Advance the clock and run any callbacks that have become due
+   * @param delta Seconds of game time that have passed
+   */
+  public update(delta: number): void {
+    const scaledDelta = delta * this.timeScale;
+    this.time += scaledDelta;
+
+    // Snapshot so tasks added or cancelled by callbacks don't disturb this pass
+    const snapshot = Array.from(this.tasks.values());
+
+    // Run due timers in the order they were scheduled to fire
+    const dueTimers = snapshot
+      .filter(
+        (task): task is TimerTask =>
+          task.kind === "timer" && task.dueTime <= this.time
+      )
+      .sort((a, b) => a.dueTime - b.dueTime || a.id - b.id);
+
+    for (const task of dueTimers) {
+      // A previous callback may have cancelled this one
+      if (!this.tasks.has(task.id)) continue;
+
+      if (task.interval === null) {
+        this.tasks.delete(task.id);
+      } else {
+        task.dueTime += task.interval;
+      }
+      task.callback();
+    }
+
+    for (const task of snapshot) {
+      if (!this.tasks.has(task.id)) continue;
+
+      if (task.kind === "tween") {
+        this.updateTween(task);
+      } else if (task.kind === "tick") {
+        if (task.callback(scaledDelta) === false) {
+          this.tasks.delete(task.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Current time on the game clock, in seconds
+   */
+  public now(): number {
+    return this.time;
+  }
+
+  /**
+   * Run a callback once after the given number of seconds of game time
+   * @param onCancel Runs instead if the timer is cancelled or cleared first,
+   * so effects can still tidy up the scene when the mode exits early
+   * @returns Id that can be passed to cancel()
+   */
+  public after(
+    seconds: number,
+    callback: () => void,
+    onCancel?: () => void
+  ): number {
+    const id = this.nextId++;
+    this.tasks.set(id, {
+      kind: "timer",
+      id,
+      dueTime: this.time + seconds,
+      interval: null,
+      callback,
+      onCancel,
+    });
+    return id;
+  }
+
+  /**
+   * Run a callback repeatedly, every given number of seconds of game time
+   * @returns Id that can be passed to cancel()
+   */
+  public every(seconds: number, callback: () => void): number {
+    const id = this.nextId++;
+    this.tasks.set(id, {
+      kind: "timer",
+      id,
+      dueTime: this.time + seconds,
+      interval: seconds,
+      callback,
+    });
+    return id;
+  }
+
+  /**
+   * Run a callback on every tick until it returns false
+   * @returns Id that can be passed to cancel()
+   */
+  public everyTick(callback: (delta: number) => boolean | void): number {
+    const id = this.nextId++;
+    this.tasks.set(id, { kind: "tick", id, callback });
+    return id;
+  }
+
+  /**
+   * Animate from 0 to 1 over the given duration of game time
+   * @returns Id that can be passed to cancel(); onComplete won't run if cancelled
+   */
+  public tween(options: TweenOptions): number {
+    const id = this.nextId++;
+    this.tasks.set(id, {
+      kind: "tween",
+      id,
+      startTime: this.time,
+      duration: options.duration,
+      easing: options.easing ?? linear,
+      onUpdate: options.onUpdate,
+      onComplete: options.onComplete,
+      onCancel: options.onCancel,
+    });
+    return id;
+  }
+
+  /**
+   * Resolve a promise after the given number of seconds of game time
+   */
+  public delay(seconds: number): Promise<void> {
+    return new Promise((resolve) => this.after(seconds, resolve));
+  }
+
+  public cancel(id: number | null): void {
+    if (id === null) return;
+
+    const task = this.tasks.get(id);
+    if (!task) return;
+
+    this.tasks.delete(id);
+    this.runCancelHandler(task);
+  }
+
+  /**
+   * Drop every pending callback, e.g. when the owning mode exits
+   */
+  public clear(): void {
+    const cancelled = Array.from(this.tasks.values());
+    this.tasks.clear();
+
+    for (const task of cancelled) {
+      this.runCancelHandler(task);
+    }
+  }
+
+  private runCancelHandler(task: ScheduledTask): void {
+    if (task.kind !== "tick" && task.onCancel) {
+      task.onCancel();
+    }
+  }
+
+  private updateTween(task: TweenTask): void {
+    const progress =
+      task.duration > 0
+        ? Math.min(1, (this.time - task.startTime) / task.duration)
+        : 1;
+
+    task.onUpdate(task.easing(progress));
+
+    if (progress >= 1) {
+      this.tasks.delete(task.id);
+      if (task.onComplete) {
+        task.onComplete();
+      }
+    }
+  }
+}
@@ -0,0 +1,220 @@
+import { EventBus } from "../events";
+import {
+  CollisionBody,
+  CollisionLayer,
+  CollisionLayers,
+  SimulationEvents,
+  Vec2,
+} from "./types";
+
+// A circle registered for this tick's collision checks
+interface Collider {
+  body: CollisionBody;
+  x: number;
+  y: number;
+  radius: number;
+  order: number; // Position in the order colliders were added
+  active: boolean; // Cleared once the object is used up, e.g. a bullet that has hit
+  lastQuery: number; // Query that last looked at this collider, so one spanning several cells is tested once
+}
+
+// Any object that can be registered on one of the layers
+type LayerObject = CollisionLayers[CollisionLayer];
+
+// A pair of layers to test against each other and what to do when they touch
+interface OverlapRule {
+  first: CollisionLayer;
+  second: CollisionLayer;
+  handler: (first: LayerObject, second: LayerObject) => void;
+}
+
+/**
+ * Finds overlapping circles on the circular playfield.
+ * Colliders are bucketed into a polar grid of rings and sectors around the
+ * centre, so each one is only tested against its neighbours rather than
+ * against everything on screen. Every overlap is resolved, in the order the
+ * rules were added, and reported as a collision event before its handler runs.
+ */
+export class CollisionWorld {
+  private events: EventBus<SimulationEvents>;
+  private ringWidth: number;
+  private ringCount: number;
+  private sectorCount: number;
+  private sectorAngle: number;
+  private cells: Collider[][] = [];
+  private colliders: Map<object, Collider> = new Map();
+  private rules: OverlapRule[] = [];
+  private queryCount: number = 0;
+
+  /**
+   * @param outerRadius Radius covered by the rings; anything further out shares the outermost ring
+   * @param ringCount Number of rings between the centre and outerRadius
+   * @param sectorCount Number of slices each ring is cut into
+   */
+  constructor(
+    events: EventBus<SimulationEvents>,
+    outerRadius: number,
+    ringCount: number = 6,
+    sectorCount: number = 16
+  ) {
+    this.events = events;
+    this.ringWidth = outerRadius / ringCount;
+    this.ringCount = ringCount;
+    this.sectorCount = sectorCount;
+    this.sectorAngle = (Math.PI * 2) / sectorCount;
+
+    for (let i = 0; i < ringCount * sectorCount; i++) {
+      this.cells.push([]);
+    }
+  }
+
+  /**
+   * Call handler for every overlap between the two layers when resolve() runs
+   */
+  public onOverlap<A extends CollisionLayer, B extends CollisionLayer>(
+    first: A,
+    second: B,
+    handler: (first: CollisionLayers[A], second: CollisionLayers[B]) => void
+  ): void {
+    // Only ever called with objects from the rule's own layers
+    this.rules.push({
+      first,
+      second,
+      handler: handler as OverlapRule["handler"],
+    });
+  }
+
+  /**
+   * Forget every collider, ready for the next tick's positions
+   */
+  public clear(): void {
+    for (const cell of this.cells) {
+      cell.length = 0;
+    }
+    this.colliders.clear();
+  }
+
+  /**
+   * Register an object as a circle for this tick
+   */
+  public add<L extends CollisionLayer>(
+    layer: L,
+    object: CollisionLayers[L],
+    position: Vec2,
+    radius: number
+  ): void {
+    const collider: Collider = {
+      body: { layer, object } as CollisionBody,
+      x: position.x,
+      y: position.y,
+      radius,
+      order: this.colliders.size,
+      active: true,
+      lastQuery: 0,
+    };
+    this.colliders.set(object, collider);
+
+    this.forEachCell(collider, (cell) => cell.push(collider));
+  }
+
+  /**
+   * Take an object out of any further collisions this tick,
+   * e.g. a bullet that has already hit something
+   */
+  public remove(object: object): void {
+    const collider = this.colliders.get(object);
+    if (collider) {
+      collider.active = false;
+    }
+  }
+
+  /**
+   * Test every rule and run its handler for each overlapping pair
+   */
+  public resolve(): void {
+    for (const rule of this.rules) {
+      // Snapshot the first layer, since handlers may add or remove colliders
+      const firsts = Array.from(this.colliders.values()).filter(
+        (collider) => collider.body.layer === rule.first
+      );
+
+      for (const first of firsts) {
+        this.resolveCollider(first, rule);
+      }
+    }
+  }
+
+  private resolveCollider(first: Collider, rule: OverlapRule): void {
+    const query = ++this.queryCount;
+    const hits: Collider[] = [];
+
+    this.forEachCell(first, (cell) => {
+      for (const second of cell) {
+        if (second.lastQuery === query) continue;
+        second.lastQuery = query;
+
+        if (second.body.layer !== rule.second || second === first) continue;
+
+        const dx = first.x - second.x;
+        const dy = first.y - second.y;
+        const reach = first.radius + second.radius;
+        if (dx * dx + dy * dy < reach * reach) {
+          hits.push(second);
+        }
+      }
+    });
+
+    // Resolve hits in the order their objects were added, not by cell
+    hits.sort((a, b) => a.order - b.order);
+
+    for (const second of hits) {
+      // An earlier hit may have used either object up
+      if (!first.active) return;
+      if (!second.active) continue;
+
+      this.events.emit("collision", {
+        first: first.body,
+        second: second.body,
+      });
+      rule.handler(first.body.object, second.body.object);
+    }
+  }
+
+  // Visit each grid cell a collider's circle touches
+  private forEachCell(
+    collider: Collider,
+    visit: (cell: Collider[]) => void
+  ): void {
+    const distance = Math.sqrt(
+      collider.x * collider.x + collider.y * collider.y
+    );
+    const innerRing = this.getRing(distance - collider.radius);
+    const outerRing = this.getRing(distance + collider.radius);
+
+    let firstSector = 0;
+    let sectorSpan = this.sectorCount;
+
+    // A circle covering the centre touches every sector
+    if (collider.radius < distance) {
+      const angle = Math.atan2(collider.y, collider.x);
+      const halfWidth = Math.asin(collider.radius / distance);
+      firstSector = Math.floor((angle - halfWidth) / this.sectorAngle);
+      const lastSector = Math.floor((angle + halfWidth) / this.sectorAngle);
+      sectorSpan = Math.min(this.sectorCount, lastSector - firstSector + 1);
+    }
+
+    for (let ring = innerRing; ring <= outerRing; ring++) {
+      for (let i = 0; i < sectorSpan; i++) {
+        const sector =
+          (((firstSector + i) % this.sectorCount) + this.sectorCount) %
+          this.sectorCount;
+        visit(this.cells[ring * this.sectorCount + sector]);
+      }
+    }
+  }
+
+  private getRing(distance: number): number {
+    const ring = Math.floor(distance / this.ringWidth);
+    return Math.max(0, Math.min(this.ringCount - 1, ring));
+  }
+}
@@ -0,0 +1,199 @@
+import { GameState } from "../types";
+import { SimulationState, Explosion, Vec2 } from "./types";
+import { Enemy } from "./enemy";
+import { Level } from "./levels";
+import { SpawnTableEntry } from "./levelDefinitions";
+import { Simulation } from "./simulation";
+
+// Blast left behind when an enemy or bomb reaches the level boundary
+const explosionRadius = 2.0;
+const explosionDuration = 0.5; // Seconds of game time
+
+export class EnemyManager {
+  private simulation: Simulation;
+  private gameState: GameState;
+  private state: SimulationState;
+
+  constructor(simulation: Simulation) {
+    this.simulation = simulation;
+    this.gameState = simulation.gameState;
+    this.state = simulation.state;
+  }
+
+  /**
+   * Send an enemy out from the centre. The debug forced type, if set,
+   * overrides the type asked for.
+   * @param type Enemy type, or null to pick one from the level's spawn table
+   * @param spawnTable Weights to pick from instead of the level's, e.g. a
+   * spawn wave's own
+   * @param spoke Spoke to come up, or null to leave it to the enemy
+   */
+  createEnemy(
+    level: Level,
+    type: number | null = null,
+    spawnTable: SpawnTableEntry[] | null = null,
+    spoke: number | null = null
+  ): Enemy {
+    // Use forced enemy type if available, otherwise random
+    let enemyType;
+    if (this.state.forcedEnemyType !== undefined) {
+      enemyType = this.state.forcedEnemyType;
+    } else if (type !== null) {
+      enemyType = type;
+    } else {
+      enemyType = this.pickSpawnType(level, spawnTable);
+    }
+
+    // Enemies start at the center
+    return this.spawnEnemy(level, enemyType, { x: 0, y: 0 }, spoke);
+  }
+
+  // Weighted random choice among the spawn table entries allowed. A table
+  // of its own is taken as it is; the level's skips types it doesn't allow.
+  private pickSpawnType(
+    level: Level,
+    spawnTable: SpawnTableEntry[] | null
+  ): number {
+    const { enemyTypes } = level.definition;
+    const entries = spawnTable
+      ? spawnTable.filter((entry) => entry.weight > 0)
+      : level.definition.spawnTable.filter(
+          (entry) => enemyTypes.includes(entry.type) && entry.weight > 0
+        );
+
+    const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+    let roll = this.gameState.random.next() * totalWeight;
+    for (const entry of entries) {
+      roll -= entry.weight;
+      if (roll < 0) return entry.type;
+    }
+
+    // Only reached through rounding on the last entry
+    return entries[entries.length - 1].type;
+  }
+
+  // Add an enemy of the given type to the run
+  spawnEnemy(
+    level: Level,
+    type: number,
+    position: Vec2,
+    spoke: number | null = null
+  ): Enemy {
+    const enemy = new Enemy(this.simulation, level, type, position, spoke);
+    this.addEnemy(enemy);
+    return enemy;
+  }
+
+  // Add a level's boss at the centre
+  spawnBoss(level: Level, type: number, hitPoints: number): Enemy {
+    const enemy = new Enemy(this.simulation, level, type, { x: 0, y: 0 });
+    enemy.makeBoss(hitPoints);
+    this.addEnemy(enemy);
+    return enemy;
+  }
+
+  private addEnemy(enemy: Enemy): void {
+    this.state.enemies.push(enemy);
+    this.simulation.events.emit("enemySpawned", { enemy });
+  }
+
+  update(delta: number, level: Level): void {
+    // Move all enemies based on their movement style
+    for (const enemy of this.state.enemies) {
+      // Use the unified update method for all enemy types
+      enemy.update(delta);
+    }
+
+    // Remove enemies that are past the level radius
+    this.removeOffscreenEnemies(level);
+  }
+
+  removeOffscreenEnemies(level: Level): void {
+    // Remove enemies that are past the level boundary
+    for (let i = this.state.enemies.length - 1; i >= 0; i--) {
+      const enemy = this.state.enemies[i];
+
+      // Crawlers are already at the rim, after the player
+      if (enemy.isCrawling) continue;
+
+      if (level.collidesWithEnemy(enemy)) {
+        if (enemy.definition.crawlsAtRim) {
+          enemy.startCrawling();
+          continue;
+        }
+
+        if (enemy.definition.explodesAtRim) {
+          // Create explosion at the boundary
+          this.createBoundaryExplosion(enemy, level);
+        }
+
+        this.gameState.score -= Math.floor(enemy.getPoints() / 2);
+        if (this.gameState.score < 0) {
+          this.gameState.score = 0;
+        }
+        this.simulation.events.emit("scoreChanged", { score: this.gameState.score });
+
+        // Remove the enemy
+        this.state.enemies.splice(i, 1);
+        this.simulation.events.emit("enemyEscaped", { enemy });
+      }
+    }
+  }
+
+  // Create an explosion at the level boundary when an enemy collides with it
+  private createBoundaryExplosion(enemy: Enemy, level: Level): void {
+    // The point on the rim the enemy has reached
+    const explosionPosition = level.shape.getNearestPoint(enemy.position);
+
+    // Create the explosion at the determined position
+    this.createExplosionAtPosition(explosionPosition, enemy);
+  }
+
+  /**
+   * Create an explosion at a specific position that can hit the player
+   * while it expands, holds and contracts
+   * @param enemy The enemy that caused it, if any, so renderers can match its colour
+   */
+  createExplosionAtPosition(position: Vec2, enemy: Enemy | null): void {
+    const scheduler = this.state.scheduler;
+    const explosion: Explosion = {
+      position: { x: position.x, y: position.y },
+      radius: 0, // Start at 0 and expand
+      maxRadius: explosionRadius,
+      startTime: scheduler.now(),
+      duration: explosionDuration,
+    };
+
+    // Add to tracked explosions
+    this.state.explosions.push(explosion);
+    this.simulation.events.emit("explosionStarted", { explosion, enemy });
+
+    const removeExplosion = () => {
+      const explosionIndex = this.state.explosions.indexOf(explosion);
+      if (explosionIndex !== -1) {
+        this.state.explosions.splice(explosionIndex, 1);
+      }
+      this.simulation.events.emit("explosionEnded", { explosion });
+    };
+
+    scheduler.tween({
+      duration: explosion.duration,
+      onUpdate: (progress) => {
+        // Update radius based on animation phase
+        if (progress < 0.3) {
+          // Fast expansion phase (0 to 30% of animation)
+          explosion.radius = explosion.maxRadius * (progress / 0.3);
+        } else if (progress < 0.7) {
+          // Hold at maximum radius (30% to 70% of animation)
+          explosion.radius = explosion.maxRadius;
+        } else {
+          // Contract from max radius back to 0 (70% to 100% of animation)
+          const contractionProgress = (progress - 0.7) / 0.3;
+          explosion.radius = explosion.maxRadius * (1 - contractionProgress);
+        }
+      },
+      onComplete: removeExplosion,
+      onCancel: removeExplosion,
+    });
+  }
+}
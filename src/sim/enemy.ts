@@ -0,0 +1,274 @@
+import { GameState } from "../types";
+import { SimulationState, MovementController, GuideLine, Vec2 } from "./types";
+import {
+  EnemyDeathBehavior,
+  EnemyDefinition,
+  EnemyPulse,
+  EnemyWeapon,
+  getEnemyDefinition,
+  shardEnemyType,
+} from "./enemyDefinitions";
+import { Level } from "./levels";
+import { RimCrawlMovementController } from "./movementControllers";
+import { Simulation } from "./simulation";
+
+// How much bigger a boss is than others of its type
+export const bossScale = 2;
+
+// Bosses are worth this many times their type's usual points
+const bossPointsMultiplier = 10;
+
+// Class representing an individual enemy
+export class Enemy {
+  public position: Vec2;
+  public distanceFromCenter: number;
+  public speed: number;
+  public type: number;
+  public readonly definition: EnemyDefinition; // What the type looks like and how it behaves
+  public size: number;
+  public hitPoints: number;
+  public maxHitPoints: number;
+  public isBoss: boolean = false; // The enemy a boss level's objective is to shoot down
+  public isCrawling: boolean = false; // Crawling along the rim after the player
+  public readonly spawnSpoke: number | null; // Spoke a spawn wave sent it up, if any
+  public gameState: GameState; // Public for access by controllers
+  public state: SimulationState; // Public for access by controllers
+  public level: Level;
+  private simulation: Simulation;
+  private lastFireTime: number = 0; // Track time since last bullet fired
+  private pulseTime: number = 0; // Seconds until the next pulse, for enemies that pulse
+  private pulseTimeLeft: number = 0; // Seconds the pulse under way still has to run
+  private movementController: MovementController;
+  private points: number;
+
+  constructor(
+    simulation: Simulation,
+    level: Level,
+    type: number,
+    position: Vec2,
+    spawnSpoke: number | null = null
+  ) {
+    this.simulation = simulation;
+    this.position = { x: position.x, y: position.y };
+    this.distanceFromCenter = Math.sqrt(
+      position.x * position.x + position.y * position.y
+    );
+    this.type = type;
+    this.definition = getEnemyDefinition(type);
+    this.gameState = simulation.gameState;
+    this.state = simulation.state;
+    this.level = level;
+    this.spawnSpoke = spawnSpoke;
+
+    this.points = this.definition.points;
+    this.hitPoints = this.definition.hitPoints;
+    this.maxHitPoints = this.hitPoints; // Renderers show the remaining share as a health bar
+    this.speed = this.state.enemySpeed * this.definition.speedMultiplier;
+
+    this.movementController = this.definition.createController(this);
+
+    // Randomize size slightly
+    this.size = this.definition.size + this.gameState.random.next() * 0.1;
+
+    if (this.definition.pulse) {
+      this.pulseTime = this.pickPulseInterval(this.definition.pulse);
+    }
+  }
+
+  // Update enemy position based on movement style
+  update(delta: number): void {
+    // Use the movement controller to update position and angle
+    const result = this.movementController.update(delta);
+
+    // Increment distance from center for all movement types
+    this.distanceFromCenter = Math.sqrt(
+      result.x * result.x + result.y * result.y
+    );
+
+    // Apply the position from the controller
+    this.position = { x: result.x, y: result.y };
+
+    if (this.definition.weapon) {
+      this.tryFire(delta, this.definition.weapon);
+    }
+
+    if (this.definition.pulse) {
+      this.updatePulse(delta, this.definition.pulse);
+    }
+  }
+
+  // Blow the enemy up, e.g. when it is shot down or the level is cleared.
+  // Only enemies the player destroys split into others.
+  explode(byPlayer: boolean): void {
+    this.simulation.events.emit("enemyKilled", { enemy: this, byPlayer });
+
+    if (byPlayer && this.definition.onDeath) {
+      this.split(this.definition.onDeath);
+    }
+  }
+
+  // Handle getting hit by a bullet
+  // Returns true if the enemy was destroyed, false if it just lost a hit point
+  takeDamage(): boolean {
+    // Reduce hit points
+    this.hitPoints--;
+
+    // Let renderers flash the enemy and update its health bar
+    this.simulation.events.emit("enemyDamaged", { enemy: this });
+
+    // If hit points reached zero, return true (enemy destroyed)
+    return this.hitPoints <= 0;
+  }
+
+  // Turn the enemy into a level's boss, bigger, tougher and worth more
+  makeBoss(hitPoints: number): void {
+    this.isBoss = true;
+    this.hitPoints = hitPoints;
+    this.maxHitPoints = hitPoints;
+    this.size *= bossScale;
+    this.points *= bossPointsMultiplier;
+  }
+
+  // Stay at the rim and crawl along it after the player rather than escaping
+  startCrawling(): void {
+    this.isCrawling = true;
+    this.movementController = new RimCrawlMovementController(this);
+  }
+
+  // Highlight the enemy for a while, e.g. while it spawns shards
+  flash(duration: number): void {
+    this.simulation.events.emit("enemyFlashed", { enemy: this, duration });
+  }
+
+  // Spawn a shard at the given position
+  spawnShard(position: Vec2): void {
+    this.simulation.enemyManager.spawnEnemy(
+      this.level,
+      shardEnemyType,
+      position
+    );
+  }
+
+  // Grow the spike up a spoke to at least the given length
+  laySpike(spoke: number, length: number): void {
+    this.simulation.spikeField.lay(spoke, length);
+  }
+
+  // Lane the enemy's pulse is charging, if one is under way
+  getElectrifiedLane(): number | null {
+    if (this.pulseTimeLeft <= 0) return null;
+    const angle = Math.atan2(this.position.y, this.position.x);
+    return this.level.getLaneIndexAt(angle);
+  }
+
+  // Whether shots pass through it just now
+  isShielded(): boolean {
+    return this.movementController.isShielded?.() ?? false;
+  }
+
+  // Line the movement controller is projecting, if any
+  getGuideLine(): GuideLine | null {
+    if (!this.movementController.getGuideLine) return null;
+    return this.movementController.getGuideLine();
+  }
+
+  public getPoints(): number {
+    return this.points;
+  }
+
+  // Fire the weapon whenever its interval has passed
+  private tryFire(delta: number, weapon: EnemyWeapon): void {
+    // Add time to last fire counter
+    this.lastFireTime += delta;
+
+    const fireInterval =
+      weapon.minInterval +
+      this.gameState.random.next() * (weapon.maxInterval - weapon.minInterval);
+
+    if (this.lastFireTime > fireInterval) {
+      this.lastFireTime = 0; // Reset fire timer
+      this.fire(weapon);
+    }
+  }
+
+  // Count down to the next pulse, flashing as a warning just before it
+  private updatePulse(delta: number, pulse: EnemyPulse): void {
+    if (this.pulseTimeLeft > 0) {
+      this.pulseTimeLeft -= delta;
+      return;
+    }
+
+    const wasWarning = this.pulseTime <= pulse.warning;
+    this.pulseTime -= delta;
+    if (!wasWarning && this.pulseTime <= pulse.warning) {
+      this.flash(pulse.warning + pulse.duration);
+    }
+
+    if (this.pulseTime <= 0) {
+      this.pulseTimeLeft = pulse.duration;
+      this.pulseTime = this.pickPulseInterval(pulse);
+    }
+  }
+
+  private pickPulseInterval(pulse: EnemyPulse): number {
+    return (
+      pulse.minInterval +
+      this.gameState.random.next() * (pulse.maxInterval - pulse.minInterval)
+    );
+  }
+
+  // Angle from this enemy toward the player on the level edge
+  private getAngleToPlayer(): number {
+    const target = this.state.playerPosition;
+    return Math.atan2(target.y - this.position.y, target.x - this.position.x);
+  }
+
+  // Fire a shot toward the player on the level edge, a little off target,
+  // or for less accurate weapons sometimes anywhere at all
+  private fire(weapon: EnemyWeapon): void {
+    let aimAngle: number;
+    if (
+      weapon.aimChance >= 1 ||
+      this.gameState.random.next() < weapon.aimChance
+    ) {
+      const error =
+        this.gameState.random.next() * weapon.spread * 2 - weapon.spread;
+      aimAngle = this.getAngleToPlayer() + error;
+    } else {
+      aimAngle = this.gameState.random.next() * Math.PI * 2;
+    }
+
+    this.simulation.addEnemyBullet({
+      position: { x: this.position.x, y: this.position.y },
+      direction: { x: Math.cos(aimAngle), y: Math.sin(aimAngle) },
+      speed: weapon.speed,
+      fromEnemy: true,
+      isBomb: weapon.type === "bomb",
+    });
+  }
+
+  // Burst into smaller enemies where this one was
+  private split(behavior: EnemyDeathBehavior): void {
+    const count =
+      behavior.minCount +
+      this.gameState.random.int(behavior.maxCount - behavior.minCount + 1);
+
+    const angle = Math.atan2(this.position.y, this.position.x);
+    const spoke = this.level.getSpokeIndexAt(angle);
+
+    for (let i = 0; i < count; i++) {
+      // Alternately either side, a spoke further out each pair
+      const side = i % 2 === 0 ? -1 : 1;
+      const steps = side * (Math.floor(i / 2) + 1);
+
+      this.simulation.enemyManager.spawnEnemy(
+        this.level,
+        behavior.enemyType,
+        this.position,
+        behavior.neighbouringSpokes
+          ? this.level.getSpokeIndexFrom(spoke, steps)
+          : null
+      );
+    }
+  }
+}
@@ -0,0 +1,428 @@
+import { MovementController } from "./types";
+import { Enemy } from "./enemy";
+import {
+  SpokeMovementController,
+  SpokeCrossingMovementController,
+  ZigzagMovementController,
+  CircularMovementController,
+  FuseballMovementController,
+  HomingMovementController,
+  PiMovementController,
+  ErraticMovementController,
+  BounceMovementController,
+  LinearMovementController,
+  SpikerMovementController,
+  FlipperMovementController,
+} from "./movementControllers";
+
+// The small, fast enemy others burst into or shed
+export const shardEnemyType = 10;
+
+// Tankers carry a pair of these
+export const flipperEnemyType = 11;
+
+// Mesh an enemy is drawn with, in world units. Renderers build it; the
+// simulation only carries it along.
+export type EnemyGeometry =
+  | { type: "sphere"; radius: number }
+  | { type: "tetrahedron"; radius: number }
+  | { type: "octahedron"; radius: number }
+  | { type: "dodecahedron"; radius: number }
+  | { type: "icosahedron"; radius: number }
+  | { type: "torus"; radius: number; tube: number }
+  | { type: "cone"; radius: number; height: number; sides: number }
+  | { type: "box"; size: number }
+  | {
+      type: "ring";
+      innerRadius: number;
+      outerRadius: number;
+      segments: number;
+    };
+
+export interface EnemyColor {
+  hue: number; // From 0 to 1
+  hueVariation?: number; // Each enemy's hue is picked at random up to this much higher
+  glow: number; // Emissive intensity
+}
+
+// Shots an enemy fires at the player while it moves
+export interface EnemyWeapon {
+  type: "bullet" | "bomb"; // Bombs blow up where they cross the rim
+  minInterval: number; // Seconds between shots, drawn afresh every tick
+  maxInterval: number;
+  speed: number; // Distance per tick at the reference tick rate
+  spread: number; // Largest error in the aim either way, in radians
+  aimChance: number; // Chance of aiming at the player rather than anywhere at all
+}
+
+// Charge an enemy sends down the lane it's in now and then, deadly to the
+// player on that lane while it lasts
+export interface EnemyPulse {
+  minInterval: number; // Seconds between pulses
+  maxInterval: number;
+  warning: number; // Seconds the enemy flashes before each pulse
+  duration: number;
+}
+
+// What an enemy leaves behind when it's destroyed
+export type EnemyDeathBehavior = {
+  type: "split"; // Bursts into a random number of enemies where it was
+  enemyType: number;
+  minCount: number;
+  maxCount: number;
+  neighbouringSpokes?: boolean; // Sends them up the spokes either side, from as far up
+};
+
+/**
+ * Everything that makes an enemy type what it is. Level spawn tables,
+ * replays and the editor refer to types by number.
+ */
+export interface EnemyDefinition {
+  name: string;
+  geometry: EnemyGeometry;
+  color: EnemyColor;
+  size: number; // Collision radius, before a little random variation
+  hitPoints: number;
+  speedMultiplier: number; // Of the run's current enemy speed
+  points: number; // Scored for shooting it down; half is lost if it escapes
+  spawnable: boolean; // Levels can spawn it, rather than it only splitting off others
+  explodesAtRim: boolean; // Blows up where it escapes, which can hit the player
+  crawlsAtRim: boolean; // Stays at the rim to crawl along it after the player
+  createController: (enemy: Enemy) => MovementController;
+  weapon?: EnemyWeapon;
+  pulse?: EnemyPulse;
+  onDeath?: EnemyDeathBehavior;
+}
+
+const enemyDefinitions: Map<number, EnemyDefinition> = new Map();
+
+// Stands in for types nothing was registered for, e.g. in an old level file
+const unknownEnemy: EnemyDefinition = {
+  name: "Unknown",
+  geometry: { type: "sphere", radius: 0.4 },
+  color: { hue: 0.6, glow: 0.5 },
+  size: 0.3,
+  hitPoints: 1,
+  speedMultiplier: 1.0,
+  points: 3,
+  spawnable: false,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new SpokeMovementController(enemy),
+};
+
+/**
+ * Add an enemy type under the given number
+ * @throws Error if the number is already taken
+ */
+export function registerEnemy(type: number, definition: EnemyDefinition): void {
+  if (enemyDefinitions.has(type)) {
+    throw new Error(`Enemy type ${type} is already registered`);
+  }
+  enemyDefinitions.set(type, definition);
+}
+
+export function getEnemyDefinition(type: number): EnemyDefinition {
+  return enemyDefinitions.get(type) ?? unknownEnemy;
+}
+
+/**
+ * Whether a value, e.g. one read from a level file, names a registered type
+ */
+export function isEnemyType(type: unknown): type is number {
+  return enemyDefinitions.has(type as number);
+}
+
+/**
+ * Types levels can spawn, in number order
+ */
+export function getSpawnableEnemyTypes(): number[] {
+  return [...enemyDefinitions.entries()]
+    .filter(([, definition]) => definition.spawnable)
+    .map(([type]) => type)
+    .sort((a, b) => a - b);
+}
+
+// Pi levels give pi followers the symbol to follow; elsewhere they take the spokes
+function followPiOrSpokes(
+  enemy: Enemy,
+  speed: number,
+  canJumpBetweenParts: boolean
+): MovementController {
+  if (enemy.level.definition.shape.type === "pi") {
+    return new PiMovementController(enemy, speed, canJumpBetweenParts);
+  }
+  return new SpokeMovementController(enemy);
+}
+
+// Blues through purples, one step per type
+const typeHue = (type: number) => 0.6 + type / 30;
+
+registerEnemy(0, {
+  name: "Follower",
+  geometry: { type: "sphere", radius: 0.4 },
+  color: { hue: typeHue(0), glow: 0.5 },
+  size: 0.3,
+  hitPoints: 1,
+  speedMultiplier: 1.0,
+  points: 3,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new SpokeMovementController(enemy),
+  onDeath: {
+    type: "split",
+    enemyType: shardEnemyType,
+    minCount: 1,
+    maxCount: 4,
+  },
+});
+
+registerEnemy(1, {
+  name: "Crosser",
+  geometry: { type: "tetrahedron", radius: 0.4 },
+  color: { hue: typeHue(1), glow: 0.5 },
+  size: 0.35,
+  hitPoints: 2,
+  speedMultiplier: 0.9,
+  points: 4,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: true,
+  createController: (enemy) => new SpokeCrossingMovementController(enemy),
+});
+
+registerEnemy(2, {
+  name: "Speeder",
+  geometry: { type: "octahedron", radius: 0.4 },
+  color: { hue: typeHue(2), glow: 0.5 },
+  size: 0.4,
+  hitPoints: 2,
+  speedMultiplier: 1.5,
+  points: 6,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new SpokeMovementController(enemy),
+});
+
+registerEnemy(3, {
+  name: "Zigzagger",
+  geometry: { type: "dodecahedron", radius: 0.4 },
+  color: { hue: typeHue(3), glow: 0.5 },
+  size: 0.45,
+  hitPoints: 3,
+  speedMultiplier: 1.1,
+  points: 7,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: true,
+  createController: (enemy) => new ZigzagMovementController(enemy),
+});
+
+registerEnemy(4, {
+  name: "Orbiter",
+  geometry: { type: "icosahedron", radius: 0.4 },
+  color: { hue: typeHue(4), glow: 0.5 },
+  size: 0.5,
+  hitPoints: 3,
+  speedMultiplier: 0.8,
+  points: 9,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new CircularMovementController(enemy),
+});
+
+registerEnemy(5, {
+  name: "Bouncer",
+  geometry: { type: "torus", radius: 0.3, tube: 0.1 },
+  color: { hue: typeHue(5), glow: 0.5 },
+  size: 0.55,
+  hitPoints: 4,
+  speedMultiplier: 1.2,
+  points: 10,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new BounceMovementController(enemy),
+});
+
+registerEnemy(6, {
+  name: "Chaotic",
+  geometry: { type: "cone", radius: 0.4, height: 0.8, sides: 6 },
+  color: { hue: typeHue(6), glow: 0.5 },
+  size: 0.6,
+  hitPoints: 4,
+  speedMultiplier: 0.9,
+  points: 12,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new ErraticMovementController(enemy),
+});
+
+registerEnemy(7, {
+  name: "Hunter",
+  geometry: { type: "cone", radius: 0.4, height: 0.8, sides: 7 },
+  color: { hue: typeHue(7), glow: 0.5 },
+  size: 0.65,
+  hitPoints: 5,
+  speedMultiplier: 0.7,
+  points: 10,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new HomingMovementController(enemy),
+});
+
+registerEnemy(8, {
+  name: "Pi-follower",
+  geometry: { type: "box", size: 0.5 },
+  color: { hue: typeHue(8), glow: 0.5 },
+  size: 0.7,
+  hitPoints: 6,
+  speedMultiplier: 0.8,
+  points: 15,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => followPiOrSpokes(enemy, 0.2, false),
+  weapon: {
+    type: "bullet",
+    minInterval: 2,
+    maxInterval: 3,
+    speed: 0.2,
+    spread: 0.1,
+    aimChance: 1,
+  },
+});
+
+registerEnemy(9, {
+  name: "Advanced Pi-follower",
+  geometry: { type: "ring", innerRadius: 0.2, outerRadius: 0.4, segments: 9 },
+  color: { hue: typeHue(9), glow: 0.5 },
+  size: 0.75,
+  hitPoints: 8,
+  speedMultiplier: 1.0,
+  points: 17,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  // Faster along the symbol, and can zip across to another part of it
+  createController: (enemy) => followPiOrSpokes(enemy, 0.3, true),
+  weapon: {
+    type: "bomb",
+    minInterval: 3,
+    maxInterval: 5,
+    speed: 0.15,
+    spread: 0.25,
+    aimChance: 0.7,
+  },
+});
+
+registerEnemy(shardEnemyType, {
+  name: "Shard",
+  geometry: { type: "sphere", radius: 0.2 },
+  color: { hue: 0.3, hueVariation: 0.1, glow: 0.7 }, // Green to yellowish-green
+  size: 0.8,
+  hitPoints: 1,
+  speedMultiplier: 3.0,
+  points: 5,
+  spawnable: false,
+  explodesAtRim: false,
+  crawlsAtRim: false,
+  createController: (enemy) => new LinearMovementController(enemy),
+});
+
+// The classic Tempest line-up, drawn in its own colours
+
+registerEnemy(flipperEnemyType, {
+  name: "Flipper",
+  geometry: { type: "tetrahedron", radius: 0.45 },
+  color: { hue: 0, glow: 0.6 }, // Red
+  size: 0.4,
+  hitPoints: 1,
+  speedMultiplier: 1.1,
+  points: 5,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: true,
+  // Flips lane to lane quickly and often
+  createController: (enemy) =>
+    new FlipperMovementController(enemy, {
+      minInterval: 0.5,
+      maxInterval: 1.5,
+      duration: 0.25,
+    }),
+});
+
+registerEnemy(12, {
+  name: "Tanker",
+  geometry: { type: "box", size: 0.7 },
+  color: { hue: 0.8, glow: 0.4 }, // Purple
+  size: 0.6,
+  hitPoints: 3,
+  speedMultiplier: 0.6,
+  points: 12,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new SpokeMovementController(enemy),
+  onDeath: {
+    type: "split",
+    enemyType: flipperEnemyType,
+    minCount: 2,
+    maxCount: 2,
+    neighbouringSpokes: true,
+  },
+});
+
+registerEnemy(13, {
+  name: "Spiker",
+  geometry: { type: "icosahedron", radius: 0.35 },
+  color: { hue: 0.33, glow: 0.6 }, // Green
+  size: 0.45,
+  hitPoints: 2,
+  speedMultiplier: 1.0,
+  points: 8,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new SpikerMovementController(enemy),
+});
+
+registerEnemy(14, {
+  name: "Fuseball",
+  geometry: { type: "sphere", radius: 0.35 },
+  color: { hue: 0, hueVariation: 1, glow: 0.8 }, // Any colour at all
+  size: 0.45,
+  hitPoints: 1,
+  speedMultiplier: 0.8,
+  points: 15,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  createController: (enemy) => new FuseballMovementController(enemy),
+});
+
+registerEnemy(15, {
+  name: "Pulsar",
+  geometry: { type: "ring", innerRadius: 0.15, outerRadius: 0.4, segments: 4 },
+  color: { hue: 0.15, glow: 0.7 }, // Yellow
+  size: 0.45,
+  hitPoints: 2,
+  speedMultiplier: 0.8,
+  points: 12,
+  spawnable: true,
+  explodesAtRim: true,
+  crawlsAtRim: false,
+  // Rolls over lazily, giving its pulses time to catch the player
+  createController: (enemy) =>
+    new FlipperMovementController(enemy, {
+      minInterval: 2,
+      maxInterval: 3.5,
+      duration: 0.9,
+    }),
+  pulse: { minInterval: 3, maxInterval: 5, warning: 0.6, duration: 1 },
+});
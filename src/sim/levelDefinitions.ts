@@ -0,0 +1,387 @@
+import circleLevel from "../levels/circle.json";
+import spiralLevel from "../levels/spiral.json";
+import starLevel from "../levels/star.json";
+import waveLevel from "../levels/wave.json";
+import piSymbolLevel from "../levels/piSymbol.json";
+import barLevel from "../levels/bar.json";
+import vShapeLevel from "../levels/vShape.json";
+import uShapeLevel from "../levels/uShape.json";
+import halfCircleLevel from "../levels/halfCircle.json";
+import { Vec2 } from "./types";
+import { isPolygonAroundCentre } from "./levelShapes";
+import { generateLevelDefinition } from "./levelGenerator";
+import { getSpawnableEnemyTypes, isEnemyType } from "./enemyDefinitions";
+
+// Outline of a level, with the parameters its shape type needs
+export type ShapeDefinition =
+  | { type: "circle" }
+  | { type: "spiral"; turns: number } // Turns of the arm, more than 1; its outermost coil is the rim
+  | { type: "star"; points: number; innerRatio: number } // Inner corners as a fraction of the radius
+  | { type: "wave"; amplitude: number; frequency: number } // Ripple height as a fraction of the radius, ripples per radian
+  | { type: "pi" }
+  | { type: "polygon"; vertices: Vec2[] } // Rim corners as fractions of the radius, in any order
+  // Open rims with two ends the player stops at, hanging below the centre.
+  // Sizes are fractions of the radius.
+  | { type: "bar"; width: number; depth: number }
+  | { type: "v"; width: number; depth: number }
+  | { type: "u"; width: number; depth: number }
+  | { type: "halfCircle" };
+
+// How a level turns while it's played. Speeds are in radians per second,
+// positive is counter-clockwise.
+export type RotationScript =
+  | { type: "none" }
+  | { type: "constant"; speed: number }
+  | {
+      type: "alternating"; // Starts in a random direction and flips after a random wait
+      speed: number;
+      minInterval: number; // Seconds
+      maxInterval: number;
+    };
+
+// What clears a level. Until it's met the blood moon keeps on growing.
+export type LevelObjective =
+  | { type: "waves" } // Get through every one of the level's spawn waves
+  | { type: "survive"; mark: number } // Last until the blood moon is this fraction of the way to the rim
+  | { type: "boss"; enemyType: number; hitPoints: number; delay: number }; // Shoot down one big enemy, which comes out after delay seconds
+
+// CSS-style colour strings, e.g. "#3399ff"
+export interface LevelColors {
+  rim: string;
+  detail?: string; // The spiral arm, star or polygon fill, pi symbol, wave ripples or open rim ends; defaults to the rim colour
+  spokes: string;
+  spokeOpacity: number;
+}
+
+export interface SpawnTableEntry {
+  type: number; // Enemy type
+  weight: number; // Relative chance of being picked
+}
+
+// Which spokes a group of enemies comes up. Spokes count anticlockwise from
+// the first, and wrap round.
+export type SpawnFormation =
+  | { type: "random" } // Each picks its own, as random spawns do
+  | { type: "spokes"; spokes: number[] } // Round these spokes in turn
+  | { type: "column"; spoke?: number } // All up the one spoke, a random one if not given
+  | { type: "ring" }; // Spread evenly round the rim from a random spoke
+
+// Enemies sent out together partway through a wave
+export interface SpawnGroup {
+  at: number; // Seconds after the wave starts
+  count: number;
+  type?: number; // Picked from the wave's or level's spawn table for each enemy if not given
+  interval?: number; // Seconds between the group's enemies; all at once if not given
+  formation?: SpawnFormation; // Random spokes if not given
+}
+
+/**
+ * A stretch of a level's spawning. Each wave waits until the last one's
+ * enemies are all gone, then gives a quiet beat before it starts.
+ * Authored waves list their groups; the rest send out a count of enemies
+ * at the usual random pace.
+ */
+export interface SpawnWave {
+  pause?: number; // Seconds of quiet first; 0 for the first wave and 2 for the rest if not given
+  groups?: SpawnGroup[];
+  count?: number; // Random spawns, if there are no groups
+  spawnTable?: SpawnTableEntry[]; // Weights for this wave in place of the level's
+}
+
+export interface LevelDefinition {
+  name: string;
+  shape: ShapeDefinition;
+  spokeCount: number;
+  colors: LevelColors;
+  rotation: RotationScript;
+  objective: LevelObjective;
+  timeLimit: number; // Seconds before the blood moon reaches the rim
+  enemyTypes: number[]; // Types allowed to spawn on this level
+  spawnTable: SpawnTableEntry[]; // Weights for random spawns; types not in enemyTypes are skipped
+  spawnWaves?: SpawnWave[]; // Run in order, then random spawning takes over; random throughout if not given
+  music: { key: string; scale: string }; // Passed to the background music
+}
+
+const shapeTypes = [
+  "circle",
+  "spiral",
+  "star",
+  "wave",
+  "pi",
+  "polygon",
+  "bar",
+  "v",
+  "u",
+  "halfCircle",
+];
+const rotationTypes = ["none", "constant", "alternating"];
+const objectiveTypes = ["waves", "survive", "boss"];
+const formationTypes = ["random", "spokes", "column", "ring"];
+
+function isNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+// Spoke numbers can run past the level's spoke count and wrap round, but
+// can't go below the first spoke
+function isSpokeNumber(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/**
+ * Check that parsed JSON is a usable level definition
+ * @throws Error naming the level and the first problem found
+ */
+export function parseLevelDefinition(data: unknown): LevelDefinition {
+  const level = data as LevelDefinition;
+  const fail = (problem: string): never => {
+    throw new Error(`Level "${level?.name ?? "?"}": ${problem}`);
+  };
+
+  if (typeof level !== "object" || level === null) fail("not an object");
+  if (typeof level.name !== "string") fail("missing name");
+
+  const shape = level.shape as Record<string, unknown>;
+  if (!shape || !shapeTypes.includes(shape.type as string)) {
+    fail("unknown shape type");
+  }
+  for (const [key, value] of Object.entries(shape)) {
+    if (key !== "type" && key !== "vertices" && !isNumber(value)) {
+      fail(`shape ${key} must be a number`);
+    }
+  }
+  if (shape.type === "polygon") {
+    const vertices = shape.vertices as Vec2[];
+    if (
+      !Array.isArray(vertices) ||
+      !vertices.every((vertex) => isNumber(vertex?.x) && isNumber(vertex?.y))
+    ) {
+      fail("polygon vertices must be x, y points");
+    }
+    if (!isPolygonAroundCentre(vertices)) {
+      fail("polygon needs at least 3 vertices surrounding the centre");
+    }
+  }
+
+  if (
+    shape.type === "star" &&
+    !(Number.isInteger(shape.points) && (shape.points as number) >= 2)
+  ) {
+    fail("star needs a whole number of at least 2 points");
+  }
+
+  if (shape.type === "spiral" && !((shape.turns as number) > 1)) {
+    fail("spiral needs more than 1 turn");
+  }
+
+  if (
+    (shape.type === "bar" || shape.type === "v" || shape.type === "u") &&
+    !((shape.width as number) > 0 && (shape.depth as number) > 0)
+  ) {
+    fail(`${shape.type} needs a positive width and depth`);
+  }
+
+  if (!Number.isInteger(level.spokeCount) || level.spokeCount < 1) {
+    fail("spokeCount must be a whole number of at least 1");
+  }
+
+  const colors = level.colors;
+  if (
+    !colors ||
+    typeof colors.rim !== "string" ||
+    typeof colors.spokes !== "string" ||
+    !isNumber(colors.spokeOpacity)
+  ) {
+    fail("colors need rim, spokes and spokeOpacity");
+  }
+
+  const rotation = level.rotation;
+  if (!rotation || !rotationTypes.includes(rotation.type)) {
+    fail("unknown rotation type");
+  }
+  if (rotation.type !== "none" && !isNumber(rotation.speed)) {
+    fail("rotation speed must be a number");
+  }
+  if (
+    rotation.type === "alternating" &&
+    !(rotation.minInterval <= rotation.maxInterval)
+  ) {
+    fail("rotation needs minInterval <= maxInterval");
+  }
+
+  const objective = level.objective;
+  if (!objective || !objectiveTypes.includes(objective.type)) {
+    fail("unknown objective type");
+  }
+  if (objective.type === "waves" && !level.spawnWaves?.length) {
+    fail("waves objective needs spawnWaves");
+  }
+  if (
+    objective.type === "survive" &&
+    !(objective.mark > 0 && objective.mark < 1)
+  ) {
+    fail("survive objective needs a mark between 0 and 1");
+  }
+  if (
+    objective.type === "boss" &&
+    !getSpawnableEnemyTypes().includes(objective.enemyType)
+  ) {
+    fail(
+      `boss objective enemyType ${JSON.stringify(objective.enemyType)} ` +
+        "is not a spawnable enemy type"
+    );
+  }
+  if (
+    objective.type === "boss" &&
+    !(
+      Number.isInteger(objective.hitPoints) &&
+      objective.hitPoints >= 1 &&
+      objective.delay >= 0
+    )
+  ) {
+    fail("boss objective needs hit points and a delay");
+  }
+
+  if (!isNumber(level.timeLimit) || level.timeLimit <= 0) {
+    fail("timeLimit must be positive");
+  }
+
+  if (!Array.isArray(level.enemyTypes) || !Array.isArray(level.spawnTable)) {
+    fail("enemyTypes and spawnTable must be lists");
+  }
+  checkEnemyTypes(
+    [...level.enemyTypes, ...level.spawnTable.map((entry) => entry?.type)],
+    (problem) => fail(`enemyTypes and spawnTable ${problem}`)
+  );
+  const spawnable = level.spawnTable.filter(
+    (entry) => level.enemyTypes.includes(entry.type) && entry.weight > 0
+  );
+  if (spawnable.length === 0) fail("spawnTable has no allowed enemy types");
+
+  if (level.spawnWaves !== undefined) {
+    if (!Array.isArray(level.spawnWaves)) fail("spawnWaves must be a list");
+    level.spawnWaves.forEach((wave, index) =>
+      checkSpawnWave(wave, (problem) => fail(`wave ${index + 1} ${problem}`))
+    );
+  }
+
+  if (
+    !level.music ||
+    typeof level.music.key !== "string" ||
+    typeof level.music.scale !== "string"
+  ) {
+    fail("music needs a key and scale");
+  }
+
+  return level;
+}
+
+function checkSpawnWave(
+  wave: SpawnWave,
+  fail: (problem: string) => never
+): void {
+  if (typeof wave !== "object" || wave === null) fail("is not an object");
+  if (wave.pause !== undefined && !(wave.pause >= 0)) {
+    fail("pause must not be negative");
+  }
+
+  if (wave.groups === undefined) {
+    if (!(Number.isInteger(wave.count) && wave.count! >= 1)) {
+      fail("needs groups or a count of at least 1");
+    }
+  } else if (!Array.isArray(wave.groups) || wave.groups.length === 0) {
+    fail("groups must be a non-empty list");
+  }
+
+  for (const group of wave.groups ?? []) {
+    if (!(group.at >= 0)) fail("group needs an at time of 0 or more");
+    if (!(Number.isInteger(group.count) && group.count >= 1)) {
+      fail("group count must be a whole number of at least 1");
+    }
+    if (group.interval !== undefined && !(group.interval >= 0)) {
+      fail("group interval must not be negative");
+    }
+    if (group.type !== undefined) {
+      checkEnemyTypes([group.type], (problem) => fail(`group ${problem}`));
+    }
+
+    const formation = group.formation;
+    if (formation && !formationTypes.includes(formation.type)) {
+      fail("group has an unknown formation type");
+    }
+    if (
+      formation?.type === "spokes" &&
+      !(
+        Array.isArray(formation.spokes) &&
+        formation.spokes.length > 0 &&
+        formation.spokes.every(isSpokeNumber)
+      )
+    ) {
+      fail("spokes formation needs a list of spoke numbers of 0 or more");
+    }
+    if (
+      formation?.type === "column" &&
+      formation.spoke !== undefined &&
+      !isSpokeNumber(formation.spoke)
+    ) {
+      fail("column formation spoke must be a whole number of 0 or more");
+    }
+  }
+
+  // Groups without a type of their own pick from a spawn table
+  const table = wave.spawnTable;
+  if (table !== undefined) {
+    if (!Array.isArray(table)) fail("spawnTable must be a list");
+    checkEnemyTypes(
+      table.map((entry) => entry?.type),
+      (problem) => fail(`spawnTable ${problem}`)
+    );
+    if (!table.some((entry) => entry.weight > 0)) {
+      fail("spawnTable needs an entry with a positive weight");
+    }
+  }
+}
+
+// Catch enemy types that aren't registered, e.g. typos in a level file,
+// rather than leave them to spawn as unknown enemies
+function checkEnemyTypes(
+  types: unknown[],
+  fail: (problem: string) => never
+): void {
+  const index = types.findIndex((type) => !isEnemyType(type));
+  if (index !== -1) {
+    fail(`has unknown enemy type ${JSON.stringify(types[index])}`);
+  }
+}
+
+/**
+ * The authored levels, in the order they're played
+ */
+export const levelDefinitions: LevelDefinition[] = [
+  circleLevel,
+  spiralLevel,
+  starLevel,
+  waveLevel,
+  piSymbolLevel,
+  barLevel,
+  vShapeLevel,
+  uShapeLevel,
+  halfCircleLevel,
+].map(parseLevelDefinition);
+
+/**
+ * Definition for a level number, starting at 1. Once the authored levels
+ * run out, new ones are generated that get harder as the number goes up.
+ * @param seed Picks which set of generated levels to play; runs pass their own
+ */
+export function getLevelDefinition(
+  levelNumber: number,
+  seed: number = 0
+): LevelDefinition {
+  const count = levelDefinitions.length;
+  if (levelNumber <= count) return levelDefinitions[levelNumber - 1];
+
+  return parseLevelDefinition(
+    generateLevelDefinition(levelNumber, levelNumber - count, seed)
+  );
+}
@@ -0,0 +1,248 @@
+import { Random } from "../random";
+import {
+  LevelDefinition,
+  LevelObjective,
+  RotationScript,
+  ShapeDefinition,
+  SpawnWave,
+} from "./levelDefinitions";
+import { Vec2 } from "./types";
+import { getSpawnableEnemyTypes } from "./enemyDefinitions";
+
+// The first 200 decimal places of pi, which the generated shapes are read from
+const piDigits =
+  "14159265358979323846264338327950288419716939937510" +
+  "58209749445923078164062862089986280348253421170679" +
+  "82148086513282306647093844609550582231725359408128" +
+  "48111745028410270193852110555964462294895493038196";
+
+const musicKeys = ["c", "d", "e", "f", "g", "a", "b"];
+const musicScales = ["minor", "major", "minorPentatonic", "majorPentatonic"];
+
+// Points sampled round the curved rims
+const curveSegments = 64;
+
+// Reads successive pi digits from a starting place, wrapping round at the end
+class PiDigits {
+  private index: number;
+
+  constructor(start: number) {
+    this.index = start % piDigits.length;
+  }
+
+  public next(): number {
+    const digit = Number(piDigits[this.index]);
+    this.index = (this.index + 1) % piDigits.length;
+    return digit;
+  }
+}
+
+/**
+ * Build a level past the authored ones. The same level number and seed
+ * always give the same level, while each run's seed gives a new set.
+ * @param depth How many levels past the authored ones this is, from 1,
+ * which sets how hard and how fast it gets
+ */
+export function generateLevelDefinition(
+  levelNumber: number,
+  depth: number,
+  seed: number
+): LevelDefinition {
+  const random = new Random((seed ^ Math.imul(levelNumber, 0x9e3779b1)) >>> 0);
+  const digits = new PiDigits(random.int(piDigits.length));
+
+  let name: string;
+  let vertices: Vec2[];
+  let spokeCount: number;
+  switch (random.int(3)) {
+    case 0: {
+      // Corners spaced evenly round, each as far out as the next digit says,
+      // with a spoke on every corner and between them when they're sparse
+      const corners = 6 + digits.next();
+      vertices = createPiPolygon(corners, digits);
+      spokeCount = corners < 10 ? corners * 2 : corners;
+      name = "Pi Polygon";
+      break;
+    }
+    case 1:
+      vertices = createLissajousLoop(
+        1 + (digits.next() % 4),
+        1 + (digits.next() % 3),
+        0.1 + digits.next() * 0.02
+      );
+      spokeCount = 12 + random.int(9);
+      name = "Lissajous";
+      break;
+    default:
+      vertices = createSuperellipse(
+        0.5 + digits.next() * 0.3,
+        0.7 + random.next() * 0.3
+      );
+      spokeCount = 12 + random.int(9);
+      name = "Superellipse";
+      break;
+  }
+
+  // Higher levels lean towards the tougher enemy types, the later numbers
+  const toughness = Math.min(depth * 0.2, 3);
+  const enemyTypes = getSpawnableEnemyTypes();
+  const spawnTable = enemyTypes.map((type, i) => {
+    const weight = 1 + (i / (enemyTypes.length - 1)) * toughness;
+    return { type, weight: Math.round(weight * 100) / 100 };
+  });
+
+  const hue = random.next();
+  const shape: ShapeDefinition = { type: "polygon", vertices };
+  const rotation = createRotation(depth, random);
+  const objective = createObjective(depth, random);
+
+  return {
+    name: `${name} ${levelNumber}`,
+    shape,
+    spokeCount,
+    colors: {
+      rim: hslToHex(hue, 1, 0.6),
+      detail: hslToHex((hue + 0.1) % 1, 1, 0.75),
+      spokes: hslToHex(hue, 1, 0.6),
+      spokeOpacity: 0.5,
+    },
+    rotation,
+    objective,
+    timeLimit: Math.max(30, 60 - depth * 2),
+    enemyTypes,
+    spawnTable,
+    spawnWaves:
+      objective.type === "waves" ? createSpawnWaves(depth) : undefined,
+    music: {
+      key: musicKeys[random.int(musicKeys.length)],
+      scale: musicScales[random.int(musicScales.length)],
+    },
+  };
+}
+
+// Still at first, then more and more likely to turn, and faster, level by level
+function createRotation(depth: number, random: Random): RotationScript {
+  const speed = Math.min(0.1 + depth * 0.02, 0.4);
+  const roll = random.next();
+  const direction = random.next() < 0.5 ? 1 : -1;
+
+  if (roll < Math.max(0.6 - depth * 0.1, 0.1)) return { type: "none" };
+  if (roll < 0.7) return { type: "constant", speed: speed * direction };
+  return {
+    type: "alternating",
+    speed,
+    minInterval: 3,
+    maxInterval: Math.max(4, 10 - depth * 0.5),
+  };
+}
+
+// Mostly waves, with the odd level to survive or boss to shoot down
+function createObjective(depth: number, random: Random): LevelObjective {
+  const roll = random.next();
+  if (roll < 0.2) return { type: "survive", mark: 0.5 };
+  if (roll < 0.4) {
+    return {
+      type: "boss",
+      enemyType: 5 + random.int(5), // Bouncer to Advanced Pi-follower
+      hitPoints: Math.min(20 + depth * 5, 80),
+      delay: 8,
+    };
+  }
+
+  return { type: "waves" };
+}
+
+// Three waves building to a rush round the rim, bigger level by level but
+// still clearable before the shorter blood moon gets there
+function createSpawnWaves(depth: number): SpawnWave[] {
+  const size = Math.min(5 + Math.floor(depth / 3), 7);
+  const finale = size + 4;
+  return [
+    { count: size },
+    {
+      groups: [
+        { at: 0, count: size + 2, interval: 0.6, formation: { type: "ring" } },
+      ],
+    },
+    {
+      pause: 3,
+      groups: [
+        { at: 0, count: Math.ceil(finale / 2), interval: 1 },
+        {
+          at: 6,
+          count: Math.floor(finale / 2),
+          interval: 0.25,
+          formation: { type: "ring" },
+        },
+      ],
+    },
+  ];
+}
+
+// Rim corners from angle 0 round, at radii between 0.55 and 1 from pi digits
+function createPiPolygon(corners: number, digits: PiDigits): Vec2[] {
+  const vertices: Vec2[] = [];
+  for (let i = 0; i < corners; i++) {
+    const angle = (i / corners) * Math.PI * 2;
+    vertices.push(toVertex(angle, 0.55 + (digits.next() / 9) * 0.45));
+  }
+  return vertices;
+}
+
+// A circle pulled in and out by two crossed ripples, like a Lissajous figure
+// wrapped round the centre
+function createLissajousLoop(
+  a: number,
+  b: number,
+  pull: number // How far in the ripples reach, as a fraction of the radius
+): Vec2[] {
+  const vertices: Vec2[] = [];
+  for (let i = 0; i < curveSegments; i++) {
+    const angle = (i / curveSegments) * Math.PI * 2;
+    const ripple = Math.sin(a * angle) * Math.cos(b * angle);
+    vertices.push(toVertex(angle, 1 - pull * (1 + ripple)));
+  }
+  return vertices;
+}
+
+/**
+ * |x|^n + |y / height|^n = 1, from a pinched astroid when n is below 1 up
+ * to a rounded rectangle, scaled so its furthest point touches the radius
+ */
+function createSuperellipse(exponent: number, height: number): Vec2[] {
+  const radii: number[] = [];
+  for (let i = 0; i < curveSegments; i++) {
+    const angle = (i / curveSegments) * Math.PI * 2;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle)) / height;
+    radii.push(
+      Math.pow(Math.pow(cos, exponent) + Math.pow(sin, exponent), -1 / exponent)
+    );
+  }
+
+  const furthest = Math.max(...radii);
+  return radii.map((radius, i) =>
+    toVertex((i / curveSegments) * Math.PI * 2, radius / furthest)
+  );
+}
+
+// Point at an angle and fraction of the radius, rounded like editor levels
+function toVertex(angle: number, radius: number): Vec2 {
+  return {
+    x: Math.round(Math.cos(angle) * radius * 1000) / 1000,
+    y: Math.round(Math.sin(angle) * radius * 1000) / 1000,
+  };
+}
+
+// CSS colour for a hue, saturation and lightness, each from 0 to 1
+function hslToHex(hue: number, saturation: number, lightness: number): string {
+  const channel = (offset: number) => {
+    const k = (offset + hue * 12) % 12;
+    const a = saturation * Math.min(lightness, 1 - lightness);
+    const value = lightness - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(value * 255)
+      .toString(16)
+      .padStart(2, "0");
+  };
+  return `#${channel(0)}${channel(8)}${channel(4)}`;
+}
@@ -0,0 +1,670 @@
+import { Vec2 } from "./types";
+
+const fullTurn = Math.PI * 2;
+
+// Wrap an angle into [0, 2π)
+function normalizeAngle(angle: number): number {
+  const wrapped = angle % fullTurn;
+  return wrapped < 0 ? wrapped + fullTurn : wrapped;
+}
+
+// Where segment a-b crosses segment c-d, as a fraction along a-b, or null if they don't
+function intersectSegments(a: Vec2, b: Vec2, c: Vec2, d: Vec2): number | null {
+  const abX = b.x - a.x;
+  const abY = b.y - a.y;
+  const cdX = d.x - c.x;
+  const cdY = d.y - c.y;
+
+  const denominator = abX * cdY - abY * cdX;
+  if (Math.abs(denominator) < 1e-12) return null; // Parallel
+
+  const acX = c.x - a.x;
+  const acY = c.y - a.y;
+  const t = (acX * cdY - acY * cdX) / denominator;
+  const u = (acX * abY - acY * abX) / denominator;
+
+  return t >= 0 && t <= 1 && u >= 0 && u <= 1 ? t : null;
+}
+
+// The angle itself if it lies within span anticlockwise of start, otherwise
+// whichever end of that stretch is nearer
+function clampToSpan(angle: number, start: number, span: number): number {
+  const offset = normalizeAngle(angle - start);
+  if (offset <= span) return angle;
+
+  const pastEnd = offset - span;
+  const beforeStart = fullTurn - offset;
+  return pastEnd < beforeStart ? start + span : start;
+}
+
+// Angles an open rim covers, anticlockwise from start; end is always after start
+export interface AngleRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * The outline of a level that the player rides and enemies escape through.
+ * Rim positions are given as an angle around the centre, so every shape
+ * must meet each ray from the centre exactly once. Open rims only cover a
+ * range of angles; outside it they answer as if the rim carried on around
+ * at the radius of the nearer end.
+ */
+export interface LevelShape {
+  // Point on the rim in the direction of the given angle
+  getPointAt(angle: number): Vec2;
+
+  // Distance from the centre to the rim in the direction of the given angle
+  getRadiusAt(angle: number): number;
+
+  // Closest point on the rim to the given point
+  getNearestPoint(point: Vec2): Vec2;
+
+  // Outward unit normal of the rim in the direction of the given angle
+  getNormalAt(angle: number): Vec2;
+
+  // First point where the segment from start to end crosses the rim, if it does
+  intersectSegment(start: Vec2, end: Vec2): Vec2 | null;
+
+  // The angles an open rim covers between its two ends, or null for a closed loop
+  getAngleRange(): AngleRange | null;
+
+  // The nearest angle on the rim: the same angle on closed rims, held at the
+  // nearer end on open ones
+  clampAngle(angle: number): number;
+}
+
+/**
+ * Shared rim maths for any shape described by its radius at each angle.
+ * Subclasses only have to provide getRadiusAt; the rest is worked out
+ * numerically and can be overridden with exact versions.
+ */
+export abstract class RadialShape implements LevelShape {
+  public abstract getRadiusAt(angle: number): number;
+
+  public getAngleRange(): AngleRange | null {
+    return null;
+  }
+
+  public clampAngle(angle: number): number {
+    return angle;
+  }
+
+  public getPointAt(angle: number): Vec2 {
+    const radius = this.getRadiusAt(angle);
+    return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius };
+  }
+
+  public getNearestPoint(point: Vec2): Vec2 {
+    // Coarse search around the whole rim, then narrow in on the best sample
+    const samples = 256;
+    const step = fullTurn / samples;
+    let bestAngle = 0;
+    let bestDistance = Infinity;
+
+    for (let i = 0; i < samples; i++) {
+      const distance = this.getDistanceSquared(point, i * step);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestAngle = i * step;
+      }
+    }
+
+    let low = bestAngle - step;
+    let high = bestAngle + step;
+    for (let i = 0; i < 30; i++) {
+      const a = low + (high - low) / 3;
+      const b = high - (high - low) / 3;
+      if (
+        this.getDistanceSquared(point, a) < this.getDistanceSquared(point, b)
+      ) {
+        high = b;
+      } else {
+        low = a;
+      }
+    }
+
+    return this.getPointAt((low + high) / 2);
+  }
+
+  public getNormalAt(angle: number): Vec2 {
+    // Tangent of the polar curve r(θ), with dr/dθ estimated from either side
+    const h = 1e-4;
+    const radius = this.getRadiusAt(angle);
+    const slope =
+      (this.getRadiusAt(angle + h) - this.getRadiusAt(angle - h)) / (2 * h);
+    const tangentX = slope * Math.cos(angle) - radius * Math.sin(angle);
+    const tangentY = slope * Math.sin(angle) + radius * Math.cos(angle);
+
+    // The rim runs anticlockwise, so outward is to the right of the tangent
+    const length = Math.sqrt(tangentX * tangentX + tangentY * tangentY);
+    return { x: tangentY / length, y: -tangentX / length };
+  }
+
+  public intersectSegment(start: Vec2, end: Vec2): Vec2 | null {
+    // Walk along the segment until it changes side, then bisect the crossing
+    const steps = 32;
+    let previous = 0;
+    let previousSide = this.getSide(start);
+
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const side = this.getSide(this.lerp(start, end, t));
+
+      if (side !== previousSide) {
+        let low = previous;
+        let high = t;
+        for (let j = 0; j < 30; j++) {
+          const middle = (low + high) / 2;
+          if (this.getSide(this.lerp(start, end, middle)) === previousSide) {
+            low = middle;
+          } else {
+            high = middle;
+          }
+        }
+        return this.lerp(start, end, (low + high) / 2);
+      }
+
+      previous = t;
+      previousSide = side;
+    }
+
+    return null;
+  }
+
+  private getDistanceSquared(point: Vec2, angle: number): number {
+    const rimPoint = this.getPointAt(angle);
+    const dx = rimPoint.x - point.x;
+    const dy = rimPoint.y - point.y;
+    return dx * dx + dy * dy;
+  }
+
+  // True if the point is beyond the rim
+  private getSide(point: Vec2): boolean {
+    const distance = Math.sqrt(point.x * point.x + point.y * point.y);
+    return distance > this.getRadiusAt(Math.atan2(point.y, point.x));
+  }
+
+  private lerp(start: Vec2, end: Vec2, t: number): Vec2 {
+    return {
+      x: start.x + (end.x - start.x) * t,
+      y: start.y + (end.y - start.y) * t,
+    };
+  }
+}
+
+// A plain circle, used by circle and Pi levels
+export class CircleShape extends RadialShape {
+  private radius: number;
+
+  constructor(radius: number) {
+    super();
+    this.radius = radius;
+  }
+
+  public getRadiusAt(_angle: number): number {
+    return this.radius;
+  }
+
+  public getNearestPoint(point: Vec2): Vec2 {
+    return this.getPointAt(Math.atan2(point.y, point.x));
+  }
+
+  public getNormalAt(angle: number): Vec2 {
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  }
+
+  public intersectSegment(start: Vec2, end: Vec2): Vec2 | null {
+    // Solve |start + t(end - start)| = radius for the first t in [0, 1]
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const a = dx * dx + dy * dy;
+    const b = 2 * (start.x * dx + start.y * dy);
+    const c = start.x * start.x + start.y * start.y - this.radius * this.radius;
+
+    const discriminant = b * b - 4 * a * c;
+    if (a === 0 || discriminant < 0) return null;
+
+    const root = Math.sqrt(discriminant);
+    for (const t of [(-b - root) / (2 * a), (-b + root) / (2 * a)]) {
+      if (t >= 0 && t <= 1) {
+        return { x: start.x + dx * t, y: start.y + dy * t };
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * A polygon around the centre. Closed ones may list their vertices in any
+ * order, since they're sorted by angle, as long as no gap between neighbours
+ * reaches half a turn; see isPolygonAroundCentre. Open ones run anticlockwise
+ * from one end to the other and have no edge back to the start.
+ */
+export class PolygonShape extends RadialShape {
+  private vertices: Vec2[];
+  private vertexOffsets: number[] = [0]; // Angle of each vertex anticlockwise past the first
+  private startAngle: number;
+  private closed: boolean;
+
+  constructor(vertices: Vec2[], closed: boolean = true) {
+    super();
+    this.closed = closed;
+
+    const angleOf = (vertex: Vec2) =>
+      normalizeAngle(Math.atan2(vertex.y, vertex.x));
+    this.vertices = closed
+      ? [...vertices].sort((a, b) => angleOf(a) - angleOf(b))
+      : [...vertices];
+
+    this.startAngle = angleOf(this.vertices[0]);
+    for (let i = 1; i < this.vertices.length; i++) {
+      const step = normalizeAngle(
+        angleOf(this.vertices[i]) - angleOf(this.vertices[i - 1])
+      );
+      this.vertexOffsets.push(this.vertexOffsets[i - 1] + step);
+    }
+  }
+
+  public getAngleRange(): AngleRange | null {
+    if (this.closed) return null;
+
+    const span = this.vertexOffsets[this.vertexOffsets.length - 1];
+    return { start: this.startAngle, end: this.startAngle + span };
+  }
+
+  public clampAngle(angle: number): number {
+    if (this.closed) return angle;
+
+    const span = this.vertexOffsets[this.vertexOffsets.length - 1];
+    return clampToSpan(angle, this.startAngle, span);
+  }
+
+  public getRadiusAt(angle: number): number {
+    // Where the ray from the centre meets the edge spanning this angle
+    angle = this.clampAngle(angle);
+    const [start, end] = this.getEdge(this.getEdgeIndexAt(angle));
+
+    const dirX = Math.cos(angle);
+    const dirY = Math.sin(angle);
+    const edgeX = end.x - start.x;
+    const edgeY = end.y - start.y;
+
+    return (start.x * edgeY - start.y * edgeX) / (dirX * edgeY - dirY * edgeX);
+  }
+
+  public getNearestPoint(point: Vec2): Vec2 {
+    let nearest: Vec2 = this.vertices[0];
+    let nearestDistance = Infinity;
+
+    for (let i = 0; i < this.getEdgeCount(); i++) {
+      const [start, end] = this.getEdge(i);
+      const edgeX = end.x - start.x;
+      const edgeY = end.y - start.y;
+
+      // Project onto the edge and clamp to its ends
+      const t = Math.max(
+        0,
+        Math.min(
+          1,
+          ((point.x - start.x) * edgeX + (point.y - start.y) * edgeY) /
+            (edgeX * edgeX + edgeY * edgeY)
+        )
+      );
+      const candidate = { x: start.x + edgeX * t, y: start.y + edgeY * t };
+      const dx = candidate.x - point.x;
+      const dy = candidate.y - point.y;
+      const distance = dx * dx + dy * dy;
+
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = candidate;
+      }
+    }
+
+    return nearest;
+  }
+
+  public getNormalAt(angle: number): Vec2 {
+    const [start, end] = this.getEdge(
+      this.getEdgeIndexAt(this.clampAngle(angle))
+    );
+
+    // Edges run anticlockwise, so outward is to their right
+    const edgeX = end.x - start.x;
+    const edgeY = end.y - start.y;
+    const length = Math.sqrt(edgeX * edgeX + edgeY * edgeY);
+    return { x: edgeY / length, y: -edgeX / length };
+  }
+
+  public intersectSegment(start: Vec2, end: Vec2): Vec2 | null {
+    // Nearest crossing along the segment over all the polygon's edges
+    let nearest: number | null = null;
+
+    for (let i = 0; i < this.getEdgeCount(); i++) {
+      const [edgeStart, edgeEnd] = this.getEdge(i);
+      const t = intersectSegments(start, end, edgeStart, edgeEnd);
+      if (t !== null && (nearest === null || t < nearest)) {
+        nearest = t;
+      }
+    }
+
+    if (nearest === null) return null;
+    return {
+      x: start.x + (end.x - start.x) * nearest,
+      y: start.y + (end.y - start.y) * nearest,
+    };
+  }
+
+  // Index of the edge whose ends span the given angle
+  private getEdgeIndexAt(angle: number): number {
+    const offset = normalizeAngle(angle - this.startAngle);
+
+    // Past the last vertex is the closing edge back to the first
+    let index = 0;
+    for (let i = 0; i < this.vertexOffsets.length; i++) {
+      if (this.vertexOffsets[i] > offset) break;
+      index = i;
+    }
+
+    // Open rims end at their last vertex, which only its last edge reaches
+    return Math.min(index, this.getEdgeCount() - 1);
+  }
+
+  private getEdgeCount(): number {
+    return this.closed ? this.vertices.length : this.vertices.length - 1;
+  }
+
+  private getEdge(index: number): [Vec2, Vec2] {
+    return [
+      this.vertices[index % this.vertices.length],
+      this.vertices[(index + 1) % this.vertices.length],
+    ];
+  }
+}
+
+/**
+ * Whether the polygon through these points, taken in angle order, encloses
+ * the centre so that every ray from it meets the rim once
+ */
+export function isPolygonAroundCentre(vertices: Vec2[]): boolean {
+  if (vertices.length < 3) return false;
+
+  const angles = vertices
+    .map((vertex) => normalizeAngle(Math.atan2(vertex.y, vertex.x)))
+    .sort((a, b) => a - b);
+
+  for (let i = 0; i < angles.length; i++) {
+    const next = i + 1 < angles.length ? angles[i + 1] : angles[0] + fullTurn;
+    if (next - angles[i] >= Math.PI) return false;
+  }
+
+  return true;
+}
+
+/**
+ * Corners of a star alternating between outer points and inner corners
+ * @param points Number of outer points; the first sits at angle 0
+ * @param innerRatio Radius of the inner corners as a fraction of the outer radius
+ */
+export function getStarVertices(
+  radius: number,
+  points: number,
+  innerRatio: number
+): Vec2[] {
+  const vertices: Vec2[] = [];
+  const vertexCount = points * 2;
+
+  for (let i = 0; i < vertexCount; i++) {
+    const angle = (i / vertexCount) * fullTurn;
+    const r = i % 2 === 0 ? radius : radius * innerRatio;
+    vertices.push({ x: Math.cos(angle) * r, y: Math.sin(angle) * r });
+  }
+
+  return vertices;
+}
+
+/**
+ * Ends and corners of a straight bar below the centre, from left to right
+ * @param width Length of the bar as a fraction of the radius
+ * @param depth Distance below the centre as a fraction of the radius
+ */
+export function getBarVertices(
+  radius: number,
+  width: number,
+  depth: number
+): Vec2[] {
+  return [
+    { x: (-width / 2) * radius, y: -depth * radius },
+    { x: (width / 2) * radius, y: -depth * radius },
+  ];
+}
+
+/**
+ * Ends and point of a V opening upwards, with its ends level with the centre
+ * @param width Distance between the ends as a fraction of the radius
+ * @param depth Depth of the point below the centre as a fraction of the radius
+ */
+export function getVVertices(
+  radius: number,
+  width: number,
+  depth: number
+): Vec2[] {
+  return [
+    { x: (-width / 2) * radius, y: 0 },
+    { x: 0, y: -depth * radius },
+    { x: (width / 2) * radius, y: 0 },
+  ];
+}
+
+/**
+ * Ends and corners of a U opening upwards, with its ends level with the centre
+ * @param width Distance between the sides as a fraction of the radius
+ * @param depth Depth of the bottom below the centre as a fraction of the radius
+ */
+export function getUVertices(
+  radius: number,
+  width: number,
+  depth: number
+): Vec2[] {
+  return [
+    { x: (-width / 2) * radius, y: 0 },
+    { x: (-width / 2) * radius, y: -depth * radius },
+    { x: (width / 2) * radius, y: -depth * radius },
+    { x: (width / 2) * radius, y: 0 },
+  ];
+}
+
+// The lower half of a circle, from its left end round to its right end
+export function getHalfCircleVertices(radius: number): Vec2[] {
+  const segments = 32;
+  const vertices: Vec2[] = [];
+
+  for (let i = 0; i <= segments; i++) {
+    const angle = Math.PI + (i / segments) * Math.PI;
+    vertices.push({ x: Math.cos(angle) * radius, y: Math.sin(angle) * radius });
+  }
+
+  return vertices;
+}
+
+// A star polygon alternating between outer points and inner corners
+export class StarShape extends PolygonShape {
+  constructor(radius: number, points: number, innerRatio: number = 0.6) {
+    super(getStarVertices(radius, points, innerRatio));
+  }
+}
+
+// Gap left between the two ends of a spiral rim, so a player at the outer
+// end can't slip round onto the inner one
+const spiralSeamGap = 0.02;
+
+/**
+ * The outermost coil of an Archimedean spiral arm that winds anticlockwise
+ * out from the centre. It's open, with its inner end one coil's width in
+ * from its outer end, which sits on the full radius.
+ */
+export class SpiralShape extends RadialShape {
+  private radius: number;
+  private turns: number;
+  private startAngle: number; // Direction of the coil's inner end
+
+  /**
+   * @param turns Turns of the whole arm from the centre; must be more than 1
+   */
+  constructor(radius: number, turns: number) {
+    super();
+    this.radius = radius;
+    this.turns = turns;
+    this.startAngle = normalizeAngle((turns - 1) * fullTurn);
+  }
+
+  public getRadiusAt(angle: number): number {
+    const offset = normalizeAngle(this.clampAngle(angle) - this.startAngle);
+    return this.radius * (1 - (fullTurn - offset) / (this.turns * fullTurn));
+  }
+
+  public getAngleRange(): AngleRange | null {
+    return {
+      start: this.startAngle,
+      end: this.startAngle + fullTurn - spiralSeamGap,
+    };
+  }
+
+  public clampAngle(angle: number): number {
+    return clampToSpan(angle, this.startAngle, fullTurn - spiralSeamGap);
+  }
+}
+
+/**
+ * Points along an Archimedean spiral arm like SpiralShape's, winding
+ * anticlockwise from the centre out to the radius
+ * @param fromTurn Where to start along the arm, in turns from the centre
+ * @param toTurn Where to stop; the arm ends just short of its last turn
+ */
+export function getSpiralVertices(
+  radius: number,
+  turns: number,
+  fromTurn: number = 0,
+  toTurn: number = turns
+): Vec2[] {
+  const pointsPerTurn = 64;
+  const startAngle = fromTurn * fullTurn;
+  const endAngle = Math.min(
+    toTurn * fullTurn,
+    turns * fullTurn - spiralSeamGap
+  );
+  const segments = Math.max(
+    1,
+    Math.ceil(((endAngle - startAngle) / fullTurn) * pointsPerTurn)
+  );
+
+  const vertices: Vec2[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const angle = startAngle + (i / segments) * (endAngle - startAngle);
+    const r = (radius * angle) / (turns * fullTurn);
+    vertices.push({ x: Math.cos(angle) * r, y: Math.sin(angle) * r });
+  }
+
+  return vertices;
+}
+
+// A circle with a sine ripple around its edge
+export class WaveShape extends RadialShape {
+  private radius: number;
+  private amplitude: number;
+  private frequency: number;
+
+  /**
+   * @param amplitude Height of the ripple as a fraction of the radius
+   * @param frequency Ripples per radian; not a whole number of turns, so
+   * there's a seam at angle 0 just like the drawn wave
+   */
+  constructor(
+    radius: number,
+    amplitude: number = 0.05,
+    frequency: number = 3.14
+  ) {
+    super();
+    this.radius = radius;
+    this.amplitude = radius * amplitude;
+    this.frequency = frequency;
+  }
+
+  public getRadiusAt(angle: number): number {
+    return (
+      this.radius +
+      Math.sin(normalizeAngle(angle) * this.frequency) * this.amplitude
+    );
+  }
+}
+
+/**
+ * Another shape turned about the centre by a rotation that changes over
+ * time, so rim queries line up with a level drawn in a rotating group.
+ */
+export class RotatedShape implements LevelShape {
+  private shape: LevelShape;
+  private getRotation: () => number;
+
+  /**
+   * @param getRotation Current rotation in radians, read on every query
+   */
+  constructor(shape: LevelShape, getRotation: () => number) {
+    this.shape = shape;
+    this.getRotation = getRotation;
+  }
+
+  public getPointAt(angle: number): Vec2 {
+    return this.rotate(this.shape.getPointAt(angle - this.getRotation()), 1);
+  }
+
+  public getRadiusAt(angle: number): number {
+    return this.shape.getRadiusAt(angle - this.getRotation());
+  }
+
+  public getNearestPoint(point: Vec2): Vec2 {
+    const nearest = this.shape.getNearestPoint(this.rotate(point, -1));
+    return this.rotate(nearest, 1);
+  }
+
+  public getNormalAt(angle: number): Vec2 {
+    return this.rotate(this.shape.getNormalAt(angle - this.getRotation()), 1);
+  }
+
+  public intersectSegment(start: Vec2, end: Vec2): Vec2 | null {
+    const crossing = this.shape.intersectSegment(
+      this.rotate(start, -1),
+      this.rotate(end, -1)
+    );
+    return crossing ? this.rotate(crossing, 1) : null;
+  }
+
+  public getAngleRange(): AngleRange | null {
+    const range = this.shape.getAngleRange();
+    if (!range) return null;
+
+    const rotation = this.getRotation();
+    return { start: range.start + rotation, end: range.end + rotation };
+  }
+
+  public clampAngle(angle: number): number {
+    const rotation = this.getRotation();
+    const clamped = this.shape.clampAngle(angle - rotation);
+
+    // Hand back the very same angle when it's already on the rim
+    return clamped === angle - rotation ? angle : clamped + rotation;
+  }
+
+  // Turn a point by the current rotation, or back again when direction is -1
+  private rotate(point: Vec2, direction: 1 | -1): Vec2 {
+    const angle = this.getRotation() * direction;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+      x: point.x * cos - point.y * sin,
+      y: point.x * sin + point.y * cos,
+    };
+  }
+}
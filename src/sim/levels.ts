@@ -0,0 +1,357 @@
+import { Enemy } from "./enemy";
+import {
+  AngleRange,
+  CircleShape,
+  LevelShape,
+  PolygonShape,
+  RotatedShape,
+  SpiralShape,
+  StarShape,
+  WaveShape,
+  getBarVertices,
+  getHalfCircleVertices,
+  getSpiralVertices,
+  getUVertices,
+  getVVertices,
+} from "./levelShapes";
+import { LevelDefinition, getLevelDefinition } from "./levelDefinitions";
+import { Vec2 } from "./types";
+
+const fullTurn = Math.PI * 2;
+
+export interface SpokePosition {
+  angle: number; // Angle of the spoke in radians
+  outerX: number; // X coordinate at outer end of spoke
+  outerY: number; // Y coordinate at outer end of spoke
+  innerX: number; // X coordinate at inner end of spoke (0 unless it starts on a spiral's inner coil)
+  innerY: number; // Y coordinate at inner end of spoke
+}
+
+// Shape of a level: its outline, spokes and rotation. Drawing it is up to LevelView.
+export class Level {
+  public radius: number;
+  public levelNumber: number;
+  public readonly definition: LevelDefinition; // Shape, colours, rotation and spawning as authored
+  public spokeCount: number;
+  public spokePositions: SpokePosition[] = [];
+  public rotation: number = 0; // Current rotation of the whole level in radians
+  public readonly shape: LevelShape; // The rim the player rides and enemies escape through, as currently rotated
+
+  /**
+   * @param definition Defaults to the authored level for this level number
+   */
+  constructor(
+    levelNumber: number,
+    radius: number,
+    definition: LevelDefinition = getLevelDefinition(levelNumber)
+  ) {
+    this.radius = radius;
+    this.levelNumber = levelNumber;
+    this.definition = definition;
+    this.shape = new RotatedShape(this.createShape(), () => this.rotation);
+
+    this.spokeCount = definition.spokeCount;
+    this.createSpokes();
+  }
+
+  // Rotate the level by the given angle (in radians)
+  public rotateLevel(angle: number): void {
+    this.rotation += angle;
+
+    // Update all spoke positions
+    for (let i = 0; i < this.spokePositions.length; i++) {
+      const spoke = this.spokePositions[i];
+
+      // Update the spoke angle
+      spoke.angle += angle;
+
+      // Keep the outer end on the rotated rim
+      const outer = this.shape.getPointAt(spoke.angle);
+      spoke.outerX = outer.x;
+      spoke.outerY = outer.y;
+
+      // Inner ends off the centre turn with it
+      const innerRadius = this.getInnerRadiusAt(spoke.angle);
+      spoke.innerX = Math.cos(spoke.angle) * innerRadius;
+      spoke.innerY = Math.sin(spoke.angle) * innerRadius;
+    }
+  }
+
+  // Helper method to get the number of spokes in the level
+  public getSpokeCount(): number {
+    return this.spokeCount;
+  }
+
+  // Helper method to get the radius of the level
+  public getRadius(): number {
+    return this.radius;
+  }
+
+  // Helper method to get the spoke positions
+  public getSpokePositions(): SpokePosition[] {
+    return this.spokePositions;
+  }
+
+  /**
+   * How far out enemies emerge in the direction of the given angle: on a
+   * spiral's inner coil, one coil in from the rim, and at the centre otherwise
+   */
+  public getInnerRadiusAt(angle: number): number {
+    const shape = this.definition.shape;
+    if (shape.type !== "spiral") return 0;
+
+    const coilWidth = this.radius / shape.turns;
+    return Math.max(0, this.shape.getRadiusAt(angle) - coilWidth);
+  }
+
+  // The spoke nearest an angle, as currently rotated
+  public getSpokeIndexAt(angle: number): number {
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    this.spokePositions.forEach((spoke, index) => {
+      const difference = angle - spoke.angle;
+      const distance = Math.abs(
+        Math.atan2(Math.sin(difference), Math.cos(difference))
+      );
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = index;
+      }
+    });
+
+    return nearest;
+  }
+
+  // Whether the rim has two ends instead of looping all the way round
+  public isOpen(): boolean {
+    return this.shape.getAngleRange() !== null;
+  }
+
+  /**
+   * The spoke a number of steps round from another, positive steps going
+   * anticlockwise. Closed levels wrap round; open ones bounce back off their
+   * end spokes.
+   */
+  public getSpokeIndexFrom(index: number, steps: number): number {
+    const count = this.spokeCount;
+    if (!this.isOpen()) {
+      return (((index + steps) % count) + count) % count;
+    }
+    if (count === 1) return 0;
+
+    // Fold the walk back and forth along the row of spokes
+    const period = (count - 1) * 2;
+    const position = (((index + steps) % period) + period) % period;
+    return position < count ? position : period - position;
+  }
+
+  /**
+   * Number of lanes, the strips of rim between neighbouring spokes that the
+   * player snaps to in lane mode. Lane i runs from spoke i to the next one.
+   */
+  public getLaneCount(): number {
+    return this.isOpen() ? Math.max(this.spokeCount - 1, 1) : this.spokeCount;
+  }
+
+  // Angles of a lane's two spokes, as currently rotated
+  public getLaneSpan(lane: number): AngleRange {
+    const start = this.spokePositions[lane % this.spokeCount];
+    const end = this.spokePositions[(lane + 1) % this.spokeCount];
+
+    // Open rims never wrap, but a closed lane may cross angle 0
+    let width = end.angle - start.angle;
+    if (!this.isOpen()) {
+      width = ((width % fullTurn) + fullTurn) % fullTurn || fullTurn;
+    }
+    return { start: start.angle, end: start.angle + width };
+  }
+
+  // Angle halfway between a lane's two spokes, as currently rotated
+  public getLaneAngle(lane: number): number {
+    const span = this.getLaneSpan(lane);
+    return (span.start + span.end) / 2;
+  }
+
+  // The lane whose middle is nearest the given angle
+  public getLaneIndexAt(angle: number): number {
+    angle = this.shape.clampAngle(angle);
+
+    let nearest = 0;
+    let nearestDistance = Infinity;
+    for (let lane = 0; lane < this.getLaneCount(); lane++) {
+      const difference = angle - this.getLaneAngle(lane);
+      const distance = Math.abs(
+        Math.atan2(Math.sin(difference), Math.cos(difference))
+      );
+      if (distance < nearestDistance) {
+        nearestDistance = distance;
+        nearest = lane;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * The lane a number of steps round from another, positive steps going
+   * anticlockwise. Closed levels wrap round; open ones stop at their end lanes.
+   */
+  public getLaneIndexFrom(lane: number, steps: number): number {
+    const count = this.getLaneCount();
+    if (this.isOpen()) {
+      return Math.max(0, Math.min(count - 1, lane + steps));
+    }
+    return (((lane + steps) % count) + count) % count;
+  }
+
+  /**
+   * Pi symbol line segments as x,y,z triplets
+   * @param rotation Angle to turn them by; defaults to the level's current rotation
+   */
+  public getPiSymbolVertices(
+    scale: number = this.radius * 0.5,
+    rotation: number = this.rotation
+  ): number[] {
+    // Define the base vertices of the Pi symbol
+    const baseVertices = [
+      // Top horizontal line
+      -0.6 * scale,
+      0.5 * scale,
+      0,
+      0.6 * scale,
+      0.5 * scale,
+      0,
+
+      // Left vertical line
+      -0.4 * scale,
+      0.5 * scale,
+      0,
+      -0.4 * scale,
+      -0.5 * scale,
+      0,
+
+      // Right vertical line
+      0.4 * scale,
+      0.5 * scale,
+      0,
+      0.4 * scale,
+      -0.3 * scale,
+      0,
+    ];
+
+    // Apply the rotation to the vertices
+    const rotationZ = rotation;
+    const rotatedVertices = [...baseVertices]; // Copy the base vertices
+
+    // Apply rotation to each vertex (they are stored as x,y,z triplets)
+    for (let i = 0; i < rotatedVertices.length; i += 3) {
+      const x = rotatedVertices[i];
+      const y = rotatedVertices[i + 1];
+
+      // Apply rotation transform
+      rotatedVertices[i] = x * Math.cos(rotationZ) - y * Math.sin(rotationZ);
+      rotatedVertices[i + 1] =
+        x * Math.sin(rotationZ) + y * Math.cos(rotationZ);
+    }
+
+    return rotatedVertices;
+  }
+
+  /**
+   * Rim corners of a polygon or open level scaled up to the level's radius,
+   * or none for other shapes. Polygons come in angle order and open rims,
+   * including a spiral's outer coil, run anticlockwise from one end to the other.
+   */
+  public getRimVertices(): Vec2[] {
+    const shape = this.definition.shape;
+    switch (shape.type) {
+      case "polygon":
+        return shape.vertices
+          .map((vertex) => ({
+            x: vertex.x * this.radius,
+            y: vertex.y * this.radius,
+          }))
+          .sort((a, b) => Math.atan2(a.y, a.x) - Math.atan2(b.y, b.x));
+      case "bar":
+        return getBarVertices(this.radius, shape.width, shape.depth);
+      case "v":
+        return getVVertices(this.radius, shape.width, shape.depth);
+      case "u":
+        return getUVertices(this.radius, shape.width, shape.depth);
+      case "halfCircle":
+        return getHalfCircleVertices(this.radius);
+      case "spiral":
+        return getSpiralVertices(this.radius, shape.turns, shape.turns - 1);
+      default:
+        return [];
+    }
+  }
+
+  public collidesWithEnemy(enemy: Enemy): boolean {
+    // Get enemy position and size
+    const enemyPos = enemy.position;
+    const enemyDistanceFromCenter = Math.sqrt(
+      enemyPos.x * enemyPos.x + enemyPos.y * enemyPos.y
+    );
+
+    // Include the enemy's size in the collision check
+    // This ensures we detect collision when the enemy's edge touches the level boundary
+    const effectiveDistance = enemyDistanceFromCenter + enemy.size;
+
+    // Check if enemy has reached or passed the outer boundary of the level
+    const angle = Math.atan2(enemyPos.y, enemyPos.x);
+    return effectiveDistance >= this.shape.getRadiusAt(angle);
+  }
+
+  private createShape(): LevelShape {
+    const shape = this.definition.shape;
+    switch (shape.type) {
+      case "star":
+        return new StarShape(this.radius, shape.points, shape.innerRatio);
+      case "wave":
+        // Same ripple as the drawn wave rings
+        return new WaveShape(this.radius, shape.amplitude, shape.frequency);
+      case "spiral":
+        return new SpiralShape(this.radius, shape.turns);
+      case "polygon":
+        return new PolygonShape(this.getRimVertices());
+      case "bar":
+      case "v":
+      case "u":
+      case "halfCircle":
+        return new PolygonShape(this.getRimVertices(), false);
+      case "circle":
+      case "pi":
+      default:
+        return new CircleShape(this.radius);
+    }
+  }
+
+  // Lay out the spokes enemies travel along
+  private createSpokes(): void {
+    this.spokePositions = [];
+    const range = this.shape.getAngleRange();
+
+    for (let i = 0; i < this.spokeCount; i++) {
+      // Evenly spaced, starting at angle 0 where a star's first point sits.
+      // Open rims spread them from one end to the other, with a spoke at each.
+      const angle = range
+        ? range.start +
+          (this.spokeCount > 1 ? i / (this.spokeCount - 1) : 0.5) *
+            (range.end - range.start)
+        : (i / this.spokeCount) * Math.PI * 2;
+
+      // The outer end sits on the rim, following the wave on wave levels
+      const outerRadius = this.shape.getRadiusAt(angle);
+      const innerRadius = this.getInnerRadiusAt(angle);
+
+      this.spokePositions.push({
+        angle: angle,
+        outerX: Math.cos(angle) * outerRadius,
+        outerY: Math.sin(angle) * outerRadius,
+        innerX: Math.cos(angle) * innerRadius,
+        innerY: Math.sin(angle) * innerRadius,
+      });
+    }
+  }
+}
@@ -1,7 +1,17 @@
-import * as THREE from "three";
-import { MovementController } from "./types";
+import { GuideLine, MovementController, Vec2 } from "./types";
 import { Enemy } from "./enemy";
 import { SpokePosition } from "./levels";
+import { Random } from "../random";
+
+// How far inside the rim crawlers keep while they close in, out of reach
+// of the player but in the line of their shots
+const crawlInset = 1.2;
+
+// How far along the rim from the player a crawler climbs out to grab them
+const grabReach = 0.3;
+
+// How much faster crawlers go along the rim than they came up the tube
+const crawlSpeedFactor = 2;
 
 // Base class for all movement controllers
 abstract class BaseMovementController implements MovementController {
@@ -9,18 +19,49 @@ abstract class BaseMovementController implements MovementController {
   protected angle: number;
   constructor(enemy: Enemy) {
     this.enemy = enemy;
-    this.angle = Math.random() * Math.PI * 2;
+
+    // Somewhere over the rim, which only covers part of the turn on open levels
+    const range = enemy.level.shape.getAngleRange();
+    const roll = this.random.next();
+    this.angle = range
+      ? range.start + roll * (range.end - range.start)
+      : roll * Math.PI * 2;
+
+    // Or over the spoke a spawn wave sent it up
+    if (enemy.spawnSpoke !== null) {
+      const spokes = enemy.level.getSpokePositions();
+      this.angle = spokes[this.pickSpoke(spokes.length)].angle;
+    }
   }
 
-  abstract update(delta: number): { x: number; y: number };
+  // Gameplay random source for the current run
+  protected get random(): Random {
+    return this.enemy.gameState.random;
+  }
 
-  render?(scene: THREE.Scene): void {
-    // Optional rendering - override in subclasses if needed
+  // The spoke a spawn wave chose, wrapped round, or else a random one
+  protected pickSpoke(spokeCount: number): number {
+    const spoke = this.enemy.spawnSpoke;
+    if (spoke === null) return this.random.int(spokeCount);
+    return ((spoke % spokeCount) + spokeCount) % spokeCount;
   }
 
-  cleanup?(scene: THREE.Scene): void {
-    // Optional cleanup - override in subclasses if needed
+  /**
+   * How far up a spoke the enemy already is, in the distance spoke movement
+   * counts: nothing for enemies from the centre, part way for those that
+   * split off another enemy
+   */
+  protected getDistanceUpSpoke(spoke: SpokePosition): number {
+    const spokeX = spoke.outerX - spoke.innerX;
+    const spokeY = spoke.outerY - spoke.innerY;
+    const { x, y } = this.enemy.position;
+    const t =
+      ((x - spoke.innerX) * spokeX + (y - spoke.innerY) * spokeY) /
+      (spokeX * spokeX + spokeY * spokeY);
+    return Math.min(Math.max(t, 0), 1) * this.enemy.level.getRadius();
   }
+
+  abstract update(delta: number): Vec2;
 }
 
 // Simple spoke movement - straight outward along spokes
@@ -34,19 +75,19 @@ export class SpokeMovementController extends BaseMovementController {
     // Get the actual spoke position data
     const spokePositions = enemy.level.getSpokePositions();
 
-    // Randomly select a spoke
+    // Pick a spoke, unless a spawn wave already has
     const spokeCount = enemy.level.getSpokeCount();
-    const randomSpokeIndex = Math.floor(Math.random() * spokeCount);
+    const startSpokeIndex = this.pickSpoke(spokeCount);
 
     // Set the spoke position
     this.spokePosition =
-      spokePositions[randomSpokeIndex % spokePositions.length];
+      spokePositions[startSpokeIndex % spokePositions.length];
 
     // Update the angle for proper orientation (used by the enemy for visual effects)
     this.angle = this.spokePosition.angle;
   }
 
-  update(delta: number): { x: number; y: number } {
+  update(delta: number): Vec2 {
     this.distanceFromCenter += this.enemy.speed * delta * 30;
 
     // Calculate position along the spoke using the stored spoke position
@@ -73,8 +114,8 @@ export class SpokeCrossingMovementController extends BaseMovementController {
   protected extensionProgress: number = 0;
   protected isExtending: boolean = false;
   protected nextTransitionDistance: number;
-  protected extensionLine?: THREE.Line;
   protected maxJumpDistance: number = 1; // Only adjacent spokes by default
+  protected crossingSpeed: number = 8; // Crossings a second, once the line is out
   private distanceFromCenter: number = 0;
 
   constructor(enemy: Enemy) {
@@ -82,33 +123,36 @@ export class SpokeCrossingMovementController extends BaseMovementController {
     const spokeCount = enemy.level.getSpokeCount();
     this.spokePositions = enemy.level.getSpokePositions();
 
-    // Randomly select a starting spoke
-    this.spokeIndex = Math.floor(Math.random() * spokeCount);
+    // Pick a starting spoke, unless a spawn wave already has
+    this.spokeIndex = this.pickSpoke(spokeCount);
 
-    // Set initial transition distance
-    this.nextTransitionDistance = 1 + Math.random() * 2;
-
-    // Update the angle for proper orientation
+    // Update the angle for proper orientation, and start as far up the
+    // spoke as the enemy already is
     if (this.spokePositions.length > 0) {
       const currentSpoke =
         this.spokePositions[this.spokeIndex % this.spokePositions.length];
       this.angle = currentSpoke.angle;
+      this.distanceFromCenter = this.getDistanceUpSpoke(currentSpoke);
     }
+
+    // Set initial transition distance
+    this.nextTransitionDistance =
+      this.distanceFromCenter + 1 + this.random.next() * 2;
   }
 
   protected calculateTargetSpokeIndex(): number {
     // Choose a random direction and jump distance up to maxJumpDistance
-    const direction = Math.random() > 0.5 ? 1 : -1;
-    const jumpDistance = 1 + Math.floor(Math.random() * this.maxJumpDistance);
+    const direction = this.random.next() > 0.5 ? 1 : -1;
+    const jumpDistance = 1 + this.random.int(this.maxJumpDistance);
 
     // Get next spoke in the crossing direction
-    const spokeCount = this.enemy.level.getSpokeCount();
-    return (
-      (this.spokeIndex + direction * jumpDistance + spokeCount) % spokeCount
+    return this.enemy.level.getSpokeIndexFrom(
+      this.spokeIndex,
+      direction * jumpDistance
     );
   }
 
-  update(delta: number): { x: number; y: number } {
+  update(delta: number): Vec2 {
     this.distanceFromCenter += this.enemy.speed * delta * 30;
     const levelRadius = this.enemy.level.getRadius();
 
@@ -173,7 +217,7 @@ export class SpokeCrossingMovementController extends BaseMovementController {
 
       // Phase 2: Zipping along the extended line
       // Zip along line from current to target spoke
-      this.crossingProgress += delta * 8; // Speed of zip movement
+      this.crossingProgress += delta * this.crossingSpeed;
 
       // If crossing complete, transition to new spoke
       if (this.crossingProgress >= 1) {
@@ -186,7 +230,7 @@ export class SpokeCrossingMovementController extends BaseMovementController {
 
         // Set next transition distance
         this.nextTransitionDistance =
-          this.distanceFromCenter + 1 + Math.random() * 2;
+          this.distanceFromCenter + 1 + this.random.next() * 2;
 
         // Update the angle for proper orientation
         const newSpoke =
@@ -235,28 +279,14 @@ export class SpokeCrossingMovementController extends BaseMovementController {
     return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
   }
 
-  render(scene: THREE.Scene): void {
-    // Render extension line if in extension phase
-    if (this.isExtending && this.targetSpokeIndex !== null) {
-      this.updateExtensionLine(scene);
-    } else if (this.extensionLine) {
-      // Remove extension line when not in extension phase
-      scene.remove(this.extensionLine);
-      this.extensionLine = undefined;
-    }
-  }
-
-  cleanup(scene: THREE.Scene): void {
-    // Clean up extension line when enemy is removed
-    if (this.extensionLine) {
-      scene.remove(this.extensionLine);
-      this.extensionLine = undefined;
-    }
-  }
-
-  protected updateExtensionLine(scene: THREE.Scene): void {
-    if (this.targetSpokeIndex === null || this.spokePositions.length === 0)
-      return;
+  // While extending, a line reaches from the current spoke toward the target
+  getGuideLine(): GuideLine | null {
+    if (
+      !this.isExtending ||
+      this.targetSpokeIndex === null ||
+      this.spokePositions.length === 0
+    )
+      return null;
 
     // Get the current and target spoke positions
     const currentSpoke =
@@ -280,67 +310,177 @@ export class SpokeCrossingMovementController extends BaseMovementController {
     const targetY =
       targetSpoke.innerY + (targetSpoke.outerY - targetSpoke.innerY) * targetT;
 
-    // Create vector positions for line endpoints
-    const startPos = new THREE.Vector3(currentX, currentY, 0);
-    const endPos = new THREE.Vector3(targetX, targetY, 0);
-
-    // Create or update line
-    if (!this.extensionLine) {
-      // Create line geometry
-      const lineGeometry = new THREE.BufferGeometry();
-      const linePositions = new Float32Array([
-        startPos.x,
-        startPos.y,
-        startPos.z,
-        endPos.x,
-        endPos.y,
-        endPos.z,
-      ]);
-
-      lineGeometry.setAttribute(
-        "position",
-        new THREE.BufferAttribute(linePositions, 3)
-      );
+    return {
+      start: { x: currentX, y: currentY },
+      end: { x: targetX, y: targetY },
+    };
+  }
+}
 
-      // Create line material - color matches enemy
-      const enemyMaterial = this.enemy.mesh
-        .material as THREE.MeshStandardMaterial;
-      const lineMaterial = new THREE.LineBasicMaterial({
-        color: enemyMaterial.color,
-        linewidth: 2,
-        opacity: 0.7,
-        transparent: true,
-      });
+// Zigzag movement - extends a line and zips between multiple spokes
+export class ZigzagMovementController extends SpokeCrossingMovementController {
+  constructor(enemy: Enemy) {
+    super(enemy);
+    // Allow jumping to any spoke, not just adjacent ones
+    this.maxJumpDistance = 3; // Can jump up to 3 spokes away
+  }
+}
 
-      // Create line and add to scene
-      this.extensionLine = new THREE.Line(lineGeometry, lineMaterial);
-      scene.add(this.extensionLine);
-    } else {
-      // Update existing line
-      const positions = this.extensionLine.geometry.attributes.position
-        .array as Float32Array;
+// How often a flipping enemy flips and how long each flip takes, in seconds
+export interface FlipTiming {
+  minInterval: number; // Climbing between flips
+  maxInterval: number;
+  duration: number;
+}
+
+// Flipper movement - climbs a spoke and every so often flips end over end
+// onto a neighbouring one, swinging out round the point halfway between them
+export class FlipperMovementController extends BaseMovementController {
+  private timing: FlipTiming;
+  private spokeIndex: number;
+  private targetSpokeIndex: number | null = null; // Spoke it's flipping onto, if mid-flip
+  private flipProgress: number = 0; // From 0 to 1 over the flip
+  private flipTime: number; // Seconds of climbing until the next flip
+  private distanceFromCenter: number = 0;
+
+  constructor(enemy: Enemy, timing: FlipTiming) {
+    super(enemy);
+    this.timing = timing;
+    this.spokeIndex = this.pickSpoke(enemy.level.getSpokeCount());
 
-      // Update start position
-      positions[0] = startPos.x;
-      positions[1] = startPos.y;
-      positions[2] = startPos.z;
+    // Start as far up the spoke as the enemy already is, e.g. out of a tanker
+    const spoke = enemy.level.getSpokePositions()[this.spokeIndex];
+    this.angle = spoke.angle;
+    this.distanceFromCenter = this.getDistanceUpSpoke(spoke);
+
+    this.flipTime = this.pickFlipInterval();
+  }
 
-      // Update end position
-      positions[3] = endPos.x;
-      positions[4] = endPos.y;
-      positions[5] = endPos.z;
+  update(delta: number): Vec2 {
+    const level = this.enemy.level;
 
-      this.extensionLine.geometry.attributes.position.needsUpdate = true;
+    if (this.targetSpokeIndex === null) {
+      this.distanceFromCenter += this.enemy.speed * delta * 30;
+
+      this.flipTime -= delta;
+      if (this.flipTime <= 0) {
+        const direction = this.random.next() < 0.5 ? -1 : 1;
+        this.targetSpokeIndex = level.getSpokeIndexFrom(
+          this.spokeIndex,
+          direction
+        );
+        this.flipProgress = 0;
+      }
+    } else {
+      this.flipProgress += delta / this.timing.duration;
+      if (this.flipProgress >= 1) {
+        this.spokeIndex = this.targetSpokeIndex;
+        this.targetSpokeIndex = null;
+        this.flipTime = this.pickFlipInterval();
+      }
+    }
+
+    const spokes = level.getSpokePositions();
+    const t = this.distanceFromCenter / level.getRadius();
+    const from = getPointUpSpoke(spokes[this.spokeIndex], t);
+    if (this.targetSpokeIndex === null) {
+      this.angle = spokes[this.spokeIndex].angle;
+      return from;
     }
+
+    // Swing half a turn round the midpoint between the two spokes, on the
+    // rim side of it
+    const to = getPointUpSpoke(spokes[this.targetSpokeIndex], t);
+    const mid = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    const halfX = from.x - mid.x;
+    const halfY = from.y - mid.y;
+    const outward = mid.x * -halfY + mid.y * halfX >= 0 ? 1 : -1;
+    const turn = outward * Math.PI * this.easeInOutQuad(this.flipProgress);
+    const cos = Math.cos(turn);
+    const sin = Math.sin(turn);
+
+    this.angle = Math.atan2(mid.y, mid.x);
+    return {
+      x: mid.x + halfX * cos - halfY * sin,
+      y: mid.y + halfX * sin + halfY * cos,
+    };
+  }
+
+  private pickFlipInterval(): number {
+    const { minInterval, maxInterval } = this.timing;
+    return minInterval + this.random.next() * (maxInterval - minInterval);
+  }
+
+  // Quadratic easing, so each flip gathers pace and lands softly
+  private easeInOutQuad(t: number): number {
+    return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
   }
 }
 
-// Zigzag movement - extends a line and zips between multiple spokes
-export class ZigzagMovementController extends SpokeCrossingMovementController {
+// Fuseball movement - hops slowly between neighbouring spokes, out of
+// reach of shots while it's between them
+export class FuseballMovementController extends SpokeCrossingMovementController {
   constructor(enemy: Enemy) {
     super(enemy);
-    // Allow jumping to any spoke, not just adjacent ones
-    this.maxJumpDistance = 3; // Can jump up to 3 spokes away
+    this.crossingSpeed = 1.5;
+  }
+
+  isShielded(): boolean {
+    return this.targetSpokeIndex !== null && !this.isExtending;
+  }
+}
+
+// Spiker movement - climbs part way up a spoke laying a spike behind it,
+// then drops back down and starts up another
+export class SpikerMovementController extends BaseMovementController {
+  private spokeIndex: number;
+  private distanceFromCenter: number = 0;
+  private turnDistance: number; // Where it stops climbing
+  private climbing: boolean = true;
+
+  constructor(enemy: Enemy) {
+    super(enemy);
+    this.spokeIndex = this.pickSpoke(enemy.level.getSpokeCount());
+    this.angle = enemy.level.getSpokePositions()[this.spokeIndex].angle;
+    this.turnDistance = this.pickTurnDistance();
+  }
+
+  update(delta: number): Vec2 {
+    const step = this.enemy.speed * delta * 30;
+    const levelRadius = this.enemy.level.getRadius();
+
+    if (this.climbing) {
+      this.distanceFromCenter += step;
+      this.enemy.laySpike(
+        this.spokeIndex,
+        this.distanceFromCenter / levelRadius
+      );
+      if (this.distanceFromCenter >= this.turnDistance) this.climbing = false;
+    } else {
+      this.distanceFromCenter -= step;
+      if (this.distanceFromCenter <= 0) {
+        // Back at the bottom, so off up another spoke
+        this.distanceFromCenter = 0;
+        this.climbing = true;
+        this.spokeIndex = this.random.int(this.enemy.level.getSpokeCount());
+        this.turnDistance = this.pickTurnDistance();
+      }
+    }
+
+    const spoke = this.enemy.level.getSpokePositions()[this.spokeIndex];
+    this.angle = spoke.angle;
+
+    const t = this.distanceFromCenter / levelRadius;
+    return {
+      x: spoke.innerX + (spoke.outerX - spoke.innerX) * t,
+      y: spoke.innerY + (spoke.outerY - spoke.innerY) * t,
+    };
+  }
+
+  // Somewhere between a third and three quarters of the way up
+  private pickTurnDistance(): number {
+    const levelRadius = this.enemy.level.getRadius();
+    return levelRadius * (0.33 + this.random.next() * 0.42);
   }
 }
 
@@ -349,13 +489,22 @@ export class ZigzagMovementController extends SpokeCrossingMovementController {
 // Circular movement - orbits instead of moving outward
 export class CircularMovementController extends BaseMovementController {
   private distanceFromCenter: number = 0;
+  private direction: number = 1; // 1 = anticlockwise, -1 = clockwise
   constructor(enemy: Enemy) {
     super(enemy);
+    this.distanceFromCenter = enemy.level.getInnerRadiusAt(this.angle);
   }
 
-  update(delta: number): { x: number; y: number } {
+  update(delta: number): Vec2 {
     this.distanceFromCenter += this.enemy.speed * delta * 30;
-    this.angle = this.angle + delta * 0.5;
+    this.angle = this.angle + delta * 0.5 * this.direction;
+
+    // Turn back at the ends of open levels
+    const clamped = this.enemy.level.shape.clampAngle(this.angle);
+    if (clamped !== this.angle) {
+      this.angle = clamped;
+      this.direction = -this.direction;
+    }
 
     const x = Math.cos(this.angle) * this.distanceFromCenter;
     const y = Math.sin(this.angle) * this.distanceFromCenter;
@@ -369,25 +518,26 @@ export class HomingMovementController extends BaseMovementController {
   private distanceFromCenter: number = 0;
   constructor(enemy: Enemy) {
     super(enemy);
+    this.distanceFromCenter = enemy.level.getInnerRadiusAt(this.angle);
   }
 
-  update(delta: number): { x: number; y: number } {
+  update(delta: number): Vec2 {
     this.distanceFromCenter += this.enemy.speed * delta * 30;
     const levelRadius = this.enemy.level.getRadius();
     // Get current enemy position
-    const enemyPosX = this.enemy.mesh.position.x;
-    const enemyPosY = this.enemy.mesh.position.y;
+    const enemyPosX = this.enemy.position.x;
+    const enemyPosY = this.enemy.position.y;
 
     // Target position (player position)
     let targetX, targetY;
 
-    if (this.enemy.modeState.playerPosition) {
+    if (this.enemy.state.playerPosition) {
       // Use actual player position
-      targetX = this.enemy.modeState.playerPosition.x;
-      targetY = this.enemy.modeState.playerPosition.y;
+      targetX = this.enemy.state.playerPosition.x;
+      targetY = this.enemy.state.playerPosition.y;
     } else {
       // Fallback to using player angle on level edge
-      const playerAngle = this.enemy.modeState.playerAngle || 0;
+      const playerAngle = this.enemy.state.playerAngle || 0;
       targetX = Math.cos(playerAngle) * levelRadius;
       targetY = Math.sin(playerAngle) * levelRadius;
     }
@@ -420,7 +570,7 @@ export class HomingMovementController extends BaseMovementController {
       Math.sin(this.distanceFromCenter * 3) * 0.01 * proximityDampen;
 
     // 3. Extremely tiny random jitter - just for a touch of life
-    const tinyJitter = (Math.random() - 0.5) * 0.005 * proximityDampen;
+    const tinyJitter = (this.random.next() - 0.5) * 0.005 * proximityDampen;
 
     // Apply basic smooth tracking with minimal irregularities
     // Strict limit on maximum turn per frame
@@ -460,7 +610,7 @@ export class PiMovementController extends BaseMovementController {
   // Movement speed scaling
   private speed: number;
 
-  // For type 9 (advanced Pi follower), we can jump between parts
+  // Advanced Pi followers can jump between parts
   private canJumpBetweenParts: boolean;
 
   // Direction of movement (1 = forward, -1 = backward)
@@ -474,14 +624,13 @@ export class PiMovementController extends BaseMovementController {
   private rightLegStart: { x: number; y: number };
   private rightLegEnd: { x: number; y: number };
 
-  // Zipping across parts (for type 9)
+  // Zipping across parts, for those that can
   private isZipping: boolean = false;
   private targetPart: number | null = null;
   private extensionProgress: number = 0;
   private crossingProgress: number = 0;
-  private extensionLine?: THREE.Line;
 
-  constructor(enemy: Enemy) {
+  constructor(enemy: Enemy, speed: number, canJumpBetweenParts: boolean) {
     super(enemy);
 
     // Get Pi symbol vertices from the level
@@ -518,31 +667,28 @@ export class PiMovementController extends BaseMovementController {
     };
 
     // Initialize movement
-    this.currentPart = Math.floor(Math.random() * 3); // Start on a random part
-    this.progress = Math.random(); // Start at a random position on the part
+    this.currentPart = this.random.int(3); // Start on a random part
+    this.progress = this.random.next(); // Start at a random position on the part
 
     // Randomize initial direction
-    this.direction = Math.random() > 0.5 ? 1 : -1;
+    this.direction = this.random.next() > 0.5 ? 1 : -1;
 
-    // For type 9, enable jumping between Pi parts
-    this.canJumpBetweenParts = enemy.type === 9;
-
-    // Type 9 moves faster than type 8
-    this.speed = enemy.type === 9 ? 0.3 : 0.2;
+    this.canJumpBetweenParts = canJumpBetweenParts;
+    this.speed = speed;
 
     // Move enemy to initial position on the Pi
     const initialPosition = this.calculatePosition();
-    enemy.mesh.position.set(initialPosition.x, initialPosition.y, 0);
+    enemy.position = initialPosition;
   }
 
-  update(delta: number): { x: number; y: number } {
-    // For type 9, check if we should start zipping to a different part
-    if (this.canJumpBetweenParts && !this.isZipping && Math.random() < 0.01) {
+  update(delta: number): Vec2 {
+    // Check if we should start zipping to a different part
+    if (this.canJumpBetweenParts && !this.isZipping && this.random.next() < 0.01) {
       this.startZipping();
       return this.calculatePosition(); // Return current position while starting to zip
     }
 
-    // Handle zipping movement for type 9
+    // Handle zipping movement
     if (this.isZipping && this.targetPart !== null) {
       return this.updateZipping(delta);
     }
@@ -552,12 +698,12 @@ export class PiMovementController extends BaseMovementController {
 
     // Check boundaries and reverse direction if needed
     if (this.progress >= 1.0) {
-      if (this.canJumpBetweenParts && Math.random() > 0.7) {
-        // Type 9: Sometimes jump to a random part instead of reversing
+      if (this.canJumpBetweenParts && this.random.next() > 0.7) {
+        // Sometimes jump to a random part instead of reversing
         this.progress = 0.0;
         const oldPart = this.currentPart;
         do {
-          this.currentPart = Math.floor(Math.random() * 3);
+          this.currentPart = this.random.int(3);
         } while (this.currentPart === oldPart);
       } else {
         // Hit end of segment, reverse direction
@@ -565,20 +711,20 @@ export class PiMovementController extends BaseMovementController {
         this.direction = -1;
       }
     } else if (this.progress <= 0.0) {
-      if (this.canJumpBetweenParts && Math.random() > 0.7) {
-        // Type 9: Sometimes jump to a random part instead of reversing
+      if (this.canJumpBetweenParts && this.random.next() > 0.7) {
+        // Sometimes jump to a random part instead of reversing
         this.progress = 1.0;
         const oldPart = this.currentPart;
         do {
-          this.currentPart = Math.floor(Math.random() * 3);
+          this.currentPart = this.random.int(3);
         } while (this.currentPart === oldPart);
       } else {
         // Hit start of segment, reverse direction
         this.progress = 0.0;
         this.direction = 1;
 
-        // Type 8: Occasionally move to next segment when at a junction
-        if (!this.canJumpBetweenParts && Math.random() > 0.5) {
+        // Otherwise occasionally move to the next segment when at a junction
+        if (!this.canJumpBetweenParts && this.random.next() > 0.5) {
           // Only switch segments if we're at a junction (top of a leg or end of horizontal)
           if (
             (this.currentPart === 1 && this.progress === 0.0) || // Top of left leg
@@ -604,7 +750,7 @@ export class PiMovementController extends BaseMovementController {
 
   // Start the zipping process to another part of the Pi symbol
   private startZipping(): void {
-    // Only for type 9
+    // Only for those that can jump between parts
     if (!this.canJumpBetweenParts) return;
 
     this.isZipping = true;
@@ -613,11 +759,11 @@ export class PiMovementController extends BaseMovementController {
 
     // Select a target part different from current part
     do {
-      this.targetPart = Math.floor(Math.random() * 3);
+      this.targetPart = this.random.int(3);
     } while (this.targetPart === this.currentPart);
 
     // Randomize target progress position on the new segment
-    this.progress = Math.random();
+    this.progress = this.random.next();
   }
 
   // Update the zipping movement (extending a line and crossing to a new part)
@@ -649,11 +795,6 @@ export class PiMovementController extends BaseMovementController {
       this.extensionProgress = 0;
       this.crossingProgress = 0;
 
-      // Ensure extension line is properly removed from scene when zipping completes
-      if (this.extensionLine && this.enemy && this.enemy.scene) {
-        this.removeExtensionLine(this.enemy.scene);
-      }
-
       // Return the new position on the target part
       return this.calculatePosition();
     }
@@ -686,64 +827,9 @@ export class PiMovementController extends BaseMovementController {
     return t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2;
   }
 
-  // Render the extension line during zipping
-  render(scene: THREE.Scene): void {
-    try {
-      // Render extension line if in extension or crossing phase
-      if (this.isZipping && this.targetPart !== null) {
-        this.updateExtensionLine(scene);
-      } else {
-        // Always ensure extension line is removed when not zipping
-        this.removeExtensionLine(scene);
-      }
-    } catch (error) {
-      // If any error occurs during rendering, make sure to clean up
-      console.error("Error in PiMovementController render:", error);
-      this.removeExtensionLine(scene);
-    }
-  }
-
-  cleanup(scene: THREE.Scene): void {
-    // Ensure the extension line is removed when enemy is destroyed
-    this.removeExtensionLine(scene);
-  }
-
-  // Helper method to safely remove extension line
-  private removeExtensionLine(scene: THREE.Scene): void {
-    if (this.extensionLine) {
-      try {
-        scene.remove(this.extensionLine);
-      } catch (e) {
-        console.error("Error removing extension line:", e);
-      }
-
-      // Dispose of geometry and material to prevent memory leaks
-      if (this.extensionLine.geometry) {
-        this.extensionLine.geometry.dispose();
-      }
-
-      if (this.extensionLine.material) {
-        // Check if it's an array of materials or a single material
-        if (Array.isArray(this.extensionLine.material)) {
-          this.extensionLine.material.forEach((material) => material.dispose());
-        } else {
-          this.extensionLine.material.dispose();
-        }
-      }
-
-      this.extensionLine = undefined;
-    }
-
-    // Reset zipping state to ensure we don't try to render lines in an invalid state
-    if (!this.isZipping) {
-      this.extensionProgress = 0;
-      this.crossingProgress = 0;
-      this.targetPart = null;
-    }
-  }
-
-  private updateExtensionLine(scene: THREE.Scene): void {
-    if (this.targetPart === null) return;
+  // While zipping, a line reaches from the current part toward the target part
+  getGuideLine(): GuideLine | null {
+    if (!this.isZipping || this.targetPart === null) return null;
 
     // Current position
     const currentPosition = this.calculatePosition();
@@ -762,58 +848,10 @@ export class PiMovementController extends BaseMovementController {
       currentPosition.y +
       (targetPosition.y - currentPosition.y) * this.extensionProgress;
 
-    // Create vector positions for line endpoints
-    const startPos = new THREE.Vector3(currentPosition.x, currentPosition.y, 0);
-    const endPos = new THREE.Vector3(targetX, targetY, 0);
-
-    // Create or update line
-    if (!this.extensionLine) {
-      // Create line geometry
-      const lineGeometry = new THREE.BufferGeometry();
-      const linePositions = new Float32Array([
-        startPos.x,
-        startPos.y,
-        startPos.z,
-        endPos.x,
-        endPos.y,
-        endPos.z,
-      ]);
-
-      lineGeometry.setAttribute(
-        "position",
-        new THREE.BufferAttribute(linePositions, 3)
-      );
-
-      // Create line material - color matches enemy
-      const enemyMaterial = this.enemy.mesh
-        .material as THREE.MeshStandardMaterial;
-      const lineMaterial = new THREE.LineBasicMaterial({
-        color: enemyMaterial.color,
-        linewidth: 2,
-        opacity: 0.7,
-        transparent: true,
-      });
-
-      // Create line and add to scene
-      this.extensionLine = new THREE.Line(lineGeometry, lineMaterial);
-      scene.add(this.extensionLine);
-    } else {
-      // Update existing line
-      const positions = this.extensionLine.geometry.attributes.position
-        .array as Float32Array;
-
-      // Update start position
-      positions[0] = startPos.x;
-      positions[1] = startPos.y;
-      positions[2] = startPos.z;
-
-      // Update end position
-      positions[3] = endPos.x;
-      positions[4] = endPos.y;
-      positions[5] = endPos.z;
-
-      this.extensionLine.geometry.attributes.position.needsUpdate = true;
-    }
+    return {
+      start: currentPosition,
+      end: { x: targetX, y: targetY },
+    };
   }
 
   private calculatePosition(): { x: number; y: number } {
@@ -907,19 +945,19 @@ export class ErraticMovementController extends BaseMovementController {
     // Get the actual spoke position data for more controlled movement
     const spokePositions = enemy.level.getSpokePositions();
 
-    // Randomly select a spoke to generally follow (though will deviate erratically)
+    // Pick a spoke to generally follow (though will deviate erratically)
     const spokeCount = enemy.level.getSpokeCount();
-    const randomSpokeIndex = Math.floor(Math.random() * spokeCount);
+    const startSpokeIndex = this.pickSpoke(spokeCount);
 
     // Set the spoke position
     this.spokePosition =
-      spokePositions[randomSpokeIndex % spokePositions.length];
+      spokePositions[startSpokeIndex % spokePositions.length];
 
     // Start with random pause timing so not all chaotic enemies spawn at once
-    this.lastSpawnTime = -Math.random() * 3.0;
+    this.lastSpawnTime = -this.random.next() * 3.0;
   }
 
-  update(delta: number): { x: number; y: number } {
+  update(delta: number): Vec2 {
     this.distanceFromCenter += this.enemy.speed * delta * 30;
     const levelRadius = this.enemy.level.getRadius();
     this.elapsedTime += delta;
@@ -961,7 +999,7 @@ export class ErraticMovementController extends BaseMovementController {
         (Math.sin(this.distanceFromCenter * 0.5) +
           Math.cos(this.distanceFromCenter * 0.3)) *
           0.1 +
-        (Math.random() - 0.5) * 0.08;
+        (this.random.next() - 0.5) * 0.08;
 
       // Calculate position based on updated angle
       const randomX = Math.cos(this.angle) * this.distanceFromCenter;
@@ -981,8 +1019,8 @@ export class ErraticMovementController extends BaseMovementController {
       y = randomY * randomFactor + spokeY * spokeFactor;
     } else {
       // When paused, stay in place
-      x = this.enemy.mesh.position.x;
-      y = this.enemy.mesh.position.y;
+      x = this.enemy.position.x;
+      y = this.enemy.position.y;
     }
 
     return { x, y };
@@ -990,73 +1028,26 @@ export class ErraticMovementController extends BaseMovementController {
 
   // Spawn 4 small type 10 enemies
   private spawnSmallEnemies(): void {
-    // Create a sphere geometry for the small enemies
-    const geometry = new THREE.SphereGeometry(0.2, 8, 8);
-
-    // Create a glowing material with pulsating effect
-    const hue = 0.3 + Math.random() * 0.1; // green to yellowish-green
-    const color = new THREE.Color().setHSL(hue, 1, 0.5);
-
     // Get enemy's current position
-    const position = this.enemy.mesh.position.clone();
+    const position = this.enemy.position;
 
     // Spawn 4 enemies in cardinal directions
     for (let i = 0; i < 4; i++) {
-      const material = new THREE.MeshStandardMaterial({
-        color: color,
-        emissive: color,
-        emissiveIntensity: 0.7,
-        flatShading: true,
-      });
-
-      const mesh = new THREE.Mesh(geometry, material);
-
       // Position slightly offset from parent enemy
       const angle = (i / 4) * Math.PI * 2;
       const offsetDistance = 0.5; // Distance from parent enemy
-      mesh.position.set(
-        position.x + Math.cos(angle) * offsetDistance,
-        position.y + Math.sin(angle) * offsetDistance,
-        position.z
-      );
 
-      // Create the enemy object with proper parameters order matching the Enemy constructor
-      const smallEnemy = new Enemy(
-        this.enemy.level,
-        mesh,
-        10, // Type 10 for small enemies
-        this.enemy.scene,
-        this.enemy.gameState,
-        this.enemy.modeState
-      );
-
-      // Add to scene and enemy list
-      this.enemy.scene.add(mesh);
-      this.enemy.modeState.enemies.push(smallEnemy);
+      this.enemy.spawnShard({
+        x: position.x + Math.cos(angle) * offsetDistance,
+        y: position.y + Math.sin(angle) * offsetDistance,
+      });
     }
   }
 
   // Make the enemy flash when spawning
   private flashEnemy(): void {
-    const enemyMaterial = this.enemy.mesh
-      .material as THREE.MeshStandardMaterial;
-    const originalColor = enemyMaterial.color.clone();
-    const originalEmissive = enemyMaterial.emissive.clone();
-    const originalIntensity = enemyMaterial.emissiveIntensity;
-
-    // Flash white
-    enemyMaterial.color.set(0xffffff);
-    enemyMaterial.emissive.set(0xffffff);
-    enemyMaterial.emissiveIntensity = 1.0;
-
-    // Reset after flash duration
-    setTimeout(() => {
-      if (this.enemy && this.enemy.mesh) {
-        enemyMaterial.color.copy(originalColor);
-        enemyMaterial.emissive.copy(originalEmissive);
-        enemyMaterial.emissiveIntensity = originalIntensity;
-      }
-    }, this.pauseDuration * 800); // Flash for 80% of pause duration
+    // Flash for 80% of pause duration
+    this.enemy.flash(this.pauseDuration * 0.8);
   }
 }
 
@@ -1072,22 +1063,22 @@ export class BounceMovementController extends BaseMovementController {
     // Get the actual spoke position data
     const spokePositions = enemy.level.getSpokePositions();
 
-    // Randomly select a spoke
+    // Pick a spoke, unless a spawn wave already has
     const spokeCount = enemy.level.getSpokeCount();
-    const randomSpokeIndex = Math.floor(Math.random() * spokeCount);
+    const startSpokeIndex = this.pickSpoke(spokeCount);
 
     // Set the spoke position
     this.spokePosition =
-      spokePositions[randomSpokeIndex % spokePositions.length];
+      spokePositions[startSpokeIndex % spokePositions.length];
 
     // Update the angle for proper orientation
     this.angle = this.spokePosition.angle;
 
     // Random bounce intensity
-    this.bounceScale = 0.05 + Math.random() * 0.15; // Controls how strong the bounce is
+    this.bounceScale = 0.05 + this.random.next() * 0.15; // Controls how strong the bounce is
   }
 
-  update(delta: number): { x: number; y: number } {
+  update(delta: number): Vec2 {
     this.distanceFromCenter += this.enemy.speed * delta * 30;
     const levelRadius = this.enemy.level.getRadius();
 
@@ -1125,24 +1116,98 @@ export class BounceMovementController extends BaseMovementController {
 
 // Linear movement with direction vector
 export class LinearMovementController extends BaseMovementController {
-  public direction: THREE.Vector2;
+  public direction: Vec2;
   constructor(enemy: Enemy) {
     super(enemy);
-    const angle = Math.random() * Math.PI * 2;
-    this.direction = new THREE.Vector2(Math.cos(angle), Math.sin(angle));
+    const angle = this.random.next() * Math.PI * 2;
+    this.direction = { x: Math.cos(angle), y: Math.sin(angle) };
     this.angle = Math.atan2(this.direction.y, this.direction.x);
   }
 
-  update(delta: number): { x: number; y: number } {
+  update(delta: number): Vec2 {
     let x, y;
 
     x =
-      this.enemy.mesh.position.x +
+      this.enemy.position.x +
       this.direction.x * this.enemy.speed * delta * 30;
     y =
-      this.enemy.mesh.position.y +
+      this.enemy.position.y +
       this.direction.y * this.enemy.speed * delta * 30;
 
     return { x, y };
   }
 }
+
+// Rim crawling - creeps along just inside the rim toward the player the
+// short way round, then climbs out over them to grab them
+export class RimCrawlMovementController extends BaseMovementController {
+  private inset: number; // How far inside the rim it is
+
+  constructor(enemy: Enemy) {
+    super(enemy);
+
+    // Carry on from where it reached the rim
+    const shape = enemy.level.shape;
+    const { x, y } = enemy.position;
+    this.angle = shape.clampAngle(Math.atan2(y, x));
+    this.inset = Math.max(
+      0,
+      shape.getRadiusAt(this.angle) - enemy.distanceFromCenter
+    );
+  }
+
+  update(delta: number): Vec2 {
+    const shape = this.enemy.level.shape;
+    const step = this.enemy.speed * delta * 30;
+    const toPlayer = this.getAngleToPlayer();
+    const radius = shape.getRadiusAt(this.angle);
+
+    const crawl = Math.min(
+      (step * crawlSpeedFactor) / radius,
+      Math.abs(toPlayer)
+    );
+    this.angle = shape.clampAngle(this.angle + Math.sign(toPlayer) * crawl);
+
+    // Climb out once over the player, and back in if they get away
+    if (Math.abs(toPlayer) * radius <= grabReach) {
+      this.inset = Math.max(0, this.inset - step);
+    } else {
+      this.inset = Math.min(crawlInset, this.inset + step);
+    }
+
+    const point = shape.getPointAt(this.angle);
+    const scale = Math.max(0, 1 - this.inset / shape.getRadiusAt(this.angle));
+    return { x: point.x * scale, y: point.y * scale };
+  }
+
+  // Signed turn to the player's angle, the short way round on closed rims
+  // and along the rim on open ones, which can't be crossed at the gap
+  private getAngleToPlayer(): number {
+    const playerAngle = this.enemy.state.playerAngle;
+    const range = this.enemy.level.shape.getAngleRange();
+    if (range) {
+      return (
+        wrapAngle(playerAngle - range.start) -
+        wrapAngle(this.angle - range.start)
+      );
+    }
+
+    let angle = wrapAngle(playerAngle - this.angle);
+    if (angle > Math.PI) angle -= Math.PI * 2;
+    return angle;
+  }
+}
+
+// An angle brought into 0 to 2π
+function wrapAngle(angle: number): number {
+  const turn = Math.PI * 2;
+  return ((angle % turn) + turn) % turn;
+}
+
+// Point a share of the way up a spoke, from its inner end
+function getPointUpSpoke(spoke: SpokePosition, t: number): Vec2 {
+  return {
+    x: spoke.innerX + (spoke.outerX - spoke.innerX) * t,
+    y: spoke.innerY + (spoke.outerY - spoke.innerY) * t,
+  };
+}
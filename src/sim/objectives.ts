@@ -0,0 +1,127 @@
+import { Enemy } from "./enemy";
+import { Level } from "./levels";
+import { LevelObjective } from "./levelDefinitions";
+import { Simulation } from "./simulation";
+import { SpawnDirector } from "./spawnDirector";
+import { ObjectiveProgress } from "./types";
+
+/**
+ * Follows a level's objective and says when it has been met. Boss levels
+ * also send out their boss, and again if it escapes.
+ */
+export class ObjectiveTracker {
+  private simulation: Simulation;
+  private spawner: SpawnDirector; // Runs the waves a waves objective is to get through
+  private objective: LevelObjective;
+  private startTime: number = 0; // When the level started on the simulation clock
+  private boss: Enemy | null = null;
+  private bossTime: number = 0; // When the boss next comes out, while it isn't out
+  private bossDestroyed: boolean = false;
+
+  constructor(simulation: Simulation, spawner: SpawnDirector) {
+    this.simulation = simulation;
+    this.spawner = spawner;
+    this.objective = simulation.level.definition.objective;
+
+    // A boss that goes without the player killing it, e.g. by carrying
+    // them off from the rim, comes round again too
+    simulation.events.on("enemyKilled", ({ enemy, byPlayer }) => {
+      if (enemy !== this.boss || this.objective.type !== "boss") return;
+
+      this.boss = null;
+      this.bossDestroyed = byPlayer;
+      if (!byPlayer) {
+        this.bossTime = this.now() + this.objective.delay;
+      }
+    });
+
+    // An escaped boss comes round again
+    simulation.events.on("enemyEscaped", ({ enemy }) => {
+      if (enemy !== this.boss || this.objective.type !== "boss") return;
+
+      this.boss = null;
+      this.bossTime = this.now() + this.objective.delay;
+    });
+  }
+
+  /**
+   * Begin tracking a level's objective from now
+   */
+  public start(level: Level): void {
+    this.objective = level.definition.objective;
+    this.startTime = this.now();
+    this.boss = null;
+    this.bossDestroyed = false;
+    this.bossTime =
+      this.objective.type === "boss"
+        ? this.startTime + this.objective.delay
+        : 0;
+  }
+
+  /**
+   * Move the objective on after this tick's movement and hits
+   * @returns True once the objective has been met
+   */
+  public update(level: Level): boolean {
+    const objective = this.objective;
+    switch (objective.type) {
+      case "waves":
+        return this.spawner.isFinished();
+
+      case "survive":
+        return this.getSurviveTimeLeft() <= 0;
+
+      case "boss":
+        if (!this.boss && !this.bossDestroyed && this.now() >= this.bossTime) {
+          this.boss = this.simulation.enemyManager.spawnBoss(
+            level,
+            objective.enemyType,
+            objective.hitPoints
+          );
+        }
+        return this.bossDestroyed;
+    }
+  }
+
+  public getProgress(): ObjectiveProgress {
+    const objective = this.objective;
+    switch (objective.type) {
+      case "waves": {
+        // Enemies still to come in this wave, plus those out now
+        const { wave, waves, toSpawn } = this.spawner.getWaveProgress();
+        return {
+          type: "waves",
+          wave,
+          waves,
+          enemiesLeft: toSpawn + this.simulation.state.enemies.length,
+        };
+      }
+
+      case "survive":
+        return {
+          type: "survive",
+          secondsLeft: Math.ceil(Math.max(0, this.getSurviveTimeLeft())),
+        };
+
+      case "boss":
+        return {
+          type: "boss",
+          hitPoints: this.bossDestroyed ? 0 : (this.boss?.hitPoints ?? null),
+          maxHitPoints: objective.hitPoints,
+        };
+    }
+  }
+
+  // Seconds until the blood moon reaches a survive level's mark
+  private getSurviveTimeLeft(): number {
+    if (this.objective.type !== "survive") return 0;
+
+    const markTime =
+      this.objective.mark * this.simulation.level.definition.timeLimit;
+    return markTime - (this.now() - this.startTime);
+  }
+
+  private now(): number {
+    return this.simulation.scheduler.now();
+  }
+}
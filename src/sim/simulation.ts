@@ -0,0 +1,1045 @@
+import { GameState } from "../types";
+import { EventBus } from "../events";
+import { Scheduler } from "../scheduler";
+import { Random } from "../random";
+import { InputAction, ReplayStartState } from "../replay";
+import { TICK_RATE } from "./tickRate";
+import { EnemyManager } from "./enemies";
+import { Enemy } from "./enemy";
+import { CollisionWorld } from "./collisions";
+import { ObjectiveTracker } from "./objectives";
+import { SpawnDirector } from "./spawnDirector";
+import { SpikeField } from "./spikes";
+import { getSpawnableEnemyTypes } from "./enemyDefinitions";
+import { Level } from "./levels";
+import { LevelDefinition, getLevelDefinition } from "./levelDefinitions";
+import {
+  Bullet,
+  ObjectiveProgress,
+  SimulationEvents,
+  SimulationState,
+  Vec2,
+} from "./types";
+
+// Distance from the centre to the rim of every level
+export const levelRadius = 10;
+
+// Seconds between shots while the fire button is held
+const fireInterval = 0.2;
+
+// Seconds the dive down the tube to the next level takes
+const warpDuration = 4;
+
+// How far in from the rim the player has dived by the end of the warp, as a
+// fraction of the way to the centre. The view zooms in by the same amount.
+export const warpDiveDepth = 0.7;
+
+// Points for getting through a warp without dying, per level completed
+const warpBonusPerLevel = 50;
+
+// In lane mode a movement key steps one lane when pressed, then keeps
+// stepping at this many seconds per lane after the first delay while held
+const laneStepDelay = 0.3;
+const laneStepInterval = 0.1;
+
+/**
+ * The game's rules with no rendering, DOM or audio attached.
+ * It owns positions, hit points, score, lives and timers, advances them one
+ * fixed tick at a time from a list of input actions, and reports what
+ * happened on its event bus. ActiveMode draws and plays a run on top of it, while tools
+ * and tests can run thousands of games under Node without a WebGL context.
+ */
+export class Simulation {
+  public readonly gameState: GameState;
+  public readonly events: EventBus<SimulationEvents>;
+  public readonly state: SimulationState;
+  public readonly scheduler: Scheduler = new Scheduler(); // Gameplay timers on the simulation clock
+  public readonly enemyManager: EnemyManager;
+  public readonly spikeField: SpikeField; // Spikes laid up the spokes, which spikers add to
+  public readonly collisions: CollisionWorld;
+  public level: Level;
+  private spawner: SpawnDirector;
+  private objectives: ObjectiveTracker;
+  private time: number = 0; // Seconds simulated since the run started
+  private tick: number = 0; // Ticks simulated since the run started
+  private transitionInProgress: boolean = false;
+  private bloodMoonStart: number = 0;
+  private bloodMoonDuration: number; // Seconds the blood moon takes to reach the level boundary
+  private bloodMoonConsumed: boolean = false; // Set once the blood moon has ended the game
+  private over: boolean = false; // Set once the run has ended
+  private playerWasHit: boolean = false; // Set by collision handlers during the current tick
+  private keys = {
+    left: false,
+    right: false,
+  };
+  private isFireHeld: boolean = false;
+  private fireCooldown: number = 0; // Seconds until the held fire button shoots again
+  private laneStepCooldown: number = 0; // Seconds until a held movement key steps another lane
+  private rotationDirection: number = 1; // Flipped by alternating rotation scripts
+  private nextRotationChangeTime: number = 0;
+  private customLevel: LevelDefinition | null = null; // Played on every level instead of the authored ones
+  private nextLevel: Level | null = null; // Built when the warp starts, so it can be shown coming up the tube
+  private warpSurvived: boolean = false; // Cleared if the player dies during the warp
+
+  /**
+   * @param events Bus to report on; pass the game's bus so the HUD, audio and
+   * anything else subscribed to it can follow along
+   */
+  constructor(
+    gameState: GameState,
+    events: EventBus<SimulationEvents> = new EventBus()
+  ) {
+    this.gameState = gameState;
+    this.events = events;
+
+    this.state = {
+      playerSize: 0.5,
+      playerAngle: 0,
+      playerPosition: { x: levelRadius, y: 0 },
+      enemySpeed: 0.03,
+      enemies: [],
+      bullets: [],
+      enemyBullets: [],
+      explosions: [], // Track active explosions
+      spikes: [],
+      scheduler: this.scheduler,
+      ghostMode: false,
+      spawnEnemies: true, // Enemies spawn by default
+      rideLevelRotation: false,
+      laneMode: false,
+      playerLane: 0,
+      warpProgress: null,
+    };
+
+    this.enemyManager = new EnemyManager(this);
+    this.level = new Level(gameState.currentLevel, levelRadius);
+    this.bloodMoonDuration = this.level.definition.timeLimit;
+    this.spawner = new SpawnDirector(this);
+    this.objectives = new ObjectiveTracker(this, this.spawner);
+    this.spikeField = new SpikeField(this);
+
+    // Bullets fly a little past the rim, so let the grid cover them too
+    this.collisions = new CollisionWorld(this.events, levelRadius + 5);
+    this.addCollisionRules();
+  }
+
+  /**
+   * Begin a run at the game state's current level, score and lives
+   * @param seed Seeds every gameplay random draw, so the same seed and
+   * inputs always play out the same way
+   */
+  public start(seed: number): void {
+    // Drop anything left over from a previous run before scheduling new work
+    this.scheduler.clear();
+    this.time = 0;
+    this.tick = 0;
+    this.transitionInProgress = false;
+    this.state.warpProgress = null;
+    this.nextLevel = null;
+    this.bloodMoonConsumed = false;
+    this.over = false;
+    this.keys.left = false;
+    this.keys.right = false;
+    this.isFireHeld = false;
+    this.fireCooldown = 0;
+    this.laneStepCooldown = 0;
+
+    this.gameState.seed = seed;
+    this.gameState.random = new Random(seed);
+
+    this.state.enemies = [];
+    this.state.bullets = [];
+    this.state.enemyBullets = [];
+    this.state.explosions = [];
+    this.spikeField.clear();
+
+    // Reset enemy spawning to random (not forced) when starting
+    this.state.forcedEnemyType = undefined;
+
+    this.level = this.createLevel(this.gameState.currentLevel);
+    this.spikeField.start(this.level);
+    this.events.emit("levelStarted", { level: this.level });
+
+    // Immediately start the blood moon growing, and the enemies coming
+    this.startBloodMoon(this.level.definition.timeLimit);
+    this.spawner.start(this.level);
+    this.objectives.start(this.level);
+
+    this.events.emit("livesChanged", { lives: this.gameState.lives });
+    this.events.emit("scoreChanged", { score: this.gameState.score });
+
+    // Pick the starting direction for levels that alternate
+    this.resetLevelRotation();
+
+    this.placePlayerOnLevel();
+    this.updatePlayerPosition();
+  }
+
+  /**
+   * Advance the run by one tick
+   * @param delta Seconds per tick
+   * @param actions Player input to apply before anything moves
+   */
+  public step(delta: number, actions: InputAction[]): void {
+    if (this.over) return;
+
+    this.time += delta;
+    this.tick++;
+
+    this.applyInputs(actions);
+
+    // Run any callbacks that have come due on the game clock
+    this.scheduler.update(delta);
+
+    // A scheduled callback may have ended the run
+    if (this.over) return;
+
+    // Move the player with the keyboard
+    this.updateKeyMovement(delta);
+
+    // Keep firing while the fire button is held
+    this.updateContinuousShooting(delta);
+
+    // Check if time has run out
+    if (!this.transitionInProgress && this.isBloodMoonFull()) {
+      // Force game over if time is completely out, regardless of ghost mode status
+      if (!this.bloodMoonConsumed) {
+        this.bloodMoonConsumed = true;
+        this.handleBloodMoonReachedBoundary();
+      }
+      return;
+    }
+
+    this.rotateLevel(delta);
+
+    // Dive on down the tube between levels
+    if (this.state.warpProgress !== null) {
+      this.updateWarp(delta);
+    }
+
+    // Send out enemies as the level's waves say, if enemy spawning is enabled
+    if (this.state.spawnEnemies && !this.transitionInProgress) {
+      this.spawner.update();
+    }
+
+    // Update enemies
+    this.enemyManager.update(delta, this.level);
+
+    // Update player bullets
+    this.updateBullets(delta);
+
+    // Update enemy bullets
+    this.updateEnemyBullets(delta);
+
+    // Resolve every hit this tick, shots first so enemies they destroy can't touch the player
+    this.playerWasHit = false;
+    this.updateColliders();
+    this.collisions.resolve();
+
+    // An electrified lane reaches the player wherever its pulsar is
+    if (this.isPlayerOnElectrifiedLane()) {
+      this.hitPlayer();
+    }
+
+    // Clear the level once its objective is met
+    if (!this.transitionInProgress && this.objectives.update(this.level)) {
+      this.levelUp();
+    }
+
+    if (this.playerWasHit) {
+      this.handlePlayerHit();
+      return;
+    }
+
+    // Update player position based on current angle and level type
+    this.updatePlayerPosition();
+  }
+
+  /**
+   * End the run early, e.g. when the player quits, clearing out enemies,
+   * bullets and pending timers
+   */
+  public stop(): void {
+    this.over = true;
+
+    this.destroyAllEnemies();
+    this.clearBullets(this.state.bullets);
+    this.clearBullets(this.state.enemyBullets);
+
+    // Cancelling explosions lets listeners tidy them up too
+    this.scheduler.clear();
+  }
+
+  public getTick(): number {
+    return this.tick;
+  }
+
+  public isOver(): boolean {
+    return this.over;
+  }
+
+  public isTransitionInProgress(): boolean {
+    return this.transitionInProgress;
+  }
+
+  /**
+   * Whole seconds left before the blood moon reaches the level boundary
+   */
+  public getRemainingTime(): number {
+    const elapsedTime = this.scheduler.now() - this.bloodMoonStart;
+    return Math.ceil(Math.max(0, this.bloodMoonDuration - elapsedTime));
+  }
+
+  /**
+   * How far the player is through the current level's objective
+   */
+  public getObjectiveProgress(): ObjectiveProgress {
+    return this.objectives.getProgress();
+  }
+
+  // Gameplay state that carries over from previous runs
+  public getStartState(): ReplayStartState {
+    return {
+      playerAngle: this.state.playerAngle,
+      enemySpeed: this.state.enemySpeed,
+      ghostMode: this.state.ghostMode,
+      spawnEnemies: this.state.spawnEnemies,
+      rideLevelRotation: this.state.rideLevelRotation,
+      laneMode: this.state.laneMode,
+      customLevel: this.customLevel ?? undefined,
+    };
+  }
+
+  public applyStartState(start: ReplayStartState): void {
+    this.state.playerAngle = start.playerAngle;
+    this.state.enemySpeed = start.enemySpeed;
+    this.state.ghostMode = start.ghostMode;
+    this.state.spawnEnemies = start.spawnEnemies;
+    this.state.rideLevelRotation = start.rideLevelRotation ?? false;
+    this.state.laneMode = start.laneMode ?? false;
+    this.customLevel = start.customLevel ?? null;
+  }
+
+  /**
+   * Play the given level, e.g. one from the editor, in place of the authored
+   * ones from the next start() on; pass null to go back to them
+   */
+  public playCustomLevel(definition: LevelDefinition | null): void {
+    this.customLevel = definition;
+  }
+
+  public addEnemyBullet(bullet: Bullet): void {
+    this.state.enemyBullets.push(bullet);
+    this.events.emit("bulletFired", { bullet });
+  }
+
+  private applyInputs(actions: InputAction[]): void {
+    for (const action of actions) {
+      switch (action.type) {
+        case "aim":
+          this.updatePlayerAngle(action.angle);
+          break;
+        case "move":
+          // Lane mode steps as soon as a key goes down
+          if (
+            this.state.laneMode &&
+            action.pressed &&
+            !this.keys[action.direction]
+          ) {
+            this.stepLane(action.direction === "right" ? 1 : -1);
+            this.laneStepCooldown = laneStepDelay;
+          }
+          this.keys[action.direction] = action.pressed;
+          break;
+        case "shoot":
+          this.shoot();
+          break;
+        case "fire":
+          if (action.pressed) {
+            this.shoot();
+            this.isFireHeld = true;
+
+            // The first shot was already fired on press, so wait slightly longer
+            // than one interval before the repeat fire kicks in
+            this.fireCooldown = fireInterval + 0.05;
+          } else {
+            this.isFireHeld = false;
+          }
+          break;
+        case "debug":
+          this.handleDebugKey(action.key);
+          break;
+      }
+    }
+  }
+
+  // Apply a gameplay debug key
+  private handleDebugKey(key: string): void {
+    switch (key) {
+      case "l":
+        this.levelUp();
+        break;
+      case "g":
+        this.toggleGhostMode();
+        break;
+      case "s":
+        this.toggleEnemySpawning();
+        break;
+      case "e":
+        this.cycleEnemyType();
+        break;
+      case "E":
+        this.resetEnemySpawning();
+        break;
+      case "r":
+        this.toggleRideLevelRotation();
+        break;
+      case "t":
+        this.toggleLaneMode();
+        break;
+    }
+  }
+
+  // Rotate the player around the level while movement keys are held
+  private updateKeyMovement(delta: number): void {
+    if (this.state.laneMode) {
+      this.updateLaneStepping(delta);
+      return;
+    }
+
+    const moveSpeed = 0.1 * delta * TICK_RATE;
+
+    if (this.keys.left) {
+      this.state.playerAngle -= moveSpeed;
+      this.normalizePlayerAngle();
+    }
+    if (this.keys.right) {
+      this.state.playerAngle += moveSpeed;
+      this.normalizePlayerAngle();
+    }
+  }
+
+  // Fire repeatedly on the simulation clock while the fire button is held
+  private updateContinuousShooting(delta: number): void {
+    if (!this.isFireHeld) return;
+
+    this.fireCooldown -= delta;
+    if (this.fireCooldown <= 0) {
+      this.shoot();
+      this.fireCooldown += fireInterval;
+    }
+  }
+
+  // Keep stepping lanes while a movement key is held
+  private updateLaneStepping(delta: number): void {
+    const direction = (this.keys.right ? 1 : 0) - (this.keys.left ? 1 : 0);
+    if (direction === 0) return;
+
+    this.laneStepCooldown -= delta;
+    if (this.laneStepCooldown <= 0) {
+      this.stepLane(direction);
+      this.laneStepCooldown += laneStepInterval;
+    }
+  }
+
+  private updatePlayerAngle(targetAngle: number): void {
+    // Set player angle directly
+    this.state.playerAngle = targetAngle;
+    this.normalizePlayerAngle();
+
+    // Pointing picks the lane under the pointer
+    this.snapToNearestLane();
+  }
+
+  // Move the given number of lanes round, positive being anticlockwise
+  private stepLane(steps: number): void {
+    this.state.playerLane = this.level.getLaneIndexFrom(
+      this.state.playerLane,
+      steps
+    );
+    this.moveToPlayerLane();
+  }
+
+  // In lane mode, take the lane under the player and move to its middle
+  private snapToNearestLane(): void {
+    if (!this.state.laneMode) return;
+
+    this.state.playerLane = this.level.getLaneIndexAt(this.state.playerAngle);
+    this.moveToPlayerLane();
+  }
+
+  // Centre the player in their lane, which turns along with the level
+  private moveToPlayerLane(): void {
+    this.state.playerAngle = this.level.getLaneAngle(this.state.playerLane);
+    this.normalizePlayerAngle();
+  }
+
+  private normalizePlayerAngle(): void {
+    // Stop at the ends of open rims
+    this.state.playerAngle = this.level.shape.clampAngle(
+      this.state.playerAngle
+    );
+
+    // Normalize angle to be between 0 and 2π for calculations
+    while (this.state.playerAngle < 0) this.state.playerAngle += Math.PI * 2;
+    while (this.state.playerAngle >= Math.PI * 2)
+      this.state.playerAngle -= Math.PI * 2;
+  }
+
+  private createLevel(levelNumber: number): Level {
+    return new Level(
+      levelNumber,
+      levelRadius,
+      this.customLevel ??
+        getLevelDefinition(levelNumber, this.gameState.seed)
+    );
+  }
+
+  // Open rims start the player in the middle, away from their ends
+  private placePlayerOnLevel(): void {
+    const range = this.level.shape.getAngleRange();
+    if (range) {
+      this.state.playerAngle = (range.start + range.end) / 2;
+    }
+    this.normalizePlayerAngle();
+    this.snapToNearestLane();
+  }
+
+  private updatePlayerPosition(): void {
+    this.state.playerPosition = this.getPlayerPoint();
+  }
+
+  // The player's point on the rim, pulled in toward the centre as they dive
+  // down the tube during the warp
+  private getPlayerPoint(): Vec2 {
+    const point = this.level.shape.getPointAt(this.state.playerAngle);
+    const scale = 1 - warpDiveDepth * (this.state.warpProgress ?? 0);
+    return { x: point.x * scale, y: point.y * scale };
+  }
+
+  private startBloodMoon(duration: number): void {
+    this.bloodMoonStart = this.scheduler.now();
+    this.bloodMoonDuration = duration;
+    this.events.emit("bloodMoonGrowing", { duration });
+  }
+
+  private isBloodMoonFull(): boolean {
+    return this.scheduler.now() - this.bloodMoonStart >= this.bloodMoonDuration;
+  }
+
+  private resetLevelRotation(): void {
+    // Drawn on every level, whatever its rotation script, so each level
+    // start uses up the same random numbers
+    this.rotationDirection = this.gameState.random.next() < 0.5 ? 1 : -1;
+    this.scheduleRotationChange();
+  }
+
+  // Pick when an alternating level next flips direction
+  private scheduleRotationChange(): void {
+    const roll = this.gameState.random.next();
+    const rotation = this.level.definition.rotation;
+    if (rotation.type !== "alternating") return;
+
+    this.nextRotationChangeTime =
+      this.time +
+      rotation.minInterval +
+      roll * (rotation.maxInterval - rotation.minInterval);
+  }
+
+  // Turn the level as its rotation script says
+  private rotateLevel(delta: number): void {
+    const rotation = this.level.definition.rotation;
+    let angle = 0;
+
+    if (rotation.type === "constant") {
+      angle = rotation.speed * delta;
+    } else if (rotation.type === "alternating") {
+      if (this.time >= this.nextRotationChangeTime) {
+        this.rotationDirection *= -1;
+        this.scheduleRotationChange();
+      }
+
+      angle = this.rotationDirection * rotation.speed * delta;
+    }
+
+    if (angle === 0) return;
+
+    this.level.rotateLevel(angle);
+
+    // Lanes turn with the level, so lane mode always carries the player along.
+    // Otherwise they can choose to stay over the same part of the rim.
+    if (this.state.laneMode) {
+      this.moveToPlayerLane();
+    } else if (this.state.rideLevelRotation) {
+      this.state.playerAngle += angle;
+      this.normalizePlayerAngle();
+    } else {
+      // The end of an open rim may have turned past the player
+      this.normalizePlayerAngle();
+    }
+  }
+
+  private shoot(): void {
+    // Don't shoot during a level transition, apart from the warp
+    if (this.transitionInProgress && this.state.warpProgress === null) return;
+
+    const playerAngle = this.state.playerAngle;
+
+    // Bullets start at the player's position on the level outline
+    const playerPosition = this.getPlayerPoint();
+
+    const bullet: Bullet = {
+      position: playerPosition,
+      // Direction vector pointing inward
+      direction: { x: -Math.cos(playerAngle), y: -Math.sin(playerAngle) },
+      speed: 0.3,
+      lane: this.state.laneMode ? this.state.playerLane : undefined,
+    };
+
+    this.state.bullets.push(bullet);
+    this.events.emit("bulletFired", { bullet });
+  }
+
+  private updateBullets(delta: number): void {
+    for (let i = this.state.bullets.length - 1; i >= 0; i--) {
+      const bullet = this.state.bullets[i];
+
+      // Move bullet (speed is distance per tick at the reference tick rate)
+      const step = bullet.speed * delta * TICK_RATE;
+      if (bullet.lane !== undefined) {
+        this.moveDownLane(bullet, bullet.lane, step);
+      } else {
+        bullet.position.x += bullet.direction.x * step;
+        bullet.position.y += bullet.direction.y * step;
+      }
+
+      // Remove bullets that are too close to center or out of bounds
+      const distanceFromCenter = Math.sqrt(
+        bullet.position.x * bullet.position.x +
+          bullet.position.y * bullet.position.y
+      );
+
+      if (distanceFromCenter < 1 || distanceFromCenter > levelRadius + 5) {
+        this.state.bullets.splice(i, 1);
+        this.events.emit("bulletRemoved", { bullet });
+      }
+    }
+  }
+
+  // Move a lane mode shot inward along the middle of its lane
+  private moveDownLane(bullet: Bullet, lane: number, step: number): void {
+    const angle = this.level.getLaneAngle(lane);
+    const distance =
+      Math.sqrt(
+        bullet.position.x * bullet.position.x +
+          bullet.position.y * bullet.position.y
+      ) - step;
+
+    bullet.direction = { x: -Math.cos(angle), y: -Math.sin(angle) };
+    bullet.position.x = Math.cos(angle) * distance;
+    bullet.position.y = Math.sin(angle) * distance;
+  }
+
+  // Update enemy bullets
+  private updateEnemyBullets(delta: number): void {
+    for (let i = this.state.enemyBullets.length - 1; i >= 0; i--) {
+      const bullet = this.state.enemyBullets[i];
+      const previousPosition = { ...bullet.position };
+
+      // Move bullet (speed is distance per tick at the reference tick rate)
+      const step = bullet.speed * delta * TICK_RATE;
+      bullet.position.x += bullet.direction.x * step;
+      bullet.position.y += bullet.direction.y * step;
+
+      // Calculate distance from center
+      const distanceFromCenter = Math.sqrt(
+        bullet.position.x * bullet.position.x +
+          bullet.position.y * bullet.position.y
+      );
+
+      // Check if bullet goes out of bounds or too close to center
+      if (distanceFromCenter < 1) {
+        // Too close to center, just remove the bullet
+        this.state.enemyBullets.splice(i, 1);
+        this.events.emit("bulletRemoved", { bullet });
+        continue;
+      }
+
+      const rimRadius = this.level.shape.getRadiusAt(
+        Math.atan2(bullet.position.y, bullet.position.x)
+      );
+      if (distanceFromCenter > rimRadius) {
+        // Reached the level boundary
+        if (bullet.isBomb) {
+          // Bombs explode where they cross the rim
+          const crossing =
+            this.level.shape.intersectSegment(
+              previousPosition,
+              bullet.position
+            ) ?? this.level.shape.getNearestPoint(bullet.position);
+          this.enemyManager.createExplosionAtPosition(crossing, null);
+        }
+
+        // Remove the bullet
+        this.state.enemyBullets.splice(i, 1);
+        this.events.emit("bulletRemoved", { bullet });
+      }
+    }
+  }
+
+  private clearBullets(bullets: Bullet[]): void {
+    const removed = bullets.splice(0, bullets.length);
+    for (const bullet of removed) {
+      this.events.emit("bulletRemoved", { bullet });
+    }
+  }
+
+  // What happens when objects on each pair of layers touch
+  private addCollisionRules(): void {
+    this.collisions.onOverlap("playerShots", "enemies", (bullet, enemy) => {
+      // Shots pass through enemies that can't be hit just now
+      if (enemy.isShielded()) return;
+
+      // A bullet is used up by the first enemy it reaches
+      this.removeBullet(this.state.bullets, bullet);
+      this.collisions.remove(bullet);
+
+      this.damageEnemy(enemy);
+    });
+    this.collisions.onOverlap("playerShots", "spikes", (bullet, segment) => {
+      this.removeBullet(this.state.bullets, bullet);
+      this.collisions.remove(bullet);
+
+      this.spikeField.shoot(segment.spike);
+    });
+
+    // The player loses one life however many things reach them in a tick
+    this.collisions.onOverlap("player", "enemies", (_player, enemy) => {
+      // A rim crawler carries the player off and goes with them
+      if (enemy.isCrawling) this.destroyEnemy(enemy, false);
+      this.hitPlayer();
+    });
+    this.collisions.onOverlap("player", "enemyShots", (_player, bullet) => {
+      this.removeBullet(this.state.enemyBullets, bullet);
+      this.hitPlayer();
+    });
+    this.collisions.onOverlap("player", "explosions", () => this.hitPlayer());
+
+    // Spikes only reach the player as they dive past them in the warp
+    this.collisions.onOverlap("player", "spikes", () => {
+      if (this.state.warpProgress !== null) this.hitPlayer();
+    });
+  }
+
+  // Register where everything is at the end of this tick's movement
+  private updateColliders(): void {
+    this.collisions.clear();
+
+    for (const bullet of this.state.bullets) {
+      this.collisions.add("playerShots", bullet, bullet.position, 0.2);
+    }
+
+    for (const enemy of this.state.enemies) {
+      this.collisions.add("enemies", enemy, enemy.position, enemy.size);
+    }
+
+    this.spikeField.addColliders(this.collisions);
+
+    if (this.canPlayerBeHit()) {
+      const playerPosition = this.state.playerPosition;
+      // Slightly smaller than the player's visual size, which shrinks as
+      // they dive through the warp
+      const warpScale = 1 - warpDiveDepth * (this.state.warpProgress ?? 0);
+      const playerRadius = this.state.playerSize * 0.8 * warpScale;
+      this.collisions.add(
+        "player",
+        playerPosition,
+        playerPosition,
+        playerRadius
+      );
+    }
+
+    // Bullet radius is approximately 0.15
+    for (const bullet of this.state.enemyBullets) {
+      this.collisions.add("enemyShots", bullet, bullet.position, 0.15);
+    }
+
+    for (const explosion of this.state.explosions) {
+      // Only active explosions with a non-zero radius can hit
+      if (explosion.radius <= 0) continue;
+      this.collisions.add(
+        "explosions",
+        explosion,
+        explosion.position,
+        explosion.radius
+      );
+    }
+  }
+
+  private damageEnemy(enemy: Enemy): void {
+    const enemyDestroyed = enemy.takeDamage();
+    if (!enemyDestroyed) return;
+
+    this.destroyEnemy(enemy, true);
+
+    this.gameState.score += enemy.getPoints();
+    this.events.emit("scoreChanged", { score: this.gameState.score });
+
+    // Increase difficulty every 100 points
+    if (this.gameState.score % 100 === 0) {
+      this.state.enemySpeed += 0.005;
+    }
+  }
+
+  // Blow an enemy up and take it out of the game
+  private destroyEnemy(enemy: Enemy, byPlayer: boolean): void {
+    // Take it out of the rest of this tick's collisions
+    this.collisions.remove(enemy);
+
+    // Trigger explosion effect
+    enemy.explode(byPlayer);
+
+    // Remove enemy from the list
+    const index = this.state.enemies.indexOf(enemy);
+    if (index !== -1) {
+      this.state.enemies.splice(index, 1);
+    }
+  }
+
+  // The player can only be hit while vulnerable, and not between levels
+  // unless they're diving through the warp
+  private canPlayerBeHit(): boolean {
+    const betweenLevels =
+      this.transitionInProgress && this.state.warpProgress === null;
+    return !this.state.ghostMode && !betweenLevels;
+  }
+
+  // Whether a pulsing enemy is charging the lane the player is on
+  private isPlayerOnElectrifiedLane(): boolean {
+    if (!this.canPlayerBeHit()) return false;
+
+    const lane = this.level.getLaneIndexAt(this.state.playerAngle);
+    return this.state.enemies.some(
+      (enemy) => enemy.getElectrifiedLane() === lane
+    );
+  }
+
+  private hitPlayer(): void {
+    this.playerWasHit = true;
+    this.collisions.remove(this.state.playerPosition);
+  }
+
+  private removeBullet(bullets: Bullet[], bullet: Bullet): void {
+    const index = bullets.indexOf(bullet);
+    if (index !== -1) {
+      bullets.splice(index, 1);
+      this.events.emit("bulletRemoved", { bullet });
+    }
+  }
+
+  private handlePlayerHit(): void {
+    this.events.emit("playerHit");
+
+    // Dying during the warp loses its bonus as well as a life
+    if (this.state.warpProgress !== null) {
+      this.warpSurvived = false;
+    }
+
+    // Decrement lives when player is hit
+    this.gameState.lives--;
+    this.events.emit("livesChanged", { lives: this.gameState.lives });
+
+    if (this.gameState.lives <= 0) {
+      // Game over if no lives left
+      this.endGame();
+    } else {
+      // Respawn player with temporary invulnerability
+      this.respawnPlayer();
+    }
+  }
+
+  // Handle player death and respawn with temporary invulnerability
+  private respawnPlayer(): void {
+    // Set ghostMode immediately to prevent multiple collisions during death animation
+    this.state.ghostMode = true;
+
+    this.events.emit("playerDied");
+
+    // Remove all enemy bullets to give player a cleaner start
+    this.clearBullets(this.state.enemyBullets);
+
+    // Respawn the player with temporary invulnerability after a 1 second delay
+    this.scheduler.after(1, () => {
+      // Reset player position to a random position on the level
+      const range = this.level.shape.getAngleRange();
+      const roll = this.gameState.random.next();
+      this.state.playerAngle = range
+        ? range.start + roll * (range.end - range.start)
+        : roll * Math.PI * 2;
+      this.normalizePlayerAngle();
+      this.snapToNearestLane();
+      this.updatePlayerPosition();
+
+      this.events.emit("playerRespawned");
+      this.events.emit("ghostModeChanged", { active: true });
+
+      // End invulnerability after 3 seconds
+      this.scheduler.after(3, () => {
+        this.state.ghostMode = false;
+        this.events.emit("ghostModeChanged", { active: false });
+      });
+    });
+  }
+
+  // Handle when the blood moon reaches the level boundary
+  private handleBloodMoonReachedBoundary(): void {
+    this.events.emit("bloodMoonConsumed");
+
+    // Pause for dramatic effect, then end the game
+    this.scheduler.after(2, () => this.endGame());
+  }
+
+  private endGame(): void {
+    this.over = true;
+    this.events.emit("gameOver");
+  }
+
+  // The pause before the warp is scheduled so it lands on the same tick
+  // every time and replays stay in sync; the warp itself moves with the ticks
+  private levelUp(): void {
+    if (this.transitionInProgress) return;
+    this.transitionInProgress = true;
+
+    this.events.emit("levelCompleted", { level: this.level });
+
+    // Wait a moment for user to read the text
+    this.scheduler.after(1, () => this.startWarp());
+  }
+
+  // 1. Dive down the tube toward the next level. Enemies still about and
+  // their shots stay deadly, but the player can steer and shoot their way through.
+  private startWarp(): void {
+    this.state.warpProgress = 0;
+    this.warpSurvived = true;
+    this.nextLevel = this.createLevel(this.gameState.currentLevel + 1);
+
+    this.events.emit("bloodMoonShrinking", { duration: warpDuration });
+    this.events.emit("warpStarted", {
+      duration: warpDuration,
+      nextLevel: this.nextLevel,
+    });
+  }
+
+  private updateWarp(delta: number): void {
+    const progress = this.state.warpProgress! + delta / warpDuration;
+    if (progress < 1) {
+      this.state.warpProgress = progress;
+      return;
+    }
+
+    // 2. Out the bottom of the tube, with a bonus for making it unharmed
+    this.state.warpProgress = null;
+    const bonus = this.warpSurvived
+      ? warpBonusPerLevel * this.gameState.currentLevel
+      : 0;
+    if (bonus > 0) {
+      this.gameState.score += bonus;
+      this.events.emit("scoreChanged", { score: this.gameState.score });
+    }
+    this.events.emit("warpCompleted", { bonus });
+
+    // Whatever was left behind doesn't follow the player to the next level
+    this.destroyAllEnemies();
+    this.clearBullets(this.state.enemyBullets);
+
+    this.startNextLevel();
+  }
+
+  // 3. Create the new level and reset everything
+  private startNextLevel(): void {
+    // Increment level
+    this.gameState.currentLevel++;
+
+    // Move into the level the warp led to
+    this.level =
+      this.nextLevel ?? this.createLevel(this.gameState.currentLevel);
+    this.nextLevel = null;
+
+    // Spikes stay up their spokes if the new level has as many
+    this.spikeField.start(this.level);
+
+    // Reset enemy spawning to random
+    this.state.forcedEnemyType = undefined;
+    this.events.emit("debugOptionsChanged");
+
+    // Pick the starting direction for levels that alternate
+    this.resetLevelRotation();
+
+    // Reset player position to level outline
+    this.placePlayerOnLevel();
+    this.updatePlayerPosition();
+
+    this.events.emit("levelStarted", { level: this.level });
+
+    // Start the Blood Moon growing for the new level
+    this.startBloodMoon(this.level.definition.timeLimit);
+    this.spawner.start(this.level);
+    this.objectives.start(this.level);
+
+    // Resume normal gameplay
+    this.transitionInProgress = false;
+  }
+
+  private destroyAllEnemies(): void {
+    for (const enemy of this.state.enemies) {
+      enemy.explode(false);
+    }
+    this.state.enemies = [];
+  }
+
+  private toggleGhostMode(): void {
+    if (this.transitionInProgress) return;
+
+    this.state.ghostMode = !this.state.ghostMode;
+    this.events.emit("ghostModeChanged", { active: this.state.ghostMode });
+  }
+
+  // Toggle whether the player is carried round with a rotating level
+  private toggleRideLevelRotation(): void {
+    this.state.rideLevelRotation = !this.state.rideLevelRotation;
+    this.events.emit("debugOptionsChanged");
+  }
+
+  // Switch between gliding round the rim and snapping to lanes
+  private toggleLaneMode(): void {
+    this.state.laneMode = !this.state.laneMode;
+    this.snapToNearestLane();
+    this.updatePlayerPosition();
+    this.events.emit("debugOptionsChanged");
+  }
+
+  // Toggle enemy spawning on/off
+  private toggleEnemySpawning(): void {
+    if (this.transitionInProgress) return;
+
+    this.state.spawnEnemies = !this.state.spawnEnemies;
+    this.events.emit("debugOptionsChanged");
+  }
+
+  // Cycle to the next spawnable enemy type or start from the first
+  private cycleEnemyType(): void {
+    const types = getSpawnableEnemyTypes();
+    const index =
+      this.state.forcedEnemyType === undefined
+        ? -1
+        : types.indexOf(this.state.forcedEnemyType);
+    this.state.forcedEnemyType = types[(index + 1) % types.length];
+    this.events.emit("debugOptionsChanged");
+  }
+
+  // Reset to random enemy spawning
+  private resetEnemySpawning(): void {
+    this.state.forcedEnemyType = undefined;
+    this.events.emit("debugOptionsChanged");
+  }
+}
@@ -0,0 +1,217 @@
+import { Level } from "./levels";
+import { SpawnGroup, SpawnTableEntry, SpawnWave } from "./levelDefinitions";
+import { Simulation } from "./simulation";
+
+// Seconds of quiet before each wave after the first, unless it says otherwise
+const defaultWavePause = 2;
+
+// An enemy an authored wave has lined up to send out
+interface PendingSpawn {
+  time: number; // On the simulation clock
+  type: number | null; // Null to pick from the spawn table
+  spoke: number | null; // Null to leave it to the enemy
+}
+
+/**
+ * Decides when enemies come out, which and where. It runs a level's spawn
+ * waves in order, each waiting for the last one's enemies to be gone, then
+ * falls back to random spawns from the level's table, at a pace that
+ * quickens as the blood moon grows.
+ */
+export class SpawnDirector {
+  private simulation: Simulation;
+  private level: Level;
+  private waves: SpawnWave[] = [];
+  private waveIndex: number = 0;
+  private waveStartTime: number = 0; // When the current wave's groups count from, after its pause
+  private waveStarted: boolean = false; // Set once the pause is over and the wave's spawns are lined up
+  private pending: PendingSpawn[] = []; // Authored spawns still to come, soonest first
+  private randomLeft: number = 0; // Random spawns the current wave still has to send out
+  private nextRandomTime: number = 0;
+
+  constructor(simulation: Simulation) {
+    this.simulation = simulation;
+    this.level = simulation.level;
+  }
+
+  /**
+   * Begin a level's spawning from its first wave
+   */
+  public start(level: Level): void {
+    this.level = level;
+    this.waves = level.definition.spawnWaves ?? [];
+    this.nextRandomTime = this.now();
+    this.beginWave(0);
+  }
+
+  /**
+   * Send out whatever is due this tick
+   */
+  public update(): void {
+    const wave = this.waves[this.waveIndex];
+
+    // Random spawning takes over once the waves are done, or if there are none
+    if (!wave) {
+      this.trySpawnRandom(null);
+      return;
+    }
+
+    if (!this.waveStarted) {
+      if (this.now() < this.waveStartTime) return;
+      this.lineUpWave(wave);
+    }
+
+    const spawnTable = wave.spawnTable ?? null;
+    while (this.pending.length > 0 && this.pending[0].time <= this.now()) {
+      const spawn = this.pending.shift()!;
+      this.simulation.enemyManager.createEnemy(
+        this.level,
+        spawn.type,
+        spawnTable,
+        spawn.spoke
+      );
+    }
+
+    if (this.randomLeft > 0 && this.trySpawnRandom(spawnTable)) {
+      this.randomLeft--;
+    }
+
+    const sentOut = this.pending.length === 0 && this.randomLeft === 0;
+    if (sentOut && this.isFieldClear()) {
+      this.beginWave(this.waveIndex + 1);
+    }
+  }
+
+  /**
+   * Whether every spawn wave has been sent out and cleared
+   */
+  public isFinished(): boolean {
+    return this.waveIndex >= this.waves.length;
+  }
+
+  /**
+   * The wave under way or coming up, from 1, out of how many, and how many
+   * enemies it has still to send out
+   */
+  public getWaveProgress(): { wave: number; waves: number; toSpawn: number } {
+    const wave = this.waves[this.waveIndex];
+    let toSpawn = 0;
+    if (wave) {
+      toSpawn = this.waveStarted
+        ? this.pending.length + this.randomLeft
+        : getWaveSize(wave);
+    }
+
+    return {
+      wave: Math.min(this.waveIndex + 1, this.waves.length),
+      waves: this.waves.length,
+      toSpawn,
+    };
+  }
+
+  // Wait out a wave's pause before it starts
+  private beginWave(index: number): void {
+    this.waveIndex = index;
+    this.waveStarted = false;
+    this.pending = [];
+    this.randomLeft = 0;
+
+    const wave = this.waves[index];
+    if (!wave) return;
+
+    const pause = wave.pause ?? (index === 0 ? 0 : defaultWavePause);
+    this.waveStartTime = this.now() + pause;
+  }
+
+  // Work out when and where each of the wave's enemies comes out
+  private lineUpWave(wave: SpawnWave): void {
+    this.waveStarted = true;
+    this.waveStartTime = this.now();
+
+    for (const group of wave.groups ?? []) {
+      const spokes = this.getFormationSpokes(group);
+      for (let i = 0; i < group.count; i++) {
+        this.pending.push({
+          time: this.waveStartTime + group.at + i * (group.interval ?? 0),
+          type: group.type ?? null,
+          spoke: spokes[i],
+        });
+      }
+    }
+    this.pending.sort((a, b) => a.time - b.time);
+
+    if (!wave.groups) {
+      this.randomLeft = wave.count ?? 0;
+      this.nextRandomTime = this.now();
+    }
+  }
+
+  // The spoke each of a group's enemies comes up, wrapped round onto the
+  // level's spokes, or null for their own pick
+  private getFormationSpokes(group: SpawnGroup): (number | null)[] {
+    const formation = group.formation ?? { type: "random" };
+    const spokeCount = this.level.getSpokeCount();
+    const random = this.simulation.gameState.random;
+
+    const spokes: (number | null)[] = [];
+    switch (formation.type) {
+      case "random":
+        for (let i = 0; i < group.count; i++) spokes.push(null);
+        break;
+      case "spokes":
+        for (let i = 0; i < group.count; i++) {
+          const spoke = formation.spokes[i % formation.spokes.length];
+          spokes.push(spoke % spokeCount);
+        }
+        break;
+      case "column": {
+        const spoke = (formation.spoke ?? random.int(spokeCount)) % spokeCount;
+        for (let i = 0; i < group.count; i++) spokes.push(spoke);
+        break;
+      }
+      case "ring": {
+        const first = random.int(spokeCount);
+        for (let i = 0; i < group.count; i++) {
+          const step = Math.round((i * spokeCount) / group.count);
+          spokes.push((first + step) % spokeCount);
+        }
+        break;
+      }
+    }
+    return spokes;
+  }
+
+  /**
+   * Send out a random enemy if it's time, the gap to the next one shrinking
+   * as the blood moon grows
+   * @returns True if one was sent
+   */
+  private trySpawnRandom(spawnTable: SpawnTableEntry[] | null): boolean {
+    if (this.now() < this.nextRandomTime) return false;
+
+    this.simulation.enemyManager.createEnemy(this.level, null, spawnTable);
+
+    const nextTime =
+      0.5 +
+      0.5 *
+        (this.simulation.getRemainingTime() / this.level.definition.timeLimit);
+    this.nextRandomTime =
+      this.now() + 0.5 + this.simulation.gameState.random.next() * nextTime;
+    return true;
+  }
+
+  // No enemies left from the wave; a boss out at the same time doesn't count
+  private isFieldClear(): boolean {
+    return this.simulation.state.enemies.every((enemy) => enemy.isBoss);
+  }
+
+  private now(): number {
+    return this.simulation.scheduler.now();
+  }
+}
+
+// Enemies a wave sends out in all
+function getWaveSize(wave: SpawnWave): number {
+  if (!wave.groups) return wave.count ?? 0;
+  return wave.groups.reduce((sum, group) => sum + group.count, 0);
+}
@@ -0,0 +1,126 @@
+import { CollisionWorld } from "./collisions";
+import { Level } from "./levels";
+import { Simulation } from "./simulation";
+import { Spike, SpikeSegment, Vec2 } from "./types";
+
+// Spikes are shot down a length at a time, each this share of the spoke
+export const spikeSegmentLength = 0.08;
+
+// How far either side of its spoke a spike can be hit
+const spikeRadius = 0.35;
+
+// Scored for each length shot off a spike
+const spikeSegmentPoints = 2;
+
+/**
+ * Looks after the spikes spikers leave up the spokes. They can't reach the
+ * player on the rim, but the player dives right past them in the warp, so
+ * they're worth shooting down before the level ends.
+ */
+export class SpikeField {
+  private simulation: Simulation;
+  private level: Level;
+
+  // Each spike's segments, kept from tick to tick since they're registered
+  // as colliders every tick
+  private segments: WeakMap<Spike, SpikeSegment[]> = new WeakMap();
+  private position: Vec2 = { x: 0, y: 0 }; // Reused for each collider
+
+  constructor(simulation: Simulation) {
+    this.simulation = simulation;
+    this.level = simulation.level;
+  }
+
+  /**
+   * Move on to a level. Spikes stay on their spokes if it has as many as
+   * the last one, and are cleared otherwise.
+   */
+  public start(level: Level): void {
+    if (level.getSpokeCount() !== this.level.getSpokeCount()) {
+      this.clear();
+    }
+    this.level = level;
+  }
+
+  public clear(): void {
+    this.simulation.state.spikes = [];
+  }
+
+  /**
+   * Grow the spike up a spoke to at least the given length, from 0 at its
+   * inner end to 1 at the rim
+   */
+  public lay(spoke: number, length: number): void {
+    const spikes = this.simulation.state.spikes;
+    const spike = spikes.find((spike) => spike.spoke === spoke);
+    if (spike) {
+      spike.length = Math.max(spike.length, length);
+    } else {
+      spikes.push({ spoke, length });
+    }
+  }
+
+  /**
+   * Register each spike's segments for this tick, tip first so shots
+   * coming down the spoke meet it first
+   */
+  public addColliders(collisions: CollisionWorld): void {
+    const spokes = this.level.getSpokePositions();
+    for (const spike of this.simulation.state.spikes) {
+      const spoke = spokes[spike.spoke];
+      if (!spoke) continue;
+
+      const segments = this.getSegments(spike);
+      for (let index = getSegmentCount(spike) - 1; index >= 0; index--) {
+        // The middle of the segment, which may be cut short at the tip
+        const start = index * spikeSegmentLength;
+        const end = Math.min(start + spikeSegmentLength, spike.length);
+        const t = (start + end) / 2;
+
+        this.position.x = spoke.innerX + (spoke.outerX - spoke.innerX) * t;
+        this.position.y = spoke.innerY + (spoke.outerY - spoke.innerY) * t;
+        collisions.add("spikes", segments[index], this.position, spikeRadius);
+      }
+    }
+  }
+
+  /**
+   * Knock a segment off a spike's tip for the player, taking the spike
+   * away once there's nothing left of it
+   */
+  public shoot(spike: Spike): void {
+    const state = this.simulation.state;
+    const gameState = this.simulation.gameState;
+
+    spike.length = (getSegmentCount(spike) - 1) * spikeSegmentLength;
+    if (spike.length <= 0) {
+      const index = state.spikes.indexOf(spike);
+      if (index !== -1) state.spikes.splice(index, 1);
+    }
+
+    gameState.score += spikeSegmentPoints;
+    this.simulation.events.emit("scoreChanged", { score: gameState.score });
+    this.simulation.events.emit("spikeShot", { spike });
+  }
+
+  // The spike's segments, adding any it has grown since last time
+  private getSegments(spike: Spike): SpikeSegment[] {
+    let segments = this.segments.get(spike);
+    if (!segments) {
+      segments = [];
+      this.segments.set(spike, segments);
+    }
+    for (let index = segments.length; index < getSegmentCount(spike); index++) {
+      segments.push({ spike, index });
+    }
+    return segments;
+  }
+}
+
+/**
+ * Segments a spike is made of, the last of them possibly only part grown
+ */
+export function getSegmentCount(spike: Spike): number {
+  // Allow for rounding when a shot has left an exact number of segments
+  return Math.ceil(spike.length / spikeSegmentLength - 1e-9);
+}
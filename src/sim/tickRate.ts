@@ -0,0 +1,3 @@
+// Simulation runs at a fixed rate regardless of the display refresh rate
+export const TICK_RATE = 60;
+export const TICK_DURATION = 1 / TICK_RATE;
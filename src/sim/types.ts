@@ -0,0 +1,134 @@
+import { Enemy } from "./enemy";
+import { Level } from "./levels";
+import { Scheduler } from "../scheduler";
+
+// Plain 2D point or direction; the simulation never touches Three.js types
+export interface Vec2 {
+  x: number;
+  y: number;
+}
+
+// Simulation state for a single run
+export interface SimulationState {
+  playerSize: number;
+  playerAngle: number;
+  playerPosition: Vec2; // Player's point on the level outline, used for enemy targeting
+  enemySpeed: number;
+  enemies: Enemy[];
+  bullets: Bullet[];
+  enemyBullets: Bullet[]; // Bullets fired by enemies
+  explosions: Explosion[]; // Track active explosions for collision detection
+  spikes: Spike[]; // Left up the spokes by spikers, one per spoke at most
+  scheduler: Scheduler; // Game-time timers, cleared when the run stops
+  ghostMode: boolean;
+  spawnEnemies: boolean; // Toggle for enabling/disabling enemy spawning
+  rideLevelRotation: boolean; // Carry the player round with a rotating level instead of holding them still
+  laneMode: boolean; // Snap the player to the lanes between spokes, like classic Tempest
+  playerLane: number; // Lane the player sits in while in lane mode
+  warpProgress: number | null; // How far through the dive to the next level, from 0 to 1, or null outside it
+  forcedEnemyType?: number; // If set, spawn this specific enemy type
+}
+
+export interface Bullet {
+  position: Vec2;
+  direction: Vec2;
+  speed: number;
+  fromEnemy?: boolean; // Flag to identify enemy bullets
+  isBomb?: boolean; // Flag to identify bullets that explode when they hit the level boundary
+  lane?: number; // Lane a lane mode shot travels down, turning with the level
+}
+
+// Trail a spiker leaves up a spoke from its inner end
+export interface Spike {
+  spoke: number;
+  length: number; // How far up the spoke it reaches, from 0 at the inner end to 1 at the rim
+}
+
+// A length of spike registered for collisions
+export interface SpikeSegment {
+  spike: Spike;
+  index: number; // Counting from the spoke's inner end
+}
+
+// Interface for explosions
+export interface Explosion {
+  position: Vec2;
+  radius: number;
+  maxRadius: number;
+  startTime: number;
+  duration: number;
+}
+
+// How far the player is through the level's objective, for the HUD
+export type ObjectiveProgress =
+  | { type: "waves"; wave: number; waves: number; enemiesLeft: number } // Wave counts from 1
+  | { type: "survive"; secondsLeft: number }
+  | { type: "boss"; hitPoints: number | null; maxHitPoints: number }; // Null while the boss isn't out
+
+// Line an enemy projects ahead of itself before crossing to it
+export interface GuideLine {
+  start: Vec2;
+  end: Vec2;
+}
+
+// Interface for enemy movement controllers
+export interface MovementController {
+  // Update enemy position based on current state
+  update(delta: number): Vec2;
+
+  // Optional line to draw for special effects (e.g., spoke extension lines)
+  getGuideLine?(): GuideLine | null;
+
+  // Whether shots pass through the enemy just now, e.g. mid-hop
+  isShielded?(): boolean;
+}
+
+// What each collision layer holds; the player layer holds the player's position
+export interface CollisionLayers {
+  player: Vec2;
+  playerShots: Bullet;
+  enemies: Enemy;
+  enemyShots: Bullet;
+  explosions: Explosion;
+  spikes: SpikeSegment;
+}
+
+export type CollisionLayer = keyof CollisionLayers;
+
+// An object taking part in a collision, tagged with its layer so handlers can narrow on it
+export type CollisionBody = {
+  [L in CollisionLayer]: { layer: L; object: CollisionLayers[L] };
+}[CollisionLayer];
+
+/**
+ * Everything a renderer, HUD, sound layer or tool needs to follow a run,
+ * keyed by event name. Events without a payload are typed as void.
+ */
+export interface SimulationEvents {
+  levelStarted: { level: Level };
+  levelCompleted: { level: Level };
+  bloodMoonGrowing: { duration: number };
+  bloodMoonShrinking: { duration: number };
+  bloodMoonConsumed: void;
+  scoreChanged: { score: number };
+  livesChanged: { lives: number };
+  enemySpawned: { enemy: Enemy };
+  enemyDamaged: { enemy: Enemy };
+  enemyFlashed: { enemy: Enemy; duration: number };
+  enemyKilled: { enemy: Enemy; byPlayer: boolean }; // Shot down, or cleared at the end of a level
+  enemyEscaped: { enemy: Enemy }; // Reached the level boundary
+  bulletFired: { bullet: Bullet };
+  bulletRemoved: { bullet: Bullet };
+  explosionStarted: { explosion: Explosion; enemy: Enemy | null };
+  explosionEnded: { explosion: Explosion };
+  spikeShot: { spike: Spike }; // Lost a segment to the player, and is gone if its length is 0
+  collision: { first: CollisionBody; second: CollisionBody };
+  playerHit: void;
+  playerDied: void; // Lost a life and will respawn shortly
+  playerRespawned: void;
+  warpStarted: { duration: number; nextLevel: Level }; // Diving down the tube toward the next level
+  warpCompleted: { bonus: number }; // No bonus if the player died on the way
+  ghostModeChanged: { active: boolean };
+  debugOptionsChanged: void;
+  gameOver: void;
+}
@@ -0,0 +1,106 @@
+import * as THREE from "three";
+import { Level } from "./sim/levels";
+import { Spike } from "./sim/types";
+import { getSegmentCount, spikeSegmentLength } from "./sim/spikes";
+import { ResourceScope } from "./resources";
+
+// A paler green than the spikers that lay them
+const spikeColor = 0x88ff88;
+
+// Share of each segment left as a gap, so the segments shots knock off show
+const segmentGap = 0.2;
+
+// Segments in a spike grown all the way to the rim
+const maxSegmentsPerSpike = Math.ceil(1 / spikeSegmentLength);
+
+// Draws the spikes left up the spokes segment by segment, turning with the level
+export class SpikeView {
+  private resources: ResourceScope;
+  private geometryResources: ResourceScope; // Freed whenever the buffer grows
+  private lines: THREE.LineSegments;
+  private positions: THREE.BufferAttribute;
+  private capacity: number = 0; // Segments the position buffer has room for
+  private drawnCount: number = 0; // Spikes in the geometry as last built
+
+  constructor(resources: ResourceScope) {
+    this.resources = resources;
+    this.geometryResources = resources.createChild();
+    this.positions = new THREE.BufferAttribute(new Float32Array(0), 3);
+    this.lines = new THREE.LineSegments(
+      this.geometryResources.track(new THREE.BufferGeometry()),
+      resources.track(new THREE.LineBasicMaterial({ color: spikeColor }))
+    );
+
+    // The spikes never leave the level, which is always in view, so there's
+    // no need to keep a bounding sphere up to date for culling
+    this.lines.frustumCulled = false;
+  }
+
+  public getObject(): THREE.Object3D {
+    return this.lines;
+  }
+
+  /**
+   * Redraw each spike's segments from its spoke's inner end out as far as
+   * it reaches
+   */
+  public update(level: Level, spikes: Spike[]): void {
+    if (spikes.length === 0 && this.drawnCount === 0) return;
+    this.drawnCount = spikes.length;
+
+    // Room for a full spike up every spoke, so the buffer only grows when a
+    // level with more spokes comes along
+    this.ensureCapacity(level.getSpokeCount() * maxSegmentsPerSpike);
+
+    const spokes = level.getSpokePositions();
+    const positions = this.positions.array as Float32Array;
+    let offset = 0;
+    for (const spike of spikes) {
+      const spoke = spokes[spike.spoke];
+      if (!spoke) continue;
+
+      const spokeX = spoke.outerX - spoke.innerX;
+      const spokeY = spoke.outerY - spoke.innerY;
+      const segmentCount = Math.min(
+        getSegmentCount(spike),
+        maxSegmentsPerSpike
+      );
+      for (let i = 0; i < segmentCount; i++) {
+        const start = i * spikeSegmentLength;
+        const end = Math.min(
+          start + spikeSegmentLength * (1 - segmentGap),
+          spike.length
+        );
+        positions[offset++] = spoke.innerX + spokeX * start;
+        positions[offset++] = spoke.innerY + spokeY * start;
+        positions[offset++] = 0;
+        positions[offset++] = spoke.innerX + spokeX * end;
+        positions[offset++] = spoke.innerY + spokeY * end;
+        positions[offset++] = 0;
+      }
+    }
+
+    this.positions.needsUpdate = true;
+    this.lines.geometry.setDrawRange(0, offset / 3);
+  }
+
+  // Swap in a bigger position buffer when the current one can't hold the
+  // given number of segments
+  private ensureCapacity(segments: number): void {
+    if (segments <= this.capacity) return;
+
+    this.geometryResources.dispose();
+    this.geometryResources = this.resources.createChild();
+
+    this.capacity = segments;
+    this.positions = new THREE.BufferAttribute(
+      new Float32Array(segments * 2 * 3),
+      3
+    );
+    this.positions.setUsage(THREE.DynamicDrawUsage);
+
+    const geometry = this.geometryResources.track(new THREE.BufferGeometry());
+    geometry.setAttribute("position", this.positions);
+    this.lines.geometry = geometry;
+  }
+}
@@ -483,6 +483,20 @@ export class CountdownSound extends SoundEffect {
       this.intervalId = null;
     }
   }
+
+  // Hold the beeping at its current rate
+  pause(): void {
+    this.stop();
+  }
+
+  // Continue beeping at the rate it had reached when paused
+  resume(): void {
+    if (this.intervalId !== null) return;
+
+    this.intervalId = window.setInterval(() => {
+      this.beep();
+    }, this.beepRate);
+  }
 }
 
 // Ship flying sound
@@ -592,6 +606,7 @@ export class BackgroundMusic extends SoundEffect {
   private barCount: number = 0; // Track musical progress
   private patternPosition: number = 0;
   private currentSection: number = 0; // Track musical section (intro, verse, etc)
+  private sectionTimer: any = null;
 
   // Notes for scales (by semitone steps from root)
   private scaleNotes = {
@@ -738,7 +753,11 @@ export class BackgroundMusic extends SoundEffect {
     this.startLead();
 
     // Every 8 bars (32 beats), potentially change musical section
-    setInterval(() => {
+    this.startSectionTimer();
+  }
+
+  private startSectionTimer(): void {
+    this.sectionTimer = setInterval(() => {
       if (!this.running) return;
 
       this.barCount += 8;
@@ -1253,11 +1272,30 @@ export class BackgroundMusic extends SoundEffect {
     if (this.bassline) clearTimeout(this.bassline);
     if (this.pad) clearTimeout(this.pad);
     if (this.lead) clearTimeout(this.lead);
+    if (this.sectionTimer) clearInterval(this.sectionTimer);
 
     // All actual sounds will stop naturally as they finish their envelopes
     // and are removed from the activeSounds set when they end
   }
 
+  // Stop scheduling notes but keep our place in the song
+  pause(): void {
+    if (!this.running) return;
+    this.stop();
+  }
+
+  // Pick the song back up from where pause() left it
+  resume(): void {
+    if (this.running) return;
+    this.running = true;
+
+    this.startBassline();
+    this.startArpeggiator();
+    this.startPad();
+    this.startLead();
+    this.startSectionTimer();
+  }
+
   // Change the base key of the music
   setKey(newKey: string): void {
     if (this.rootNotes[newKey]) {
@@ -1351,6 +1389,9 @@ export class BloodMoonSound extends SoundEffect {
 export class SoundManager {
   private static instance: SoundManager;
   private isMuted: boolean = false;
+  private isPaused: boolean = false;
+  private musicKey: string = "c"; // Used whenever the background music (re)starts
+  private musicScale: string = "minor";
 
   private constructor() {
     // Initialize AudioContext on first user interaction
@@ -1458,6 +1499,17 @@ export class SoundManager {
     return this.isMuted;
   }
 
+  // Run gameplay code without it making any sound, e.g. while fast-forwarding a replay
+  public runSilently(callback: () => void): void {
+    const wasMuted = this.isMuted;
+    this.isMuted = true;
+    try {
+      callback();
+    } finally {
+      this.isMuted = wasMuted;
+    }
+  }
+
   // Stop all sound effects but keep background music
   public stopSoundEffects(): void {
     stopAllSounds();
@@ -1469,7 +1521,38 @@ export class SoundManager {
     this.stopBackgroundMusic();
   }
 
+  // Freeze everything in place: notes already sounding hold, and no new ones are scheduled
+  public pauseAllSounds(): void {
+    if (this.isPaused) return;
+    this.isPaused = true;
+
+    if (backgroundMusicInstance) {
+      backgroundMusicInstance.pause();
+    }
+    getAudioContext().suspend();
+  }
+
+  // Undo pauseAllSounds
+  public resumeAllSounds(): void {
+    if (!this.isPaused) return;
+    this.isPaused = false;
+
+    getAudioContext().resume();
+    if (backgroundMusicInstance && !this.isMuted) {
+      backgroundMusicInstance.resume();
+    }
+  }
+
   // Background music methods
+
+  /**
+   * Key and scale for background music started from now on
+   */
+  public setMusicStyle(key: string, scale: string): void {
+    this.musicKey = key;
+    this.musicScale = scale;
+  }
+
   public startBackgroundMusic(): void {
     if (this.isMuted) return;
 
@@ -1479,9 +1562,13 @@ export class SoundManager {
     // Reset countdown time
     currentCountdownSeconds = 60;
 
-    // Create and start new music
+    // Create and start new music (while paused, resumeAllSounds starts it instead)
     backgroundMusicInstance = new BackgroundMusic();
-    backgroundMusicInstance.play();
+    backgroundMusicInstance.setKey(this.musicKey);
+    backgroundMusicInstance.setScale(this.musicScale);
+    if (!this.isPaused) {
+      backgroundMusicInstance.play();
+    }
   }
 
   // Update music based on countdown timer
@@ -0,0 +1,93 @@
+import * as THREE from "three";
+import { TICK_DURATION } from "./sim/tickRate";
+
+// Clamp long frames (tab switches, debugger pauses) so we don't spiral trying to catch up
+const MAX_FRAME_TIME = 0.25;
+
+/**
+ * Accumulates real frame time and converts it into a whole number of
+ * fixed-length simulation ticks.
+ */
+export class FixedTimestep {
+  private accumulator: number = 0;
+  private step: number;
+
+  constructor(step: number = TICK_DURATION) {
+    this.step = step;
+  }
+
+  /**
+   * Run as many fixed ticks as the elapsed frame time allows
+   * @param frameDelta Real time elapsed since the last frame, in seconds
+   * @param tick Called once per simulation tick with the fixed step
+   * @returns Interpolation factor (0 to 1) between the last two ticks
+   */
+  public advance(frameDelta: number, tick: (delta: number) => void): number {
+    this.accumulator += Math.min(frameDelta, MAX_FRAME_TIME);
+
+    while (this.accumulator >= this.step) {
+      tick(this.step);
+      this.accumulator -= this.step;
+    }
+
+    return this.accumulator / this.step;
+  }
+
+  /**
+   * Drop any partially accumulated time (e.g. after a mode change)
+   */
+  public reset(): void {
+    this.accumulator = 0;
+  }
+}
+
+/**
+ * Smooths rendering between simulation ticks.
+ * Positions are captured at the start of every tick, then blended with the
+ * post-tick positions at render time and restored straight afterwards so the
+ * simulation never sees interpolated values.
+ */
+export class RenderInterpolator {
+  private previous: Map<THREE.Object3D, THREE.Vector3> = new Map();
+  private current: Map<THREE.Object3D, THREE.Vector3> = new Map();
+
+  /**
+   * Record the positions of the given objects before a tick runs
+   */
+  public capture(objects: Iterable<THREE.Object3D>): void {
+    this.previous.clear();
+    for (const object of objects) {
+      this.previous.set(object, object.position.clone());
+    }
+  }
+
+  /**
+   * Move captured objects to their interpolated render positions
+   * @param alpha Interpolation factor returned by FixedTimestep.advance
+   */
+  public apply(alpha: number): void {
+    this.current.clear();
+    this.previous.forEach((previousPosition, object) => {
+      // Objects removed from the scene during the tick don't need smoothing
+      if (!object.parent) return;
+
+      this.current.set(object, object.position.clone());
+      object.position.lerpVectors(previousPosition, object.position, alpha);
+    });
+  }
+
+  /**
+   * Put objects back at their simulated positions after rendering
+   */
+  public restore(): void {
+    this.current.forEach((position, object) => {
+      object.position.copy(position);
+    });
+    this.current.clear();
+  }
+
+  public clear(): void {
+    this.previous.clear();
+    this.current.clear();
+  }
+}
@@ -1,4 +1,8 @@
+import * as THREE from "three";
 import { GameState } from "./types";
+import { ResourceCounts } from "./resources";
+import { ObjectiveProgress } from "./sim/types";
+import { Scheduler } from "./scheduler";
 
 // Set up initial UI elements
 export function setupUI(): void {
@@ -41,6 +45,18 @@ export function setupUI(): void {
   livesElement.innerText = "Lives: 3";
   document.body.appendChild(livesElement);
 
+  // Create the level objective display below the lives
+  const objectiveElement = document.createElement("div");
+  objectiveElement.id = "objective";
+  objectiveElement.style.position = "absolute";
+  objectiveElement.style.top = "140px";
+  objectiveElement.style.left = "20px";
+  objectiveElement.style.fontSize = "24px";
+  objectiveElement.style.fontFamily = "monospace";
+  objectiveElement.style.color = "#ffcc00";
+  objectiveElement.style.textShadow = "0 0 5px #ffcc00";
+  document.body.appendChild(objectiveElement);
+
   // Create level display
   const levelElement = document.createElement("div");
   levelElement.id = "level";
@@ -53,15 +69,10 @@ export function setupUI(): void {
   levelElement.style.textShadow = "0 0 5px #00ffaa";
   levelElement.innerText = "Level: 1";
   document.body.appendChild(levelElement);
-
-  // Initialize the game in marquee mode
-  document.dispatchEvent(
-    new CustomEvent("gameStatusChanged", { detail: { status: "marquee" } })
-  );
 }
 
 // Update score display
-export function updateScore(gameState: GameState): void {
+export function updateScore(gameState: GameState, scheduler: Scheduler): void {
   // Skip updates if game hasn't started yet
   if (gameState.gameStatus !== "active") return;
 
@@ -73,10 +84,11 @@ export function updateScore(gameState: GameState): void {
     scoreElement.style.fontSize = "28px";
     scoreElement.style.color = "#ffffff";
 
-    setTimeout(() => {
+    const endFlash = () => {
       scoreElement.style.fontSize = "24px";
       scoreElement.style.color = "#00ffaa";
-    }, 200);
+    };
+    scheduler.after(0.2, endFlash, endFlash);
   }
 
   // Update level display
@@ -86,8 +98,11 @@ export function updateScore(gameState: GameState): void {
   }
 }
 
-// Update countdown timer display
-export function updateCountdownTimer(remainingSeconds: number): void {
+// Update countdown timer display, flashing it by the game clock time given
+export function updateCountdownTimer(
+  remainingSeconds: number,
+  time: number
+): void {
   const timerElement = document.getElementById("countdown-timer");
   if (!timerElement) return;
 
@@ -96,7 +111,7 @@ export function updateCountdownTimer(remainingSeconds: number): void {
   // Update color based on time remaining
   if (remainingSeconds <= 10) {
     // Urgent red flashing for last 10 seconds
-    const isFlashing = Math.floor(Date.now() / 500) % 2 === 0;
+    const isFlashing = Math.floor(time * 2) % 2 === 0;
     timerElement.style.color = isFlashing ? "#FF0000" : "#FFFFFF";
     timerElement.style.textShadow = isFlashing
       ? "0 0 10px #FF0000"
@@ -115,8 +130,35 @@ export function updateCountdownTimer(remainingSeconds: number): void {
   }
 }
 
+// Update the level objective display, e.g. the wave and enemies left
+export function updateObjective(progress: ObjectiveProgress): void {
+  const objectiveElement = document.getElementById("objective");
+  if (!objectiveElement) return;
+
+  let text: string;
+  switch (progress.type) {
+    case "waves":
+      text = `Wave ${progress.wave}/${progress.waves}: ${progress.enemiesLeft} left`;
+      break;
+    case "survive":
+      text = `Survive: ${progress.secondsLeft}`;
+      break;
+    case "boss":
+      text =
+        progress.hitPoints === null
+          ? "Boss incoming"
+          : `Boss: ${progress.hitPoints}/${progress.maxHitPoints}`;
+      break;
+  }
+
+  // Called every tick, so only touch the page when the text changes
+  if (objectiveElement.innerText !== text) {
+    objectiveElement.innerText = text;
+  }
+}
+
 // Update lives display
-export function updateLives(gameState: GameState): void {
+export function updateLives(gameState: GameState, scheduler: Scheduler): void {
   const livesElement = document.getElementById("lives");
   if (!livesElement) return;
 
@@ -126,8 +168,39 @@ export function updateLives(gameState: GameState): void {
   livesElement.style.fontSize = "28px";
   livesElement.style.color = "#ffffff";
 
-  setTimeout(() => {
+  const endFlash = () => {
     livesElement.style.fontSize = "24px";
     livesElement.style.color = "#00ffaa";
-  }, 200);
+  };
+  scheduler.after(0.2, endFlash, endFlash);
+}
+
+// Update the dev counter of live GPU resources, creating it on first use
+export function updateResourceCounter(
+  counts: ResourceCounts,
+  info: THREE.WebGLInfo
+): void {
+  let counterElement = document.getElementById("resource-counter");
+  if (!counterElement) {
+    counterElement = document.createElement("div");
+    counterElement.id = "resource-counter";
+    counterElement.style.position = "absolute";
+    counterElement.style.bottom = "20px";
+    counterElement.style.left = "20px";
+    counterElement.style.fontSize = "12px";
+    counterElement.style.fontFamily = "monospace";
+    counterElement.style.color = "#aaaaff";
+    counterElement.style.whiteSpace = "pre";
+    counterElement.style.pointerEvents = "none";
+    document.body.appendChild(counterElement);
+  }
+
+  // Scope counts cover what the game tracks; the renderer's cover what's on the GPU
+  const text =
+    `Tracked: ${counts.geometries} geometries, ${counts.materials} materials, ${counts.textures} textures\n` +
+    `GPU: ${info.memory.geometries} geometries, ${info.memory.textures} textures, ${info.programs?.length ?? 0} programs`;
+
+  if (counterElement.innerText !== text) {
+    counterElement.innerText = text;
+  }
 }